@@ -0,0 +1,5 @@
+// Wildcard links: /abc123/docs/getting-started redirects like /abc123, with the extra path
+// appended to the destination. Links without the wildcard option answer 404 here.
+export { GET, POST } from "../route"
+
+export const dynamic = "force-dynamic"
@@ -0,0 +1,297 @@
+import { type NextRequest, NextResponse, after } from "next/server"
+import {
+  getClickContext,
+  getStickyVariantId,
+  resolveShortCode,
+  setStickyVariantCookie,
+  withClickTracking,
+  type ResolvedShortCode,
+} from "@/lib/redirects"
+import { recordClick, recordPasswordAttempt, type ClickEvent } from "@/lib/analytics-clean"
+import {
+  renderDeletedPage,
+  renderExpiredPage,
+  renderLinkPage,
+  renderNotFoundPage,
+  renderNotLivePage,
+  renderPasswordPage,
+} from "@/lib/link-pages"
+import { getLinkPasswordHash, verifyLinkPassword } from "@/lib/link-passwords"
+import { isPasswordProtected } from "@/lib/links"
+import { lookupIp, type GeoLocation } from "@/lib/geoip"
+import { getPathAfterShortCode } from "@/lib/passthrough"
+import { takeQrScanParam } from "@/lib/qr"
+import { ensureServerSession } from "@/lib/server-auth"
+import {
+  checkRateLimit,
+  getClientIp,
+  peekRateLimit,
+  RATE_LIMITS,
+  rateLimitHeaders,
+  type RateLimitResult,
+} from "@/lib/rate-limit"
+
+export const dynamic = "force-dynamic"
+
+const PERMANENT_REDIRECT_MAX_AGE = 300 // seconds
+
+function withRateLimitHeaders(response: Response, rateLimit: RateLimitResult): Response {
+  Object.entries(rateLimitHeaders(rateLimit)).forEach(([name, value]) => response.headers.set(name, value))
+  return response
+}
+
+function tooManyRedirectsPage(rateLimit: RateLimitResult): Response {
+  return withRateLimitHeaders(
+    renderLinkPage({
+      status: 429,
+      title: "Too Many Requests",
+      message: "You've opened too many short links in a short time. Please wait a moment and try again.",
+    }),
+    rateLimit,
+  )
+}
+
+// The response for a link that can't be followed
+function unavailablePage(
+  shortCode: string,
+  resolved: Exclude<ResolvedShortCode, { status: "found" }>,
+): Response {
+  switch (resolved.status) {
+    case "not_found":
+    case "inactive":
+      return renderNotFoundPage()
+    case "deleted":
+      return renderDeletedPage()
+    case "expired":
+      if (resolved.urlData.expiredRedirectUrl) {
+        console.log(`↪️ Expired link ${shortCode} → fallback ${resolved.urlData.expiredRedirectUrl}`)
+        const fallback = NextResponse.redirect(resolved.urlData.expiredRedirectUrl, 302)
+        fallback.headers.set("Cache-Control", "private, no-store")
+        return fallback
+      }
+      return renderExpiredPage(resolved.urlData.expiredMessage)
+    case "not_live":
+      if (resolved.reason === "before_activation") {
+        return renderNotLivePage({
+          activatesAt: resolved.urlData.activatesAt.toDate(),
+          countdown: resolved.urlData.showCountdown,
+        })
+      }
+      return renderNotLivePage({ schedule: resolved.urlData.schedule })
+    case "invalid":
+      return renderLinkPage({
+        status: 500,
+        title: "Link Unavailable",
+        message: "This short link is misconfigured. Please contact the person who shared it.",
+      })
+  }
+}
+
+// Record the click after the response is sent (don't let this fail or slow the redirect)
+function recordClickAfterResponse(
+  request: NextRequest,
+  shortCode: string,
+  workspaceId: string | undefined,
+  location: GeoLocation | null,
+  extra: Partial<ClickEvent> = {},
+) {
+  const { userAgent, referer, ip } = getClickContext(request)
+  after(async () => {
+    try {
+      await recordClick(shortCode, userAgent, referer, ip, {
+        workspaceId,
+        country: location?.country || undefined,
+        city: location?.city || undefined,
+        ...extra,
+      })
+    } catch (analyticsError) {
+      console.error("⚠️ Analytics recording failed (redirect already sent):", analyticsError)
+    }
+  })
+}
+
+function renderErrorPage(): Response {
+  return renderLinkPage({
+    status: 500,
+    title: "Something Went Wrong",
+    message: "We couldn't process this short link right now. Please try again in a moment.",
+  })
+}
+
+// Also serves /[shortCode]/[...path] for wildcard links
+export async function GET(request: NextRequest, { params }: { params: { shortCode: string; path?: string[] } }) {
+  const { shortCode } = params
+
+  try {
+    console.log(`🔗 Processing server-side redirect for: ${shortCode}`)
+
+    const rateLimit = await checkRateLimit(RATE_LIMITS.redirect, [`ip:${getClientIp(request)}`])
+    if (!rateLimit.success) {
+      return tooManyRedirectsPage(rateLimit)
+    }
+
+    await ensureServerSession()
+    const { userAgent, ip } = getClickContext(request)
+    const location = await lookupIp(ip)
+    const { qrScan, query } = takeQrScanParam(request.nextUrl.searchParams)
+    const resolved = await resolveShortCode(shortCode, {
+      userAgent,
+      country: location?.country,
+      variantId: getStickyVariantId(request, shortCode),
+      path: getPathAfterShortCode(request.nextUrl.pathname),
+      query,
+    })
+
+    if (resolved.status !== "found") {
+      return unavailablePage(shortCode, resolved)
+    }
+
+    // Protected links ask for the password first; the click is counted once it's unlocked
+    if (isPasswordProtected(resolved.urlData)) {
+      console.log(`🔐 Password required for: ${shortCode}`)
+      return renderPasswordPage({ shortCode, action: request.nextUrl.pathname + request.nextUrl.search })
+    }
+
+    const { redirectUrl, clickDocId } = withClickTracking(shortCode, resolved)
+    recordClickAfterResponse(request, shortCode, resolved.urlData.workspaceId, location, {
+      id: clickDocId,
+      targetingRuleId: resolved.ruleId || undefined,
+      variantId: resolved.variantId || undefined,
+      utmCampaign: resolved.campaign || undefined,
+      qrScan: qrScan || undefined,
+    })
+
+    console.log(`🚀 ${resolved.redirectStatus} redirect: ${shortCode} → ${redirectUrl}`)
+
+    const response = NextResponse.redirect(redirectUrl, resolved.redirectStatus)
+    if (resolved.variantId) {
+      // A/B redirects differ per visitor, so shared caches must never store them
+      setStickyVariantCookie(response, shortCode, resolved.variantId)
+      response.headers.set("Cache-Control", "private, no-store")
+    } else if (clickDocId) {
+      // Every redirect carries a new click ID
+      response.headers.set("Cache-Control", "private, no-store")
+    } else if (resolved.ruleId || resolved.urlData.targetingRules?.length) {
+      // Targeting rules pick the destination from the visitor's device and country, so the redirect
+      // differs per visitor even when no rule matched - a shared cache would serve one to everyone
+      response.headers.set("Cache-Control", "private, no-store")
+    } else if (
+      resolved.urlData.schedule ||
+      resolved.urlData.maxClicks ||
+      resolved.urlData.activatesAt ||
+      resolved.urlData.expiresAt
+    ) {
+      // A cached redirect would keep working after the link's window closes or its click limit is reached,
+      // and those clicks would never be counted
+      response.headers.set("Cache-Control", "private, no-store")
+    } else if (resolved.redirectStatus === 302 || resolved.redirectStatus === 307) {
+      // Temporary redirects must not be cached, otherwise repeat visits are never counted
+      response.headers.set("Cache-Control", "private, no-store")
+    } else {
+      // Untargeted permanent redirects are the same for everyone. Browsers cache them indefinitely by
+      // default - cap it so edits still take effect
+      response.headers.set("Cache-Control", `public, max-age=${PERMANENT_REDIRECT_MAX_AGE}`)
+    }
+    return response
+  } catch (error) {
+    console.error("❌ Redirect error:", error)
+    return renderErrorPage()
+  }
+}
+
+// Password form submission for a protected link
+export async function POST(request: NextRequest, { params }: { params: { shortCode: string; path?: string[] } }) {
+  const { shortCode } = params
+
+  try {
+    const clientIp = getClientIp(request)
+    const rateLimit = await checkRateLimit(RATE_LIMITS.redirect, [`ip:${clientIp}`])
+    if (!rateLimit.success) {
+      return tooManyRedirectsPage(rateLimit)
+    }
+
+    await ensureServerSession()
+    const { userAgent, ip } = getClickContext(request)
+    const location = await lookupIp(ip)
+    const { qrScan, query } = takeQrScanParam(request.nextUrl.searchParams)
+    const resolved = await resolveShortCode(shortCode, {
+      userAgent,
+      country: location?.country,
+      variantId: getStickyVariantId(request, shortCode),
+      path: getPathAfterShortCode(request.nextUrl.pathname),
+      query,
+    })
+
+    if (resolved.status !== "found") {
+      return unavailablePage(shortCode, resolved)
+    }
+
+    const { workspaceId } = resolved.urlData
+    if (!isPasswordProtected(resolved.urlData)) {
+      // Protection was removed since the form was shown
+      return NextResponse.redirect(request.nextUrl, 303)
+    }
+
+    // Each IP gets a handful of wrong guesses per link per window; visitors who know the password can
+    // unlock the link as often as they like
+    const lockoutKey = [`ip:${clientIp}:${shortCode}`]
+    const lockout = await peekRateLimit(RATE_LIMITS.password, lockoutKey)
+    if (!lockout.success) {
+      return withRateLimitHeaders(
+        renderLinkPage({
+          status: 429,
+          title: "Too Many Attempts",
+          message: "Too many wrong passwords were entered for this link. Please wait a few minutes and try again.",
+        }),
+        lockout,
+      )
+    }
+
+    const passwordHash = await getLinkPasswordHash(shortCode, resolved.urlData)
+    if (!passwordHash) {
+      console.error(`❌ Password hash missing for protected link: ${shortCode}`)
+      return renderErrorPage()
+    }
+
+    const formData = await request.formData()
+    const password = formData.get("password")
+    const unlocked = typeof password === "string" && (await verifyLinkPassword(password, passwordHash))
+
+    after(async () => {
+      try {
+        await recordPasswordAttempt(shortCode, unlocked)
+      } catch (analyticsError) {
+        console.error("⚠️ Password attempt recording failed:", analyticsError)
+      }
+    })
+
+    if (!unlocked) {
+      console.log(`🔒 Wrong password for: ${shortCode}`)
+      const failures = await checkRateLimit(RATE_LIMITS.password, lockoutKey)
+      const action = request.nextUrl.pathname + request.nextUrl.search
+      return withRateLimitHeaders(renderPasswordPage({ shortCode, action, error: "Incorrect password." }), failures)
+    }
+
+    const { redirectUrl, clickDocId } = withClickTracking(shortCode, resolved)
+    recordClickAfterResponse(request, shortCode, workspaceId, location, {
+      id: clickDocId,
+      passwordUnlocked: true,
+      targetingRuleId: resolved.ruleId || undefined,
+      variantId: resolved.variantId || undefined,
+      utmCampaign: resolved.campaign || undefined,
+      qrScan: qrScan || undefined,
+    })
+
+    // 303 so the browser follows up with a GET to the destination
+    console.log(`🔓 Unlocked: ${shortCode} → ${redirectUrl}`)
+    const response = NextResponse.redirect(redirectUrl, 303)
+    response.headers.set("Cache-Control", "private, no-store")
+    if (resolved.variantId) {
+      setStickyVariantCookie(response, shortCode, resolved.variantId)
+    }
+    return response
+  } catch (error) {
+    console.error("❌ Password redirect error:", error)
+    return renderErrorPage()
+  }
+}
@@ -0,0 +1,238 @@
+"use client"
+
+import { useRef, useState } from "react"
+import Link from "next/link"
+import { UserMenu } from "@/components/user-menu"
+import { useAuth } from "@/components/auth-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, ArrowLeft, FileUp, HardDriveDownload, Loader2, RotateCcw } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { authFetch } from "@/lib/auth"
+import type { RestoreMode, RestoreResult } from "@/lib/backup"
+
+const RESTORE_MODE_LABELS: Record<RestoreMode, string> = {
+  merge: "Merge - only add documents that are missing",
+  overwrite: "Overwrite - replace documents with the backup's version",
+}
+
+export default function BackupPage() {
+  const { user, loading: authLoading } = useAuth()
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [exporting, setExporting] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [mode, setMode] = useState<RestoreMode>("merge")
+  const [restoring, setRestoring] = useState<"check" | "restore" | null>(null)
+  const [result, setResult] = useState<RestoreResult | null>(null)
+
+  const downloadBackup = async () => {
+    setExporting(true)
+    try {
+      const response = await authFetch("/api/admin/backup")
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Backup failed")
+      }
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const anchor = document.createElement("a")
+      anchor.href = url
+      anchor.download = `shortlink-backup-${new Date().toISOString().slice(0, 10)}.ndjson`
+      anchor.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Backup failed",
+        variant: "destructive",
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const restoreBackup = async (dryRun: boolean) => {
+    if (!file) return
+    if (!dryRun && !confirm(`Restore ${file.name} into this project (${mode})?`)) return
+
+    setRestoring(dryRun ? "check" : "restore")
+    try {
+      const params = new URLSearchParams({ mode, dryRun: String(dryRun) })
+      const response = await authFetch(`/api/admin/backup?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-ndjson" },
+        body: file,
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Restore failed")
+      }
+      setResult(data)
+      const written = `${data.written} ${dryRun ? "documents to write" : "documents written"}`
+      toast({
+        title: dryRun ? "Backup checked" : "Backup restored",
+        description: `${written}, ${data.skipped} already present.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Restore failed",
+        variant: "destructive",
+      })
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between gap-4 mb-8">
+            <div className="flex items-center gap-4">
+              <Link href="/">
+                <Button variant="outline" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Home
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Backup and restore</h1>
+            </div>
+            <UserMenu />
+          </div>
+
+          {authLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !user ? (
+            <Card>
+              <CardHeader className="text-center">
+                <CardTitle>Sign in to manage backups</CardTitle>
+              </CardHeader>
+              <CardContent className="text-center">
+                <Link href="/login?next=/admin/backup">
+                  <Button>Sign in</Button>
+                </Link>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <HardDriveDownload className="h-5 w-5" />
+                    Download a backup
+                  </CardTitle>
+                  <CardDescription>
+                    Every workspace and its members, and every link with its history, analytics and click events,
+                    as an NDJSON archive. Only project admins can download backups. For large projects use{" "}
+                    <code>pnpm backup export</code> instead.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button onClick={downloadBackup} disabled={exporting}>
+                    {exporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Download backup
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <RotateCcw className="h-5 w-5" />
+                    Restore a backup
+                  </CardTitle>
+                  <CardDescription>
+                    Check the archive first: the check reads it completely and reports what would be written
+                    without changing anything. Documents that aren&apos;t in the backup are kept.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                      <FileUp className="h-4 w-4 mr-2" />
+                      {file ? file.name : "Choose backup file"}
+                    </Button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".ndjson,.jsonl,application/x-ndjson"
+                      className="hidden"
+                      onChange={(e) => {
+                        setFile(e.target.files?.[0] || null)
+                        setResult(null)
+                        e.target.value = ""
+                      }}
+                    />
+                    <Select
+                      value={mode}
+                      onValueChange={(value) => {
+                        setMode(value as RestoreMode)
+                        setResult(null)
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(RESTORE_MODE_LABELS) as RestoreMode[]).map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {RESTORE_MODE_LABELS[option]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => restoreBackup(true)} disabled={!file || !!restoring}>
+                      {restoring === "check" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Check archive
+                    </Button>
+                    <Button onClick={() => restoreBackup(false)} disabled={!file || !!restoring}>
+                      {restoring === "restore" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Restore
+                    </Button>
+                  </div>
+
+                  {result && (
+                    <div className="space-y-2 rounded-lg border p-4 text-sm">
+                      <p className="font-medium">
+                        {result.dryRun ? "Check" : "Restore"} of the backup from{" "}
+                        {new Date(result.exportedAt).toLocaleString()}: {result.written}{" "}
+                        {result.dryRun ? "documents to write" : "documents written"}, {result.skipped} already present
+                      </p>
+                      <ul className="text-gray-600 space-y-1">
+                        {Object.entries(result.counts).map(([collection, count]) => (
+                          <li key={collection}>
+                            {collection}: {count}
+                          </li>
+                        ))}
+                      </ul>
+                      {!result.complete && (
+                        <p className="flex items-center gap-2 text-yellow-700">
+                          <AlertTriangle className="h-4 w-4 shrink-0" />
+                          The archive looks truncated: its footer is missing or doesn&apos;t match the documents read.
+                        </p>
+                      )}
+                      {!result.dryRun && result.rollupsRebuilt > 0 && (
+                        <p className="text-gray-600">
+                          Rebuilt the click charts of {result.rollupsRebuilt} links from the restored click events.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
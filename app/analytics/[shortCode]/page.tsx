@@ -2,13 +2,14 @@
 
 import React from "react"
 
-import { useRef } from "react"
+import { useRef, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import {
   ArrowLeft,
   ExternalLink,
   Calendar,
+  Clock,
   Globe,
   Loader2,
   Zap,
@@ -17,10 +18,27 @@ import {
   Wifi,
   WifiOff,
   RefreshCw,
+  MousePointer,
+  Lock,
 } from "lucide-react"
 import Link from "next/link"
 import { useRealTimeAnalytics } from "@/hooks/use-real-time-analytics"
 import { RealTimeClickTracker } from "@/lib/real-time-tracker"
+import { getClickEvents, type ClickEvent, type UrlData } from "@/lib/analytics-clean"
+import { describeSchedule } from "@/lib/schedules"
+import { ClickTrends } from "@/components/click-trends"
+import { useAuth } from "@/components/auth-provider"
+import { Switch } from "@/components/ui/switch"
+import { canEditLink, canViewAnalytics, getLinkRole, getPurgeDate, isPasswordProtected } from "@/lib/links"
+import { useWorkspace } from "@/components/workspace-provider"
+import { authFetch } from "@/lib/auth"
+import { useToast } from "@/hooks/use-toast"
+import { EditLinkDialog } from "@/components/edit-link-dialog"
+import { TargetingRulesDialog } from "@/components/targeting-rules-dialog"
+import { VariantsDialog } from "@/components/variants-dialog"
+import { ConversionStats } from "@/components/conversion-stats"
+import { LinkHistory } from "@/components/link-history"
+import { hasRole } from "@/lib/workspaces"
 
 export default function AnalyticsPage({
   params,
@@ -28,10 +46,66 @@ export default function AnalyticsPage({
   params: { shortCode: string }
 }) {
   const { shortCode } = params
-  const { urlData, analyticsData, loading, error, connectionStatus, clickCount, isNewClick, lastUpdate } =
+  const { urlData, analyticsData, clickEvents, loading, error, connectionStatus, clickCount, isNewClick, lastUpdate } =
     useRealTimeAnalytics(shortCode)
+  const { user, loading: authLoading } = useAuth()
+  const { loading: workspacesLoading, getWorkspaceRole } = useWorkspace()
+  const { toast } = useToast()
+  // Fields changed from this page, shown until the page is reloaded
+  const [linkChanges, setLinkChanges] = useState<Partial<UrlData>>({})
+  const [historyVersion, setHistoryVersion] = useState(0)
+
+  const applyLinkChanges = (changes: Partial<UrlData>) => {
+    setLinkChanges((previous) => ({ ...previous, ...changes }))
+    setHistoryVersion((version) => version + 1)
+  }
+  const [savingVisibility, setSavingVisibility] = useState(false)
 
   const trackerRef = useRef<RealTimeClickTracker | null>(null)
+  const [olderClicks, setOlderClicks] = useState<ClickEvent[]>([])
+  const [olderClicksCursor, setOlderClicksCursor] = useState<any>(undefined)
+  const [loadingOlderClicks, setLoadingOlderClicks] = useState(false)
+
+  // Page through older click events that are no longer in the live feed
+  const loadOlderClicks = async () => {
+    const oldest = olderClicks[olderClicks.length - 1] || clickEvents[Math.min(clickEvents.length, 15) - 1]
+    const cursor = olderClicksCursor === undefined ? oldest?.timestamp : olderClicksCursor
+    if (!cursor) return
+
+    setLoadingOlderClicks(true)
+    try {
+      const page = await getClickEvents(shortCode, { cursor })
+      setOlderClicks((previous) => [...previous, ...page.events])
+      setOlderClicksCursor(page.cursor)
+    } finally {
+      setLoadingOlderClicks(false)
+    }
+  }
+
+  // Owner-only: let anyone with the link view these analytics
+  const updateVisibility = async (isPublic: boolean) => {
+    setSavingVisibility(true)
+    try {
+      const response = await authFetch(`/api/links/${shortCode}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isPublic }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update link")
+      }
+      applyLinkChanges({ isPublic: data.isPublic })
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to update link",
+        variant: "destructive",
+      })
+    } finally {
+      setSavingVisibility(false)
+    }
+  }
 
   // Initialize tracker for analytics page interactions
   React.useEffect(() => {
@@ -63,7 +137,7 @@ export default function AnalyticsPage({
     trackAnalyticsClick(element, coordinates)
   }
 
-  if (loading) {
+  if (loading || authLoading || workspacesLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
         <div className="flex items-center gap-2">
@@ -92,37 +166,40 @@ export default function AnalyticsPage({
     )
   }
 
-  // Process analytics for display
-  const recentClicks = analyticsData?.clickEvents?.slice(-15).reverse() || []
-  const realTimeClicks = recentClicks.filter((click) => click.clickSource === "analytics_page")
+  const linkRole = getLinkRole(urlData, user?.uid, getWorkspaceRole)
 
-  const clicksByDay =
-    analyticsData?.clickEvents?.reduce(
-      (acc, click) => {
-        if (click.timestamp && click.timestamp.toDate) {
-          const date = click.timestamp.toDate().toDateString()
-          acc[date] = (acc[date] || 0) + 1
-        }
-        return acc
-      },
-      {} as Record<string, number>,
-    ) || {}
-
-  const topReferrers =
-    analyticsData?.clickEvents
-      ?.filter((click) => click.referer && click.referer !== "")
-      .reduce(
-        (acc, click) => {
-          try {
-            const domain = new URL(click.referer!).hostname
-            acc[domain] = (acc[domain] || 0) + 1
-          } catch {
-            // Invalid URL, skip
-          }
-          return acc
-        },
-        {} as Record<string, number>,
-      ) || {}
+  if (!canViewAnalytics(urlData, linkRole)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <Card className="max-w-md w-full mx-4">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl">Analytics Are Private</CardTitle>
+          </CardHeader>
+          <CardContent className="text-center">
+            <p className="text-gray-600 mb-4">
+              Only members of the workspace that owns this link can view its analytics.
+              {!user && " If this is your link, sign in to continue."}
+            </p>
+            <Link href={user ? "/" : "/login"}>
+              <Button>{user ? "Go to Homepage" : "Sign in"}</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const canEdit = canEditLink(linkRole)
+  const link = { ...urlData, ...linkChanges }
+  const isPublic = link.isPublic === true
+  const expiresAt: Date | null = link.expiresAt?.toDate?.() || null
+  const activatesAt: Date | null = link.activatesAt?.toDate?.() || null
+  const deletedAt: Date | null = link.deletedAt?.toDate?.() || null
+
+  // Process analytics for display (click events arrive newest first)
+  const recentClicks = clickEvents.slice(0, 15)
+  const realTimeClicks = recentClicks.filter((click) => click.clickSource === "analytics_page")
+  const hasMoreClicks = olderClicksCursor !== null && clickEvents.length >= 15
 
   const shortUrl = `${window.location.origin}/${shortCode}`
 
@@ -177,6 +254,22 @@ export default function AnalyticsPage({
             </CardContent>
           </Card>
 
+          {deletedAt && (
+            <Card className="mb-6 border-l-4 border-l-red-500 bg-red-50">
+              <CardContent className="py-3 flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm font-medium text-red-700">
+                  This link is in the trash and answers 410 Gone. It will be permanently deleted on{" "}
+                  {getPurgeDate(deletedAt).toLocaleDateString()}.
+                </span>
+                <Link href="/links/trash">
+                  <Button size="sm" variant="outline" className="bg-transparent">
+                    Open trash
+                  </Button>
+                </Link>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Header */}
           <div className="flex items-center gap-4 mb-8">
             <Link href="/">
@@ -238,6 +331,16 @@ export default function AnalyticsPage({
             </CardContent>
           </Card>
 
+          {(link.trackConversions || !!analyticsData?.totalConversions) && (
+            <ConversionStats
+              totalClicks={clickCount}
+              totalConversions={analyticsData?.totalConversions}
+              conversionValue={analyticsData?.conversionValue}
+              goals={analyticsData?.goals}
+              trackingEnabled={link.trackConversions === true}
+            />
+          )}
+
           {/* URL Info */}
           <Card className="mb-8">
             <CardHeader>
@@ -266,17 +369,87 @@ export default function AnalyticsPage({
               </div>
               <div>
                 <label className="text-sm font-medium text-gray-700">Original URL:</label>
-                <p className="text-sm text-gray-600 mt-1 break-all">{urlData.originalUrl}</p>
+                <p className="text-sm text-gray-600 mt-1 break-all">{link.originalUrl}</p>
               </div>
-              <div className="flex items-center gap-4 text-sm text-gray-600">
+              <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
                 <div className="flex items-center gap-1">
                   <Calendar className="h-4 w-4" />
-                  Created {urlData.createdAt?.toDate?.()?.toLocaleDateString() || "Unknown"}
+                  Created {link.createdAt?.toDate?.()?.toLocaleDateString() || "Unknown"}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Clock className="h-4 w-4" />
+                  {expiresAt
+                    ? `${expiresAt < new Date() ? "Expired" : "Expires"} ${expiresAt.toLocaleString()}`
+                    : "Never expires"}
                 </div>
+                {link.maxClicks ? (
+                  <div className="flex items-center gap-1">
+                    <MousePointer className="h-4 w-4" />
+                    Expires after {link.maxClicks.toLocaleString()} clicks
+                  </div>
+                ) : null}
+                {isPasswordProtected(link) ? (
+                  <div className="flex items-center gap-1">
+                    <Lock className="h-4 w-4" />
+                    Password protected · {analyticsData?.passwordUnlocks || 0} unlocks,{" "}
+                    {analyticsData?.passwordFailures || 0} failed attempts
+                  </div>
+                ) : null}
+                {activatesAt && activatesAt > new Date() ? (
+                  <div className="flex items-center gap-1">
+                    <Clock className="h-4 w-4" />
+                    Goes live {activatesAt.toLocaleString()}
+                  </div>
+                ) : null}
+                {link.schedule ? (
+                  <div className="flex items-center gap-1">
+                    <Calendar className="h-4 w-4" />
+                    Available {describeSchedule(link.schedule)}
+                  </div>
+                ) : null}
+                <span
+                  className={`text-xs px-2 py-1 rounded ${
+                    link.isActive ? "bg-green-100 text-green-700" : "bg-gray-200 text-gray-700"
+                  }`}
+                >
+                  {link.isActive ? "Active" : "Inactive"}
+                </span>
+                {canEdit && !deletedAt && (
+                  <>
+                    <EditLinkDialog urlData={link} onSaved={applyLinkChanges} />
+                    <TargetingRulesDialog urlData={link} onSaved={applyLinkChanges} />
+                    <VariantsDialog urlData={link} onSaved={applyLinkChanges} />
+                  </>
+                )}
               </div>
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="public-analytics"
+                    checked={isPublic}
+                    disabled={savingVisibility}
+                    onCheckedChange={updateVisibility}
+                  />
+                  <label htmlFor="public-analytics" className="text-sm text-gray-700">
+                    Anyone with the link can view analytics
+                    {isPublic && isPasswordProtected(link) ? " (not while it is password protected)" : ""}
+                  </label>
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          {hasRole(linkRole, "viewer") && (
+            <div className="mb-8">
+              <LinkHistory
+                shortCode={shortCode}
+                canRestore={canEdit && !deletedAt}
+                refreshKey={historyVersion}
+                onRestored={(changes) => setLinkChanges((previous) => ({ ...previous, ...changes }))}
+              />
+            </div>
+          )}
+
           <div className="grid md:grid-cols-2 gap-6">
             {/* Real-time Clicks Feed */}
             <Card>
@@ -319,7 +492,10 @@ export default function AnalyticsPage({
                             {click.clickSource === "analytics_page" && (
                               <span className="text-blue-600 text-xs bg-blue-100 px-2 py-1 rounded">Analytics</span>
                             )}
-                            {click.clickSource === "direct" && (
+                            {click.clickSource === "direct" && click.qrScan && (
+                              <span className="text-purple-600 text-xs bg-purple-100 px-2 py-1 rounded">QR Scan</span>
+                            )}
+                            {click.clickSource === "direct" && !click.qrScan && (
                               <span className="text-green-600 text-xs bg-green-100 px-2 py-1 rounded">URL Click</span>
                             )}
                           </div>
@@ -342,6 +518,25 @@ export default function AnalyticsPage({
                         )}
                       </div>
                     ))}
+                    {olderClicks.map((click, index) => (
+                      <div key={click.id || `older-${index}`} className="p-3 rounded-lg bg-gray-50">
+                        <div className="text-sm font-medium">
+                          {click.timestamp?.toDate?.()?.toLocaleString() || "Unknown time"}
+                        </div>
+                        {click.referer && <div className="text-xs text-gray-600 mt-1">From: {click.referer}</div>}
+                      </div>
+                    ))}
+                    {hasMoreClicks && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        disabled={loadingOlderClicks}
+                        onClick={loadOlderClicks}
+                      >
+                        {loadingOlderClicks ? <Loader2 className="h-4 w-4 animate-spin" /> : "Load older clicks"}
+                      </Button>
+                    )}
                   </div>
                 )}
               </CardContent>
@@ -431,31 +626,12 @@ export default function AnalyticsPage({
             </CardContent>
           </Card>
 
-          {/* Clicks by Day */}
-          {Object.keys(clicksByDay).length > 0 && (
-            <Card className="mt-6">
-              <CardHeader>
-                <CardTitle>Clicks by Day</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  {Object.entries(clicksByDay)
-                    .sort(([a], [b]) => new Date(b).getTime() - new Date(a).getTime())
-                    .slice(0, 7)
-                    .map(([date, count]) => (
-                      <div
-                        key={date}
-                        className="flex justify-between items-center p-2 bg-gray-50 rounded cursor-pointer hover:bg-gray-100"
-                        onClick={handleElementClick(`day-${date}`)}
-                      >
-                        <span className="text-sm font-medium">{date}</span>
-                        <span className="text-sm text-gray-600">{count} clicks</span>
-                      </div>
-                    ))}
-                </div>
-              </CardContent>
-            </Card>
-          )}
+          {/* Clicks over time (served from hourly/daily rollups) */}
+          <ClickTrends
+            shortCode={shortCode}
+            targetingRules={link.targetingRules || []}
+            variants={link.variants || []}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,74 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireBackupAccess } from "@/lib/server-auth"
+import { BackupError, exportBackup, readLines, restoreBackup, RESTORE_MODES, type RestoreMode } from "@/lib/backup"
+
+export const dynamic = "force-dynamic"
+
+// Download a backup of all links and analytics as NDJSON (see backup.ts)
+export async function GET(request: NextRequest) {
+  try {
+    await requireBackupAccess(request)
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Backup export failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+
+  const lines = exportBackup()
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await lines.next()
+        if (done) controller.close()
+        else controller.enqueue(encoder.encode(value))
+      } catch (error) {
+        // The archive has no footer, so a restore will report it as incomplete
+        console.error("❌ Backup export failed:", error)
+        controller.error(error)
+      }
+    },
+  })
+
+  const fileName = `shortlink-backup-${new Date().toISOString().slice(0, 10)}.ndjson`
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "no-store",
+    },
+  })
+}
+
+// Restore a backup archive sent as the request body.
+// Query: ?mode=merge|overwrite (default merge) &dryRun=true
+export async function POST(request: NextRequest) {
+  try {
+    await requireBackupAccess(request)
+
+    const mode = request.nextUrl.searchParams.get("mode") || "merge"
+    if (!RESTORE_MODES.includes(mode as RestoreMode)) {
+      return NextResponse.json({ error: `mode must be one of: ${RESTORE_MODES.join(", ")}` }, { status: 400 })
+    }
+    if (!request.body) {
+      return NextResponse.json({ error: "Send the backup archive as the request body" }, { status: 400 })
+    }
+
+    const result = await restoreBackup(readLines(request.body), {
+      mode: mode as RestoreMode,
+      dryRun: request.nextUrl.searchParams.get("dryRun") === "true",
+    })
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof BackupError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("❌ Backup restore failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireProjectAdmin } from "@/lib/server-auth"
+import {
+  fixAnalyticsClickCounts,
+  migrateClickEventsToSubcollection,
+  migrateToCleanArchitecture,
+} from "@/lib/analytics-clean"
+import { backfillRollups } from "@/lib/rollups"
+import { migrateLinkPasswords } from "@/lib/link-service"
+import { MAINTENANCE_TASKS, type MaintenanceTask } from "@/lib/maintenance"
+import type { LinkActor } from "@/lib/link-history"
+
+export const dynamic = "force-dynamic"
+
+const TASKS: Record<MaintenanceTask, (actor: LinkActor) => Promise<unknown>> = {
+  "migrate-clicks": () => migrateClickEventsToSubcollection(),
+  "backfill-rollups": () => backfillRollups(),
+  "fix-analytics": () => fixAnalyticsClickCounts(),
+  "migrate-clean": async (actor) => {
+    await migrateToCleanArchitecture(actor)
+    return { completed: true }
+  },
+  "migrate-passwords": (actor) => migrateLinkPasswords(actor),
+}
+
+// Run a maintenance job with the server session
+export async function POST(request: NextRequest, { params }: { params: { task: string } }) {
+  const task = params.task as MaintenanceTask
+  if (!MAINTENANCE_TASKS.includes(task)) {
+    return NextResponse.json({ error: "Unknown maintenance job" }, { status: 404 })
+  }
+
+  try {
+    const user = await requireProjectAdmin(request)
+    console.log(`🛠️ ${user.email} started maintenance job ${task}`)
+
+    const result = await TASKS[task]({ uid: user.uid, email: user.email || null, via: "migration" })
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error(`❌ Maintenance job ${task} failed:`, error)
+    return NextResponse.json({ error: "The job failed - check the server logs" }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { checkAliasAvailability } from "@/lib/short-codes"
+import { AccessError, ensureServerSession, requireUser } from "@/lib/server-auth"
+
+export async function GET(request: NextRequest, { params }: { params: { alias: string } }) {
+  const { alias } = params
+
+  try {
+    await requireUser(request)
+    await ensureServerSession()
+
+    const { available, reason } = await checkAliasAvailability(alias)
+    return NextResponse.json({ alias, available, reason })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Alias availability check failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
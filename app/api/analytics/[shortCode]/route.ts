@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { Redis } from "@upstash/redis"
+import { AccessError, requireLinkAccess } from "@/lib/server-auth"
 
 const redis = new Redis({
   url: process.env.KV_REST_API_URL!,
@@ -28,6 +29,8 @@ export async function GET(request: NextRequest, { params }: { params: { shortCod
   const { shortCode } = params
 
   try {
+    await requireLinkAccess(request, shortCode, "viewer")
+
     // Get URL data
     const urlDataRaw = await redis.get(shortCode)
     if (!urlDataRaw) {
@@ -64,6 +67,9 @@ export async function GET(request: NextRequest, { params }: { params: { shortCod
       analyticsData,
     })
   } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error loading analytics:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
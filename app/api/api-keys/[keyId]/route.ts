@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, ensureServerSession, requireUser } from "@/lib/server-auth"
+import { getApiKey, revokeApiKey } from "@/lib/api-keys"
+import { getMemberRole, hasRole } from "@/lib/workspaces"
+
+// Revoke a key - its creator, or an admin of the workspace a workspace key belongs to
+export async function DELETE(request: NextRequest, { params }: { params: { keyId: string } }) {
+  const { keyId } = params
+
+  try {
+    const user = await requireUser(request)
+    await ensureServerSession()
+
+    const apiKey = await getApiKey(keyId)
+    if (!apiKey) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 })
+    }
+
+    const isCreator = apiKey.userId === user.uid
+    const isWorkspaceAdmin =
+      apiKey.type === "workspace" && hasRole(await getMemberRole(apiKey.workspaceId, user.uid), "admin")
+
+    if (!isCreator && !isWorkspaceAdmin) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 })
+    }
+
+    if (!apiKey.revokedAt) {
+      await revokeApiKey(keyId)
+    }
+
+    return NextResponse.json({ id: keyId, revoked: true })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Revoking API key failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, ensureServerSession, requireUser, requireWorkspaceRole } from "@/lib/server-auth"
+import { createApiKey, isApiKeyScope, listApiKeys, type ApiKey } from "@/lib/api-keys"
+import { ensurePersonalWorkspace, getUserWorkspaces, hasRole } from "@/lib/workspaces"
+
+const API_KEY_NAME_MAX_LENGTH = 60
+
+// What the settings page sees - never the hash
+function toSummary(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    type: apiKey.type,
+    userId: apiKey.userId,
+    workspaceId: apiKey.workspaceId,
+    scopes: apiKey.scopes,
+    hint: apiKey.hint,
+    createdAt: apiKey.createdAt?.toDate?.()?.toISOString() || null,
+    lastUsedAt: apiKey.lastUsedAt?.toDate?.()?.toISOString() || null,
+    revokedAt: apiKey.revokedAt?.toDate?.()?.toISOString() || null,
+  }
+}
+
+// The signed-in user's keys, plus workspace keys for workspaces they administer. Their personal workspace is
+// created first, as the workspaces list does, so someone who hasn't opened it yet still sees their keys.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request)
+    await ensureServerSession()
+    await ensurePersonalWorkspace(user)
+
+    const administered = (await getUserWorkspaces(user.uid))
+      .filter((workspace) => hasRole(workspace.role, "admin"))
+      .map((workspace) => workspace.id)
+
+    const apiKeys = await listApiKeys(user.uid, administered)
+    return NextResponse.json({ apiKeys: apiKeys.map(toSummary) })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Listing API keys failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Create a key. The full key is only ever returned by this response.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request)
+    const { name, type = "user", workspaceId = user.uid, scopes } = await request.json()
+
+    if (typeof name !== "string" || !name.trim() || name.trim().length > API_KEY_NAME_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Name must be between 1 and ${API_KEY_NAME_MAX_LENGTH} characters` },
+        { status: 400 },
+      )
+    }
+
+    if (type !== "user" && type !== "workspace") {
+      return NextResponse.json({ error: "type must be user or workspace" }, { status: 400 })
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      return NextResponse.json({ error: "Choose at least one valid scope" }, { status: 400 })
+    }
+
+    if (typeof workspaceId !== "string") {
+      return NextResponse.json({ error: "workspaceId must be a string" }, { status: 400 })
+    }
+
+    // Workspace keys outlive their creator, so only admins may mint them
+    await requireWorkspaceRole(request, workspaceId, type === "workspace" ? "admin" : "viewer")
+
+    const { apiKey, secret } = await createApiKey({
+      name: name.trim(),
+      type,
+      userId: user.uid,
+      workspaceId,
+      scopes: Array.from(new Set(scopes)),
+    })
+
+    return NextResponse.json({ ...toSummary(apiKey), createdAt: new Date().toISOString(), key: secret })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Creating API key failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,131 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { recordConversion } from "@/lib/analytics-clean"
+import {
+  CLICK_ID_PARAM,
+  DEFAULT_CONVERSION_GOAL,
+  parseClickId,
+  validateConversionGoal,
+  validateConversionValue,
+} from "@/lib/conversions"
+import { ensureServerSession } from "@/lib/server-auth"
+import { checkRateLimit, getClientIp, RATE_LIMITS, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit"
+
+export const dynamic = "force-dynamic"
+
+// Landing pages on any domain report conversions here
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+}
+
+// 1x1 transparent GIF
+const PIXEL = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64")
+
+// The click is written just after the redirect is sent, so a fast landing page can report first
+const UNKNOWN_CLICK_RETRY_MS = 1500
+
+type ConversionResult =
+  | { status: 200; outcome: "recorded" | "duplicate" }
+  | { status: 400 | 404; error: string }
+
+async function handleConversion(input: { clickId: unknown; goal: unknown; value: unknown }): Promise<ConversionResult> {
+  const click = parseClickId(input.clickId)
+  if (!click) {
+    return { status: 400, error: `A valid click ID (${CLICK_ID_PARAM}) is required` }
+  }
+
+  const goal = input.goal ?? DEFAULT_CONVERSION_GOAL
+  const goalError = validateConversionGoal(goal)
+  if (goalError) {
+    return { status: 400, error: goalError }
+  }
+  const valueError = input.value === undefined ? null : validateConversionValue(input.value)
+  if (valueError) {
+    return { status: 400, error: valueError }
+  }
+
+  await ensureServerSession()
+  const value = input.value as number | undefined
+  let outcome = await recordConversion(click.shortCode, click.clickDocId, goal as string, value)
+  if (outcome === "unknown_click") {
+    await new Promise((resolve) => setTimeout(resolve, UNKNOWN_CLICK_RETRY_MS))
+    outcome = await recordConversion(click.shortCode, click.clickDocId, goal as string, value)
+  }
+
+  if (outcome === "unknown_click") {
+    return { status: 404, error: "Click not found" }
+  }
+  return { status: 200, outcome }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS })
+}
+
+// Image pixel: <img src="/api/conversions?sl_cid=...&goal=signup&value=25">
+// Always answers with the pixel so a failed report never shows a broken image.
+export async function GET(request: NextRequest) {
+  const pixelResponse = () =>
+    new NextResponse(PIXEL, {
+      headers: { ...CORS_HEADERS, "Content-Type": "image/gif", "Cache-Control": "private, no-store" },
+    })
+
+  try {
+    const rateLimit = await checkRateLimit(RATE_LIMITS.conversion, [`ip:${getClientIp(request)}`])
+    if (!rateLimit.success) {
+      console.log("⏳ Conversion pixel rate limited")
+      return pixelResponse()
+    }
+
+    const { searchParams } = request.nextUrl
+    const rawValue = searchParams.get("value")
+    const result = await handleConversion({
+      clickId: searchParams.get(CLICK_ID_PARAM),
+      goal: searchParams.get("goal") || undefined,
+      value: rawValue ? Number(rawValue) : undefined,
+    })
+    if (result.status !== 200) {
+      console.log(`⚠️ Conversion pixel ignored: ${result.error}`)
+    }
+  } catch (error) {
+    console.error("❌ Conversion pixel error:", error)
+  }
+  return pixelResponse()
+}
+
+// JSON: POST { "clickId": "...", "goal": "signup", "value": 25 }
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(RATE_LIMITS.conversion, [`ip:${getClientIp(request)}`])
+    if (!rateLimit.success) {
+      const response = rateLimitResponse(rateLimit)
+      Object.entries(CORS_HEADERS).forEach(([name, value]) => response.headers.set(name, value))
+      return response
+    }
+
+    let body: Record<string, unknown>
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400, headers: CORS_HEADERS })
+    }
+
+    const result = await handleConversion({
+      clickId: body?.clickId ?? body?.[CLICK_ID_PARAM],
+      goal: body?.goal,
+      value: body?.value,
+    })
+    if (result.status !== 200) {
+      return NextResponse.json({ error: result.error }, { status: result.status, headers: CORS_HEADERS })
+    }
+
+    return NextResponse.json(
+      { success: true, duplicate: result.outcome === "duplicate" },
+      { headers: { ...CORS_HEADERS, ...rateLimitHeaders(rateLimit) } },
+    )
+  } catch (error) {
+    console.error("❌ Conversion error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500, headers: CORS_HEADERS })
+  }
+}
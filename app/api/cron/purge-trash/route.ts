@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ensureServerSession } from "@/lib/server-auth"
+import { purgeExpiredTrash } from "@/lib/link-service"
+import { LINK_TRASH_RETENTION_DAYS } from "@/lib/links"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 60
+
+// Stop starting new purges with some of maxDuration left; the next run picks up the rest
+const PURGE_TIME_BUDGET_MS = 45_000
+
+// Scheduled hourly (see vercel.json): permanently delete links that have been in the trash
+// for LINK_TRASH_RETENTION_DAYS. Vercel Cron sends "Authorization: Bearer <CRON_SECRET>".
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    await ensureServerSession()
+    const { purged, done } = await purgeExpiredTrash(PURGE_TIME_BUDGET_MS)
+
+    const status = done ? "complete" : "paused until the next run"
+    console.log(`🧹 Trash purge ${status}: ${purged.length} links older than ${LINK_TRASH_RETENTION_DAYS} days`)
+    return NextResponse.json({ purged, done })
+  } catch (error) {
+    console.error("❌ Trash purge failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { Redis } from "@upstash/redis"
+import { AccessError, requireLinkAccess } from "@/lib/server-auth"
 
 const redis = new Redis({
   url: process.env.KV_REST_API_URL!,
@@ -10,6 +11,8 @@ export async function GET(request: NextRequest, { params }: { params: { shortCod
   const { shortCode } = params
 
   try {
+    await requireLinkAccess(request, shortCode, "admin")
+
     console.log(`Debug: Looking up short code: ${shortCode}`)
 
     // Test Redis connection
@@ -40,6 +43,9 @@ export async function GET(request: NextRequest, { params }: { params: { shortCod
       },
     })
   } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Debug error:", error)
     return NextResponse.json(
       {
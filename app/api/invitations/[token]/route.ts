@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, ensureServerSession, requireUser } from "@/lib/server-auth"
+import { acceptInvitation, getInvitation } from "@/lib/workspaces"
+
+// Invitation details for the accept page
+export async function GET(request: NextRequest, { params }: { params: { token: string } }) {
+  const { token } = params
+
+  try {
+    await ensureServerSession()
+    const invitation = await getInvitation(token)
+    if (!invitation) {
+      return NextResponse.json({ error: "This invitation is no longer valid" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      workspaceName: invitation.workspaceName,
+      email: invitation.email,
+      role: invitation.role,
+    })
+  } catch (error) {
+    console.error("❌ Loading invitation failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Accept an invitation - the signed-in user's email must match the invited address and be verified
+export async function POST(request: NextRequest, { params }: { params: { token: string } }) {
+  const { token } = params
+
+  try {
+    const user = await requireUser(request)
+    await ensureServerSession()
+
+    const invitation = await getInvitation(token)
+    if (!invitation) {
+      return NextResponse.json({ error: "This invitation is no longer valid" }, { status: 404 })
+    }
+
+    if (!user.email || user.email.toLowerCase() !== invitation.email) {
+      return NextResponse.json(
+        { error: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.` },
+        { status: 403 },
+      )
+    }
+    if (!user.emailVerified) {
+      return NextResponse.json(
+        { error: `Verify ${invitation.email} with your sign-in provider before accepting this invitation.` },
+        { status: 403 },
+      )
+    }
+
+    await acceptInvitation(invitation, user)
+    console.log(`✅ ${user.uid} joined workspace ${invitation.workspaceId} as ${invitation.role}`)
+
+    return NextResponse.json({ workspaceId: invitation.workspaceId, role: invitation.role })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Accepting invitation failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
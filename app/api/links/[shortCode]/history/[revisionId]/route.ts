@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireLinkAccess } from "@/lib/server-auth"
+import { LinkError, restoreLinkRevision } from "@/lib/link-service"
+import { serializeLink } from "@/lib/api-v1"
+
+// Restore the link to this revision - editors and above
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { shortCode: string; revisionId: string } },
+) {
+  const { shortCode, revisionId } = params
+
+  try {
+    const { user } = await requireLinkAccess(request, shortCode, "editor")
+
+    const restored = await restoreLinkRevision(shortCode, revisionId, {
+      uid: user!.uid,
+      email: user!.email,
+      via: "web",
+    })
+
+    return NextResponse.json(serializeLink(restored, request.nextUrl.origin))
+  } catch (error) {
+    if (error instanceof AccessError || error instanceof LinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Restoring link revision failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireLinkAccess } from "@/lib/server-auth"
+import { getLinkHistory, serializeRevision } from "@/lib/link-history"
+
+// A link's revisions, newest first - workspace members only (public analytics don't include history)
+export async function GET(request: NextRequest, { params }: { params: { shortCode: string } }) {
+  const { shortCode } = params
+
+  try {
+    const { role } = await requireLinkAccess(request, shortCode, "viewer")
+    if (!role) {
+      throw new AccessError(404, "Short code not found")
+    }
+
+    const revisions = await getLinkHistory(shortCode)
+    return NextResponse.json({ revisions: revisions.map(serializeRevision) })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Loading link history failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireLinkAccess } from "@/lib/server-auth"
+import { LinkError, untrashLink } from "@/lib/link-service"
+import { serializeLink } from "@/lib/api-v1"
+
+// Restore a link from the trash - editors and above, within the retention window
+export async function POST(request: NextRequest, { params }: { params: { shortCode: string } }) {
+  const { shortCode } = params
+
+  try {
+    const { user } = await requireLinkAccess(request, shortCode, "editor")
+
+    const restored = await untrashLink(shortCode, { uid: user!.uid, email: user!.email, via: "web" })
+    return NextResponse.json(serializeLink(restored, request.nextUrl.origin))
+  } catch (error) {
+    if (error instanceof AccessError || error instanceof LinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Link restore failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
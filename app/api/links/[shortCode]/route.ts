@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireLinkAccess } from "@/lib/server-auth"
+import { LinkError, trashLink, updateLink } from "@/lib/link-service"
+import { getPurgeDate } from "@/lib/links"
+import { serializeLink } from "@/lib/api-v1"
+
+// Update a link's destination, expiry, status or visibility - editors and above in the link's workspace
+export async function PATCH(request: NextRequest, { params }: { params: { shortCode: string } }) {
+  const { shortCode } = params
+
+  try {
+    const { user } = await requireLinkAccess(request, shortCode, "editor")
+
+    // Same validation as creation; changes apply to the next redirect
+    const changes = await request.json()
+    const updated = await updateLink(
+      shortCode,
+      {
+        originalUrl: changes.originalUrl,
+        expiresAt: changes.expiresAt,
+        isActive: changes.isActive,
+        isPublic: changes.isPublic,
+        redirectType: changes.redirectType,
+        maxClicks: changes.maxClicks,
+        expiredRedirectUrl: changes.expiredRedirectUrl,
+        expiredMessage: changes.expiredMessage,
+        password: changes.password,
+        activatesAt: changes.activatesAt,
+        showCountdown: changes.showCountdown,
+        schedule: changes.schedule,
+        targetingRules: changes.targetingRules,
+        variants: changes.variants,
+        trackConversions: changes.trackConversions,
+        utmParams: changes.utmParams,
+        queryPassthrough: changes.queryPassthrough,
+        wildcard: changes.wildcard,
+        tags: changes.tags,
+      },
+      { uid: user!.uid, email: user!.email, via: "web" },
+    )
+
+    return NextResponse.json(serializeLink(updated, request.nextUrl.origin))
+  } catch (error) {
+    if (error instanceof AccessError || error instanceof LinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+    }
+    console.error("❌ Link update failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Move a link to the trash - editors and above. It can be restored until the scheduled purge.
+export async function DELETE(request: NextRequest, { params }: { params: { shortCode: string } }) {
+  const { shortCode } = params
+
+  try {
+    const { user } = await requireLinkAccess(request, shortCode, "editor")
+
+    const trashed = await trashLink(shortCode, { uid: user!.uid, email: user!.email, via: "web" })
+    const deletedAt = trashed.deletedAt.toDate()
+
+    return NextResponse.json({
+      shortCode,
+      deletedAt: deletedAt.toISOString(),
+      purgeAt: getPurgeDate(deletedAt).toISOString(),
+    })
+  } catch (error) {
+    if (error instanceof AccessError || error instanceof LinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Link delete failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
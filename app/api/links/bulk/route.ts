@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireWorkspaceRole } from "@/lib/server-auth"
+import { createLinks, LinkError } from "@/lib/link-service"
+import { BULK_MAX_LINKS } from "@/lib/links"
+import { serializeBulkResults } from "@/lib/api-v1"
+import { checkRateLimit, RATE_LIMITS, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit"
+
+// Create many links at once from the bulk upload page - editors and above.
+// Body: { workspaceId, links: [{ url, alias?, tags?, expiresAt? }, ...] }
+export async function POST(request: NextRequest) {
+  try {
+    const { workspaceId, links } = await request.json()
+
+    if (typeof workspaceId !== "string" || !workspaceId) {
+      return NextResponse.json({ error: "workspaceId is required" }, { status: 400 })
+    }
+    if (!Array.isArray(links) || links.length === 0 || links.length > BULK_MAX_LINKS) {
+      return NextResponse.json({ error: `links must be a list of 1 to ${BULK_MAX_LINKS} rows` }, { status: 400 })
+    }
+
+    const { user } = await requireWorkspaceRole(request, workspaceId, "editor")
+
+    const rateLimit = await checkRateLimit(RATE_LIMITS.bulkCreate, [`user:${user.uid}`])
+    if (!rateLimit.success) {
+      return rateLimitResponse(rateLimit)
+    }
+
+    const results = await createLinks(links, {
+      workspaceId,
+      ownerId: user.uid,
+      actor: { uid: user.uid, email: user.email, via: "web" },
+    })
+    const body = serializeBulkResults(results, request.nextUrl.origin)
+    console.log(`📦 Bulk upload to ${workspaceId}: ${body.created} created, ${body.failed} failed`)
+
+    return NextResponse.json(body, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    if (error instanceof AccessError || error instanceof LinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+    }
+    console.error("❌ Bulk link creation failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
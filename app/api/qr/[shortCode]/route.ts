@@ -0,0 +1,62 @@
+import { type NextRequest, NextResponse } from "next/server"
+import sharp from "sharp"
+import { doc, getDoc } from "firebase/firestore"
+import { db } from "@/lib/firebase"
+import { ensureServerSession } from "@/lib/server-auth"
+import { getQrScanUrl, parseQrOptions, renderQrSvg } from "@/lib/qr"
+import { fetchQrLogo } from "@/lib/qr-logo"
+import { checkRateLimit, getClientIp, RATE_LIMITS, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit"
+
+// Images only change when the options do, so browsers and CDNs may keep them for a day
+const QR_CACHE_MAX_AGE = 86400 // seconds
+
+// QR code for a short link as SVG or PNG. Public, like the short URL it encodes.
+// Query: format=svg|png, size, margin, level=L|M|Q|H, fg, bg, logo=<https URL>, download=1
+export async function GET(request: NextRequest, { params }: { params: { shortCode: string } }) {
+  const { shortCode } = params
+
+  try {
+    const rateLimit = await checkRateLimit(RATE_LIMITS.qr, [`ip:${getClientIp(request)}`])
+    if (!rateLimit.success) {
+      return rateLimitResponse(rateLimit)
+    }
+
+    const options = parseQrOptions(request.nextUrl.searchParams)
+    if (typeof options === "string") {
+      return NextResponse.json({ error: options }, { status: 400 })
+    }
+
+    // Don't hand out codes for links that don't exist or are in the trash
+    await ensureServerSession()
+    const urlSnap = await getDoc(doc(db, "urls", shortCode))
+    if (!urlSnap.exists() || urlSnap.data().deletedAt) {
+      return NextResponse.json({ error: "Short code not found" }, { status: 404 })
+    }
+
+    let logo: string | undefined
+    if (options.logo) {
+      try {
+        logo = await fetchQrLogo(options.logo)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "The logo could not be downloaded"
+        return NextResponse.json({ error: message }, { status: 400 })
+      }
+    }
+
+    const svg = renderQrSvg(getQrScanUrl(`${request.nextUrl.origin}/${shortCode}`), options, logo)
+    const body = options.format === "png" ? await sharp(Buffer.from(svg)).png().toBuffer() : svg
+
+    const headers = new Headers(rateLimitHeaders(rateLimit))
+    headers.set("Content-Type", options.format === "png" ? "image/png" : "image/svg+xml")
+    headers.set("Cache-Control", `public, max-age=${QR_CACHE_MAX_AGE}`)
+    if (request.nextUrl.searchParams.get("download") === "1") {
+      headers.set("Content-Disposition", `attachment; filename="${shortCode}-qr.${options.format}"`)
+    }
+
+    console.log(`🔳 QR code (${options.format}, ${options.size}px) for: ${shortCode}`)
+    return new Response(body, { headers })
+  } catch (error) {
+    console.error("❌ QR code generation failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authenticateApiKey, handleApiError, requireLink } from "@/lib/api-v1"
+import { AnalyticsQuerySchema } from "@/lib/api-schemas"
+import { getAnalyticsData, getClickCount } from "@/lib/analytics-clean"
+import { conversionRate } from "@/lib/conversions"
+import { getPeriodId, getRangeStart, getRollups, ROLLUP_RANGES, summarizeRollups } from "@/lib/rollups"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/v1/links/{shortCode}/analytics?range=30d
+export async function GET(request: NextRequest, { params }: { params: { shortCode: string } }) {
+  try {
+    const context = await authenticateApiKey(request, "analytics:read")
+    await requireLink(context, params.shortCode, "analytics:read")
+
+    const { range } = AnalyticsQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const { granularity, periods } = ROLLUP_RANGES[range]
+    const from = getRangeStart(range)
+
+    const [totalClicks, analyticsData, rollups] = await Promise.all([
+      getClickCount(params.shortCode),
+      getAnalyticsData(params.shortCode),
+      getRollups(params.shortCode, granularity, from),
+    ])
+    const totalConversions = analyticsData?.totalConversions || 0
+
+    // One entry per period, including empty ones
+    const byId = new Map(rollups.map((rollup) => [rollup.id, rollup]))
+    const series = Array.from({ length: periods }, (_, i) => {
+      const periodStart = new Date(from)
+      if (granularity === "hour") {
+        periodStart.setUTCHours(periodStart.getUTCHours() + i)
+      } else {
+        periodStart.setUTCDate(periodStart.getUTCDate() + i)
+      }
+
+      const rollup = byId.get(getPeriodId(periodStart, granularity))
+      return {
+        periodStart: periodStart.toISOString(),
+        clicks: rollup?.clicks || 0,
+        uniqueVisitors: rollup?.uniqueVisitors || 0,
+        variants: rollup?.variants || {},
+      }
+    })
+
+    return NextResponse.json({
+      shortCode: params.shortCode,
+      totalClicks,
+      conversions: {
+        total: totalConversions,
+        rate: conversionRate(totalConversions, totalClicks),
+        value: analyticsData?.conversionValue || 0,
+        goals: analyticsData?.goals || {},
+      },
+      range,
+      granularity,
+      summary: summarizeRollups(rollups),
+      series,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
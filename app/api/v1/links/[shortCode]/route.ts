@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { apiKeyActor, authenticateApiKey, handleApiError, requireLink, serializeLink } from "@/lib/api-v1"
+import { UpdateLinkBodySchema } from "@/lib/api-schemas"
+import { trashLink, updateLink } from "@/lib/link-service"
+import { getPurgeDate } from "@/lib/links"
+
+export const dynamic = "force-dynamic"
+
+type Params = { params: { shortCode: string } }
+
+// GET /api/v1/links/{shortCode}
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await authenticateApiKey(request, "links:read")
+    const link = await requireLink(context, params.shortCode, "links:read")
+
+    return NextResponse.json(serializeLink(link, request.nextUrl.origin))
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// PATCH /api/v1/links/{shortCode}
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const context = await authenticateApiKey(request, "links:write")
+    await requireLink(context, params.shortCode, "links:write")
+
+    const changes = UpdateLinkBodySchema.parse(await request.json())
+    const link = await updateLink(params.shortCode, changes, apiKeyActor(context))
+
+    console.log(`✅ API v1 link updated: ${params.shortCode} (key ${context.apiKey.id})`)
+    return NextResponse.json(serializeLink(link, request.nextUrl.origin))
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/v1/links/{shortCode} - moves the link to the trash
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const context = await authenticateApiKey(request, "links:write")
+    await requireLink(context, params.shortCode, "links:write")
+
+    const trashed = await trashLink(params.shortCode, apiKeyActor(context))
+
+    console.log(`🗑️ API v1 link deleted: ${params.shortCode} (key ${context.apiKey.id})`)
+    return NextResponse.json({
+      shortCode: params.shortCode,
+      deleted: true,
+      purgeAt: getPurgeDate(trashed.deletedAt.toDate()).toISOString(),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  apiKeyActor,
+  authenticateApiKey,
+  handleApiError,
+  requireWorkspaceAccess,
+  serializeBulkResults,
+} from "@/lib/api-v1"
+import { BulkCreateLinksBodySchema } from "@/lib/api-schemas"
+import { createLinks } from "@/lib/link-service"
+import { enforceRateLimit, RATE_LIMITS } from "@/lib/rate-limit"
+
+export const dynamic = "force-dynamic"
+
+// POST /api/v1/links/bulk - create up to BULK_MAX_LINKS links; each row succeeds or fails on its own
+export async function POST(request: NextRequest) {
+  try {
+    const context = await authenticateApiKey(request, "links:write")
+    await enforceRateLimit(RATE_LIMITS.bulkCreate, [`key:${context.apiKey.id}`, `user:${context.apiKey.userId}`])
+    const { links, workspaceId: requestedWorkspaceId } = BulkCreateLinksBodySchema.parse(await request.json())
+    const workspaceId = requestedWorkspaceId || context.apiKey.workspaceId
+
+    await requireWorkspaceAccess(context, workspaceId, "links:write")
+    const results = await createLinks(links, {
+      workspaceId,
+      ownerId: context.apiKey.userId,
+      actor: apiKeyActor(context),
+    })
+
+    const body = serializeBulkResults(results, request.nextUrl.origin)
+    console.log(`✅ API v1 bulk create (key ${context.apiKey.id}): ${body.created} created, ${body.failed} failed`)
+    return NextResponse.json(body)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
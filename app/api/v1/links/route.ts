@@ -0,0 +1,51 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { apiKeyActor, authenticateApiKey, handleApiError, requireWorkspaceAccess, serializeLink } from "@/lib/api-v1"
+import { CreateLinkBodySchema, ListLinksQuerySchema } from "@/lib/api-schemas"
+import { createLink, listWorkspaceLinks } from "@/lib/link-service"
+import { enforceRateLimit, RATE_LIMITS } from "@/lib/rate-limit"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/v1/links - list a workspace's links
+export async function GET(request: NextRequest) {
+  try {
+    const context = await authenticateApiKey(request, "links:read")
+    const { workspaceId = context.apiKey.workspaceId, limit, cursor } = ListLinksQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    )
+
+    await requireWorkspaceAccess(context, workspaceId, "links:read")
+    const page = await listWorkspaceLinks(workspaceId, { pageSize: limit, cursor })
+
+    return NextResponse.json({
+      links: page.links.map((link) => serializeLink(link, request.nextUrl.origin)),
+      nextCursor: page.nextCursor,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/v1/links - create a link
+export async function POST(request: NextRequest) {
+  try {
+    const context = await authenticateApiKey(request, "links:write")
+    // Link creation shares the /api/shorten budget, per key and per acting user
+    await enforceRateLimit(RATE_LIMITS.shorten, [`key:${context.apiKey.id}`, `user:${context.apiKey.userId}`])
+    const body = CreateLinkBodySchema.parse(await request.json())
+    const workspaceId = body.workspaceId || context.apiKey.workspaceId
+
+    await requireWorkspaceAccess(context, workspaceId, "links:write")
+    const link = await createLink({
+      ...body,
+      workspaceId,
+      ownerId: context.apiKey.userId,
+      actor: apiKeyActor(context),
+    })
+
+    console.log(`✅ API v1 link created: ${link.shortCode} (key ${context.apiKey.id})`)
+    return NextResponse.json(serializeLink(link, request.nextUrl.origin), { status: 201 })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,7 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { generateOpenApiDocument } from "@/lib/api-schemas"
+
+// OpenAPI 3 description of /api/v1, generated from the zod request/response schemas
+export async function GET(request: NextRequest) {
+  return NextResponse.json(generateOpenApiDocument(`${request.nextUrl.origin}/api/v1`))
+}
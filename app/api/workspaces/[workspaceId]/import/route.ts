@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireWorkspaceRole } from "@/lib/server-auth"
+import { IMPORT_COLLISION_MODES, importLinks, LinkError, type ImportCollisionMode } from "@/lib/link-service"
+import { IMPORT_MAX_LINKS } from "@/lib/links"
+import { IMPORT_SOURCES, type ImportSource } from "@/lib/importers"
+import { checkRateLimit, RATE_LIMITS, rateLimitHeaders, rateLimitResponse } from "@/lib/rate-limit"
+
+// Import links exported from another shortener - admins only.
+// Body: { source, links: [{ shortCode?, url, createdAt?, clicks? }, ...], dryRun?, onCollision? }
+export async function POST(request: NextRequest, { params }: { params: { workspaceId: string } }) {
+  const { workspaceId } = params
+
+  try {
+    const { user } = await requireWorkspaceRole(request, workspaceId, "admin")
+    const { source, links, dryRun = false, onCollision = "skip" } = await request.json()
+
+    if (!IMPORT_SOURCES.includes(source)) {
+      return NextResponse.json({ error: `source must be one of: ${IMPORT_SOURCES.join(", ")}` }, { status: 400 })
+    }
+    if (!Array.isArray(links) || links.length === 0 || links.length > IMPORT_MAX_LINKS) {
+      return NextResponse.json({ error: `links must be a list of 1 to ${IMPORT_MAX_LINKS} rows` }, { status: 400 })
+    }
+    if (typeof dryRun !== "boolean") {
+      return NextResponse.json({ error: "dryRun must be true or false" }, { status: 400 })
+    }
+    if (!IMPORT_COLLISION_MODES.includes(onCollision)) {
+      return NextResponse.json(
+        { error: `onCollision must be one of: ${IMPORT_COLLISION_MODES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    const rateLimit = await checkRateLimit(RATE_LIMITS.linkImport, [`user:${user.uid}`])
+    if (!rateLimit.success) {
+      return rateLimitResponse(rateLimit)
+    }
+
+    const results = await importLinks(links, {
+      workspaceId,
+      ownerId: user.uid,
+      actor: { uid: user.uid, email: user.email, via: "web" },
+      source: source as ImportSource,
+      onCollision: onCollision as ImportCollisionMode,
+      dryRun,
+    })
+    const count = (status: string) => results.filter((result) => result.status === status).length
+    const body = {
+      dryRun,
+      imported: count("imported"),
+      collisions: count("collision"),
+      failed: count("error"),
+      results,
+    }
+    console.log(
+      `📥 ${dryRun ? "Dry run of import" : "Import"} into ${workspaceId}: ` +
+        `${body.imported} imported, ${body.collisions} collisions, ${body.failed} failed`,
+    )
+
+    return NextResponse.json(body, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    if (error instanceof AccessError || error instanceof LinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 })
+    }
+    console.error("❌ Link import failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
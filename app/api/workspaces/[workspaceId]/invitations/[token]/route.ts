@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireWorkspaceRole } from "@/lib/server-auth"
+import { canManageRole, getInvitation, revokeInvitation } from "@/lib/workspaces"
+
+// Revoke a pending invitation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { workspaceId: string; token: string } },
+) {
+  const { workspaceId, token } = params
+
+  try {
+    const { role: actorRole } = await requireWorkspaceRole(request, workspaceId, "admin")
+
+    const invitation = await getInvitation(token)
+    if (!invitation || invitation.workspaceId !== workspaceId) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 })
+    }
+
+    if (!canManageRole(actorRole, invitation.role)) {
+      return NextResponse.json({ error: "Only owners can revoke owner and admin invitations" }, { status: 403 })
+    }
+
+    await revokeInvitation(token)
+    return NextResponse.json({ token, revoked: true })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Revoking invitation failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireWorkspaceRole } from "@/lib/server-auth"
+import { canManageRole, createInvitation, getWorkspace, isWorkspaceRole } from "@/lib/workspaces"
+
+function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
+}
+
+// Invite someone by email. The invitation link is returned for the admin to share.
+export async function POST(request: NextRequest, { params }: { params: { workspaceId: string } }) {
+  const { workspaceId } = params
+
+  try {
+    const { user, role: actorRole } = await requireWorkspaceRole(request, workspaceId, "admin")
+    const { email, role = "viewer" } = await request.json()
+
+    if (typeof email !== "string" || !isValidEmail(email.trim())) {
+      return NextResponse.json({ error: "A valid email is required" }, { status: 400 })
+    }
+
+    if (!isWorkspaceRole(role)) {
+      return NextResponse.json({ error: "role must be one of owner, admin, editor, viewer" }, { status: 400 })
+    }
+
+    if (!canManageRole(actorRole, role)) {
+      return NextResponse.json({ error: "Only owners can invite owners and admins" }, { status: 403 })
+    }
+
+    const workspace = await getWorkspace(workspaceId)
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 })
+    }
+
+    const invitation = await createInvitation(workspace, email, role, user.uid)
+    console.log(`✉️ Workspace ${workspaceId}: invited ${invitation.email} as ${role}`)
+
+    return NextResponse.json({
+      token: invitation.token,
+      email: invitation.email,
+      role: invitation.role,
+      inviteUrl: `${request.nextUrl.origin}/invite/${invitation.token}`,
+    })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Creating invitation failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
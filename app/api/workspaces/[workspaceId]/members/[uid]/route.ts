@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireWorkspaceRole } from "@/lib/server-auth"
+import { canManageRole, getMemberRole, isWorkspaceRole, removeMember, updateMemberRole } from "@/lib/workspaces"
+
+type Params = { params: { workspaceId: string; uid: string } }
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof AccessError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  if (error instanceof Error && error.message === "A workspace must have at least one owner") {
+    return NextResponse.json({ error: error.message }, { status: 409 })
+  }
+  console.error(`❌ ${action} failed:`, error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+// Change a member's role
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const { workspaceId, uid } = params
+
+  try {
+    const { role: actorRole } = await requireWorkspaceRole(request, workspaceId, "admin")
+    const { role } = await request.json()
+
+    if (!isWorkspaceRole(role)) {
+      return NextResponse.json({ error: "role must be one of owner, admin, editor, viewer" }, { status: 400 })
+    }
+
+    const currentRole = await getMemberRole(workspaceId, uid)
+    if (!currentRole) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 })
+    }
+
+    if (!canManageRole(actorRole, currentRole) || !canManageRole(actorRole, role)) {
+      return NextResponse.json({ error: "Only owners can manage owners and admins" }, { status: 403 })
+    }
+
+    await updateMemberRole(workspaceId, uid, role)
+    console.log(`✅ Workspace ${workspaceId}: ${uid} is now ${role}`)
+
+    return NextResponse.json({ uid, role })
+  } catch (error) {
+    return errorResponse(error, "Updating member role")
+  }
+}
+
+// Remove a member. Any member may remove themselves (leave the workspace).
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const { workspaceId, uid } = params
+
+  try {
+    const { user, role: actorRole } = await requireWorkspaceRole(request, workspaceId, "viewer")
+
+    const currentRole = await getMemberRole(workspaceId, uid)
+    if (!currentRole) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 })
+    }
+
+    if (user.uid !== uid && !canManageRole(actorRole, currentRole)) {
+      return NextResponse.json({ error: "You don't have permission to remove this member" }, { status: 403 })
+    }
+
+    await removeMember(workspaceId, uid)
+    console.log(`✅ Workspace ${workspaceId}: removed ${uid}`)
+
+    return NextResponse.json({ uid, removed: true })
+  } catch (error) {
+    return errorResponse(error, "Removing member")
+  }
+}
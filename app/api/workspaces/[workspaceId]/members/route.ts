@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireWorkspaceRole } from "@/lib/server-auth"
+import { getWorkspaceInvitations, getWorkspaceMembers, hasRole } from "@/lib/workspaces"
+
+// Members of a workspace, plus pending invitations for admins
+export async function GET(request: NextRequest, { params }: { params: { workspaceId: string } }) {
+  const { workspaceId } = params
+
+  try {
+    const { role } = await requireWorkspaceRole(request, workspaceId, "viewer")
+
+    const [members, invitations] = await Promise.all([
+      getWorkspaceMembers(workspaceId),
+      hasRole(role, "admin") ? getWorkspaceInvitations(workspaceId) : Promise.resolve([]),
+    ])
+
+    return NextResponse.json({
+      role,
+      members: members.map(({ uid, email, displayName, role, joinedAt }) => ({
+        uid,
+        email,
+        displayName,
+        role,
+        joinedAt: joinedAt?.toDate?.()?.toISOString() || null,
+      })),
+      invitations: invitations.map(({ token, email, role, createdAt }) => ({
+        token,
+        email,
+        role,
+        createdAt: createdAt?.toDate?.()?.toISOString() || null,
+      })),
+    })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Listing workspace members failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireWorkspaceRole } from "@/lib/server-auth"
+import { updateWorkspaceSettings } from "@/lib/workspaces"
+
+const MAX_DEFAULT_EXPIRY_DAYS = 3650
+
+// Update workspace settings (currently the default link expiry) - admins and owners
+export async function PATCH(request: NextRequest, { params }: { params: { workspaceId: string } }) {
+  const { workspaceId } = params
+
+  try {
+    await requireWorkspaceRole(request, workspaceId, "admin")
+    const { defaultExpiryDays } = await request.json()
+
+    if (
+      defaultExpiryDays !== null &&
+      (!Number.isInteger(defaultExpiryDays) || defaultExpiryDays < 1 || defaultExpiryDays > MAX_DEFAULT_EXPIRY_DAYS)
+    ) {
+      return NextResponse.json(
+        { error: `defaultExpiryDays must be null (never) or a whole number of days up to ${MAX_DEFAULT_EXPIRY_DAYS}` },
+        { status: 400 },
+      )
+    }
+
+    await updateWorkspaceSettings(workspaceId, { defaultExpiryDays })
+    console.log(`⚙️ Workspace ${workspaceId} default expiry set to ${defaultExpiryDays ?? "never"}`)
+
+    return NextResponse.json({ id: workspaceId, defaultExpiryDays })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Updating workspace settings failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
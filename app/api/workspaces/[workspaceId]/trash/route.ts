@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireWorkspaceRole } from "@/lib/server-auth"
+import { listTrashedLinks } from "@/lib/link-service"
+import { getPurgeDate } from "@/lib/links"
+
+// A workspace's trashed links with the date each will be purged
+export async function GET(request: NextRequest, { params }: { params: { workspaceId: string } }) {
+  const { workspaceId } = params
+
+  try {
+    await requireWorkspaceRole(request, workspaceId, "viewer")
+
+    const links = await listTrashedLinks(workspaceId)
+
+    return NextResponse.json({
+      links: links.map((link) => {
+        const deletedAt: Date = link.deletedAt.toDate()
+        return {
+          shortCode: link.shortCode,
+          originalUrl: link.originalUrl,
+          deletedBy: link.deletedBy || null,
+          deletedAt: deletedAt.toISOString(),
+          purgeAt: getPurgeDate(deletedAt).toISOString(),
+        }
+      }),
+    })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Listing trashed links failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
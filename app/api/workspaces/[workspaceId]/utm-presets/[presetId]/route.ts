@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireWorkspaceRole } from "@/lib/server-auth"
+import { deleteUtmPreset } from "@/lib/campaigns"
+
+// Delete a UTM preset - editors and above. Links created from it keep their parameters.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { workspaceId: string; presetId: string } },
+) {
+  const { workspaceId, presetId } = params
+
+  try {
+    await requireWorkspaceRole(request, workspaceId, "editor")
+    await deleteUtmPreset(workspaceId, presetId)
+    return NextResponse.json({ id: presetId, deleted: true })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Deleting UTM preset failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,76 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, requireWorkspaceRole } from "@/lib/server-auth"
+import {
+  createUtmPreset,
+  getUtmPresets,
+  MAX_UTM_PRESETS,
+  UTM_PRESET_NAME_MAX_LENGTH,
+  type UtmPreset,
+} from "@/lib/campaigns"
+import { hasUtmParams, normalizeUtmParams, validateUtmParams, type UtmParams } from "@/lib/utm"
+
+function serializePreset({ id, name, params, createdAt }: UtmPreset) {
+  return { id, name, params, createdAt: createdAt?.toDate?.()?.toISOString() || null }
+}
+
+// UTM presets shared by everyone in the workspace
+export async function GET(request: NextRequest, { params }: { params: { workspaceId: string } }) {
+  const { workspaceId } = params
+
+  try {
+    await requireWorkspaceRole(request, workspaceId, "viewer")
+    const presets = await getUtmPresets(workspaceId)
+    return NextResponse.json({ presets: presets.map(serializePreset) })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Listing UTM presets failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Save a UTM preset - editors and above
+export async function POST(request: NextRequest, { params }: { params: { workspaceId: string } }) {
+  const { workspaceId } = params
+
+  try {
+    const { user } = await requireWorkspaceRole(request, workspaceId, "editor")
+    const { name, params: utmParams } = await request.json()
+
+    if (typeof name !== "string" || !name.trim() || name.trim().length > UTM_PRESET_NAME_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `name must be between 1 and ${UTM_PRESET_NAME_MAX_LENGTH} characters` },
+        { status: 400 },
+      )
+    }
+
+    const paramsError = validateUtmParams(utmParams)
+    if (paramsError) {
+      return NextResponse.json({ error: paramsError }, { status: 400 })
+    }
+    const normalized = normalizeUtmParams(utmParams as UtmParams)
+    if (!hasUtmParams(normalized)) {
+      return NextResponse.json({ error: "A preset needs at least one UTM parameter" }, { status: 400 })
+    }
+
+    const existing = await getUtmPresets(workspaceId)
+    if (existing.length >= MAX_UTM_PRESETS) {
+      return NextResponse.json(
+        { error: `A workspace can have at most ${MAX_UTM_PRESETS} UTM presets` },
+        { status: 409 },
+      )
+    }
+
+    const preset = await createUtmPreset(workspaceId, { name: name.trim(), params: normalized, createdBy: user.uid })
+    console.log(`🏷️ Workspace ${workspaceId}: UTM preset "${preset.name}" saved`)
+
+    return NextResponse.json(serializePreset(preset))
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Saving UTM preset failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
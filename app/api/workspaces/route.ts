@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AccessError, ensureServerSession, requireUser } from "@/lib/server-auth"
+import { createWorkspace, ensurePersonalWorkspace, getUserWorkspaces } from "@/lib/workspaces"
+
+const WORKSPACE_NAME_MAX_LENGTH = 60
+
+// List the signed-in user's workspaces, creating their personal workspace on first use
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request)
+    await ensureServerSession()
+    await ensurePersonalWorkspace(user)
+
+    const workspaces = await getUserWorkspaces(user.uid)
+    return NextResponse.json({
+      workspaces: workspaces.map(({ id, name, role, personal, defaultExpiryDays }) => ({
+        id,
+        name,
+        role,
+        personal: personal === true,
+        defaultExpiryDays,
+      })),
+    })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Listing workspaces failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Create a shared workspace owned by the signed-in user
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request)
+    const { name } = await request.json()
+
+    if (typeof name !== "string" || !name.trim() || name.trim().length > WORKSPACE_NAME_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Workspace name must be between 1 and ${WORKSPACE_NAME_MAX_LENGTH} characters` },
+        { status: 400 },
+      )
+    }
+
+    await ensureServerSession()
+    const workspace = await createWorkspace(name.trim(), user)
+
+    return NextResponse.json({ id: workspace.id, name: workspace.name, role: "owner", personal: false })
+  } catch (error) {
+    if (error instanceof AccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("❌ Creating workspace failed:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, CheckCircle, BarChart3 } from "lucide-react"
+import { runMaintenanceTask } from "@/lib/maintenance"
+
+export default function BackfillRollups() {
+  const [running, setRunning] = useState(false)
+  const [result, setResult] = useState<{ links: number; clicks: number } | null>(null)
+
+  const runBackfill = async () => {
+    setRunning(true)
+
+    try {
+      // Runs on the server - browsers can't write analytics documents
+      setResult(await runMaintenanceTask("backfill-rollups"))
+    } catch (error) {
+      console.error("Backfill failed:", error)
+      alert("Backfill failed: " + (error instanceof Error ? error.message : String(error)))
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-6 w-6" />
+            Backfill Analytics Rollups
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <div className="flex items-start gap-2">
+              <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+              <div>
+                <h3 className="font-medium text-yellow-800">Rebuild Hourly and Daily Rollups</h3>
+                <p className="text-sm text-yellow-700 mt-1">
+                  New clicks update rollups as they happen. This job builds them for clicks recorded earlier:
+                </p>
+                <ul className="text-sm text-yellow-700 mt-2 space-y-1">
+                  <li>• Reads every stored click event (and any legacy `clickEvents` arrays)</li>
+                  <li>• Recomputes clicks, unique visitors, referrers, countries and devices per hour and day</li>
+                  <li>• Overwrites the rollup documents for those periods</li>
+                  <li>• Run it when traffic is low - clicks landing mid-run may be counted twice</li>
+                </ul>
+              </div>
+            </div>
+          </div>
+
+          {!result ? (
+            <Button onClick={runBackfill} disabled={running} className="w-full" size="lg">
+              {running ? "Backfilling..." : "Run Rollup Backfill"}
+            </Button>
+          ) : (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="h-5 w-5 text-green-600" />
+                <div>
+                  <h3 className="font-medium text-green-800">Backfill Complete!</h3>
+                  <p className="text-sm text-green-700 mt-1">
+                    Built rollups from {result.clicks} clicks across {result.links} links.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { RealTimeDashboard } from "@/components/real-time-dashboard"
+import { UserMenu } from "@/components/user-menu"
 import { Button } from "@/components/ui/button"
 import { ArrowLeft, BarChart3 } from "lucide-react"
 import Link from "next/link"
@@ -9,17 +10,20 @@ export default function DashboardPage() {
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-6xl mx-auto">
           {/* Header */}
-          <div className="flex items-center gap-4 mb-8">
-            <Link href="/">
-              <Button variant="outline" size="sm">
-                <ArrowLeft className="h-4 w-4 mr-2" />
-                Back to Home
-              </Button>
-            </Link>
-            <div className="flex items-center gap-2">
-              <BarChart3 className="h-6 w-6 text-blue-600" />
-              <h1 className="text-2xl font-bold text-gray-900">Real-Time Dashboard</h1>
+          <div className="flex items-center justify-between gap-4 mb-8 flex-wrap">
+            <div className="flex items-center gap-4">
+              <Link href="/">
+                <Button variant="outline" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Home
+                </Button>
+              </Link>
+              <div className="flex items-center gap-2">
+                <BarChart3 className="h-6 w-6 text-blue-600" />
+                <h1 className="text-2xl font-bold text-gray-900">Real-Time Dashboard</h1>
+              </div>
             </div>
+            <UserMenu />
           </div>
 
           {/* Real-time Dashboard */}
@@ -4,12 +4,13 @@ import { useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { CheckCircle, AlertCircle, RefreshCw } from "lucide-react"
-import { db } from "@/lib/firebase"
-import { collection, getDocs, doc, runTransaction, query } from "firebase/firestore"
+import { BackupReminder } from "@/components/backup-reminder"
+import { runMaintenanceTask } from "@/lib/maintenance"
+import type { AnalyticsFixResult } from "@/lib/analytics-clean"
 
 export default function FixAnalytics() {
   const [fixing, setFixing] = useState(false)
-  const [results, setResults] = useState<any[]>([])
+  const [results, setResults] = useState<AnalyticsFixResult[]>([])
   const [summary, setSummary] = useState<{
     total: number
     fixed: number
@@ -22,111 +23,18 @@ export default function FixAnalytics() {
     setSummary(null)
 
     try {
-      console.log("🔧 Starting comprehensive analytics fix...")
-
-      // Get all analytics documents
-      const analyticsQuery = query(collection(db, "analytics"))
-      const analyticsSnapshot = await getDocs(analyticsQuery)
-
-      // Get all URL documents for reference
-      const urlsQuery = query(collection(db, "urls"))
-      const urlsSnapshot = await getDocs(urlsQuery)
-
-      const urlsData = new Map()
-      urlsSnapshot.forEach((doc) => {
-        urlsData.set(doc.id, doc.data())
-      })
-
-      const fixResults: any[] = []
-      let totalFixed = 0
-      let totalErrors = 0
-
-      // Process each analytics document
-      for (const analyticsDoc of analyticsSnapshot.docs) {
-        const shortCode = analyticsDoc.id
-        const analyticsData = analyticsDoc.data()
-        const urlData = urlsData.get(shortCode)
-
-        const result = {
-          shortCode,
-          before: {
-            totalClicks: analyticsData.totalClicks,
-            clickEventsCount: analyticsData.clickEvents?.length || 0,
-            urlClicks: urlData?.clicks || 0,
-          },
-          after: {},
-          action: "none",
-          error: null,
-        }
-
-        try {
-          // Determine the correct click count
-          const clickEventsCount = analyticsData.clickEvents?.length || 0
-          const urlClicks = urlData?.clicks || 0
-          const currentTotalClicks = analyticsData.totalClicks || 0
-
-          // Use the higher of the two counts (URL clicks or event count)
-          const correctClickCount = Math.max(clickEventsCount, urlClicks)
-
-          if (currentTotalClicks !== correctClickCount && correctClickCount > 0) {
-            console.log(`🔧 Fixing ${shortCode}: ${currentTotalClicks} → ${correctClickCount}`)
-
-            await runTransaction(db, async (transaction) => {
-              const analyticsRef = doc(db, "analytics", shortCode)
-              const urlRef = doc(db, "urls", shortCode)
-
-              // Update analytics with correct count
-              transaction.update(analyticsRef, {
-                totalClicks: correctClickCount,
-                urlClicks: urlClicks,
-              })
-
-              // Sync URL clicks if needed
-              if (urlClicks !== correctClickCount) {
-                transaction.update(urlRef, {
-                  clicks: correctClickCount,
-                })
-              }
-            })
-
-            result.after = {
-              totalClicks: correctClickCount,
-              clickEventsCount,
-              urlClicks: correctClickCount,
-            }
-            result.action = "fixed"
-            totalFixed++
-          } else if (correctClickCount === 0) {
-            result.action = "no_clicks"
-          } else {
-            result.action = "already_correct"
-          }
-
-          result.after = {
-            totalClicks: correctClickCount,
-            clickEventsCount,
-            urlClicks: correctClickCount,
-          }
-        } catch (error) {
-          console.error(`❌ Error fixing ${shortCode}:`, error)
-          result.error = error.message
-          result.action = "error"
-          totalErrors++
-        }
-
-        fixResults.push(result)
-      }
-
-      setResults(fixResults)
-      setSummary({
-        total: analyticsSnapshot.docs.length,
-        fixed: totalFixed,
-        errors: totalErrors,
-      })
-
-      console.log(`✅ Analytics fix complete: ${totalFixed} fixed, ${totalErrors} errors`)
+      // Runs on the server - browsers can't write link or analytics documents
+      const { results, ...summary } = await runMaintenanceTask<{
+        results: AnalyticsFixResult[]
+        total: number
+        fixed: number
+        errors: number
+      }>("fix-analytics")
+      setResults(results)
+      setSummary(summary)
     } catch (error) {
       console.error("❌ Error during analytics fix:", error)
+      alert("Analytics fix failed: " + (error instanceof Error ? error.message : String(error)))
     } finally {
       setFixing(false)
     }
@@ -143,14 +51,15 @@ export default function FixAnalytics() {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
+            <BackupReminder />
             <p className="text-gray-600">
               This tool will scan all analytics documents and fix any missing or incorrect click counts by:
             </p>
             <ul className="text-sm text-gray-600 space-y-1 ml-4">
               <li>• Counting actual click events in each analytics document</li>
-              <li>• Comparing with URL document click counts</li>
-              <li>• Using the higher count as the correct value</li>
-              <li>• Synchronizing both documents</li>
+              <li>• Comparing with URL document click counts and the current total</li>
+              <li>• Using the highest count as the correct value</li>
+              <li>• Adjusting the analytics baseline so the counter shards aren&apos;t counted twice</li>
             </ul>
 
             <Button onClick={fixAnalytics} disabled={fixing} className="w-full">
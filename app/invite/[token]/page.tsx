@@ -0,0 +1,104 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Loader2 } from "lucide-react"
+import { useAuth } from "@/components/auth-provider"
+import { useWorkspace } from "@/components/workspace-provider"
+import { authFetch } from "@/lib/auth"
+import type { WorkspaceRole } from "@/lib/workspaces"
+
+interface InvitationDetails {
+  workspaceName: string
+  email: string
+  role: WorkspaceRole
+}
+
+export default function InvitePage({ params }: { params: { token: string } }) {
+  const { token } = params
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { refreshWorkspaces, setActiveWorkspaceId } = useWorkspace()
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [accepting, setAccepting] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/invitations/${token}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load invitation")
+        setInvitation(data)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load invitation"))
+      .finally(() => setLoading(false))
+  }, [token])
+
+  const acceptInvitation = async () => {
+    setAccepting(true)
+    setError(null)
+    try {
+      const response = await authFetch(`/api/invitations/${token}`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to accept invitation")
+      }
+
+      await refreshWorkspaces()
+      setActiveWorkspaceId(data.workspaceId)
+      router.push("/dashboard")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept invitation")
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+      <Card className="max-w-md w-full mx-4">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Workspace Invitation</CardTitle>
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          {loading || authLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+          ) : (
+            <>
+              {invitation && (
+                <p className="text-gray-600">
+                  You&apos;ve been invited to join <strong>{invitation.workspaceName}</strong> as{" "}
+                  <span className="capitalize">{invitation.role}</span>.
+                </p>
+              )}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              {invitation &&
+                (user ? (
+                  <Button onClick={acceptInvitation} disabled={accepting}>
+                    {accepting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Accept invitation
+                  </Button>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-500">Sign in as {invitation.email} to accept.</p>
+                    <Link href={`/login?next=/invite/${token}`}>
+                      <Button>Sign in</Button>
+                    </Link>
+                  </div>
+                ))}
+              {!invitation && (
+                <Link href="/">
+                  <Button variant="outline">Go to Homepage</Button>
+                </Link>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
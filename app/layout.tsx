@@ -3,6 +3,8 @@ import type { Metadata } from "next"
 import { Inter } from "next/font/google"
 import "./globals.css"
 import { Toaster } from "@/components/ui/toaster"
+import { AuthProvider } from "@/components/auth-provider"
+import { WorkspaceProvider } from "@/components/workspace-provider"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -20,8 +22,12 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
-        {children}
-        <Toaster />
+        <AuthProvider>
+          <WorkspaceProvider>
+            {children}
+            <Toaster />
+          </WorkspaceProvider>
+        </AuthProvider>
       </body>
     </html>
   )
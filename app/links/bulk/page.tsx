@@ -0,0 +1,270 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import Link from "next/link"
+import { UserMenu } from "@/components/user-menu"
+import { useAuth } from "@/components/auth-provider"
+import { useWorkspace } from "@/components/workspace-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, CheckCircle, Download, FileUp, Loader2, XCircle } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { authFetch } from "@/lib/auth"
+import { BULK_MAX_LINKS, canEditLink } from "@/lib/links"
+import {
+  BULK_CSV_COLUMNS,
+  bulkResultsToCsv,
+  parseBulkUpload,
+  type BulkUploadResult,
+  type BulkUploadRow,
+} from "@/lib/bulk-links"
+
+export default function BulkUploadPage() {
+  const { user, loading: authLoading } = useAuth()
+  const { activeWorkspace } = useWorkspace()
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [rows, setRows] = useState<BulkUploadRow[]>([])
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [dragging, setDragging] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [results, setResults] = useState<BulkUploadResult[] | null>(null)
+
+  const canCreate = canEditLink(activeWorkspace?.role || null)
+
+  const readFile = async (file: File) => {
+    setFileName(file.name)
+    setResults(null)
+    try {
+      const parsed = parseBulkUpload(file.name, await file.text())
+      if (parsed.length === 0) {
+        throw new Error("The file has no rows")
+      }
+      if (parsed.length > BULK_MAX_LINKS) {
+        throw new Error(`The file has ${parsed.length} rows; upload at most ${BULK_MAX_LINKS} at a time`)
+      }
+      setRows(parsed)
+      setParseError(null)
+    } catch (error) {
+      setRows([])
+      setParseError(error instanceof Error ? error.message : "The file could not be read")
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setDragging(false)
+    const file = e.dataTransfer.files[0]
+    if (file) readFile(file)
+  }
+
+  const createLinks = async () => {
+    if (!activeWorkspace || rows.length === 0) return
+
+    setUploading(true)
+    try {
+      const response = await authFetch("/api/links/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspaceId: activeWorkspace.id, links: rows }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Bulk upload failed")
+      }
+      setResults(data.results)
+      toast({
+        title: "Bulk upload finished",
+        description: `${data.created} created, ${data.failed} failed.`,
+        variant: data.failed > 0 && data.created === 0 ? "destructive" : "default",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Bulk upload failed",
+        variant: "destructive",
+      })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const downloadResults = () => {
+    if (!results) return
+    const blob = new Blob([bulkResultsToCsv(rows, results)], { type: "text/csv;charset=utf-8" })
+    const url = URL.createObjectURL(blob)
+    const anchor = document.createElement("a")
+    anchor.href = url
+    anchor.download = `bulk-results-${new Date().toISOString().slice(0, 10)}.csv`
+    anchor.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const createdCount = results?.filter((result) => result.status === "created").length || 0
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between gap-4 mb-8">
+            <div className="flex items-center gap-4">
+              <Link href="/links">
+                <Button variant="outline" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Links
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Bulk upload</h1>
+            </div>
+            <UserMenu />
+          </div>
+
+          {authLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !user ? (
+            <Card>
+              <CardHeader className="text-center">
+                <CardTitle>Sign in to upload links</CardTitle>
+              </CardHeader>
+              <CardContent className="text-center">
+                <Link href="/login?next=/links/bulk">
+                  <Button>Sign in</Button>
+                </Link>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileUp className="h-5 w-5" />
+                    Create links from a file
+                  </CardTitle>
+                  <CardDescription>
+                    CSV with a header row ({BULK_CSV_COLUMNS.join(", ")}; only url is required, tags separated by
+                    semicolons) or a JSON array of the same fields. Up to {BULK_MAX_LINKS} links per upload. An empty
+                    expiresAt uses the workspace default; &quot;never&quot; keeps the link forever.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {activeWorkspace && !canCreate && (
+                    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-700">
+                      You are a viewer in {activeWorkspace.name}. Ask an admin for the editor role to create links
+                      here.
+                    </div>
+                  )}
+
+                  <div
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => fileInputRef.current?.click()}
+                    onKeyDown={(e) => e.key === "Enter" && fileInputRef.current?.click()}
+                    onDragOver={(e) => {
+                      e.preventDefault()
+                      setDragging(true)
+                    }}
+                    onDragLeave={() => setDragging(false)}
+                    onDrop={handleDrop}
+                    className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8
+                      text-center cursor-pointer transition-colors ${
+                        dragging ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:bg-gray-50"
+                      }`}
+                  >
+                    <FileUp className="h-8 w-8 text-gray-400" />
+                    <p className="text-sm text-gray-600">
+                      {fileName ? fileName : "Drop a .csv or .json file here, or click to choose one"}
+                    </p>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".csv,.json,text/csv,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0]
+                        if (file) readFile(file)
+                        e.target.value = ""
+                      }}
+                    />
+                  </div>
+
+                  {parseError && <p className="text-sm text-red-600">{parseError}</p>}
+
+                  {rows.length > 0 && (
+                    <div className="flex items-center justify-between gap-4">
+                      <p className="text-sm text-gray-600">
+                        {rows.length} {rows.length === 1 ? "row" : "rows"} ready to create in {activeWorkspace?.name}
+                      </p>
+                      <Button onClick={createLinks} disabled={uploading || !canCreate || !!results}>
+                        {uploading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Create {rows.length} {rows.length === 1 ? "link" : "links"}
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {results && (
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                      <CardTitle>
+                        {createdCount} of {rows.length} created
+                      </CardTitle>
+                      <Button variant="outline" size="sm" onClick={downloadResults}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download CSV
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-12">Row</TableHead>
+                          <TableHead>URL</TableHead>
+                          <TableHead>Result</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {results.map((result) => (
+                          <TableRow key={result.row}>
+                            <TableCell className="text-sm text-gray-500">{result.row + 1}</TableCell>
+                            <TableCell className="max-w-xs text-sm truncate">
+                              {String(rows[result.row]?.url ?? "")}
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {result.status === "created" ? (
+                                <span className="flex items-center gap-1 text-green-700">
+                                  <CheckCircle className="h-4 w-4" />
+                                  <Link href={`/analytics/${result.link.shortCode}`} className="underline">
+                                    /{result.link.shortCode}
+                                  </Link>
+                                </span>
+                              ) : (
+                                <span className="flex items-center gap-1 text-red-600">
+                                  <XCircle className="h-4 w-4 shrink-0" />
+                                  {result.error}
+                                </span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,350 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import Link from "next/link"
+import { UserMenu } from "@/components/user-menu"
+import { useAuth } from "@/components/auth-provider"
+import { useWorkspace } from "@/components/workspace-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, ArrowLeft, CheckCircle, FileUp, Import, Loader2, XCircle } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { authFetch } from "@/lib/auth"
+import { IMPORT_MAX_LINKS } from "@/lib/links"
+import { hasRole } from "@/lib/workspaces"
+import type { ImportCollisionMode, ImportLinkResult } from "@/lib/link-service"
+import {
+  IMPORT_SOURCE_LABELS,
+  IMPORT_SOURCES,
+  parseImportFile,
+  type ImportedLink,
+  type ImportSource,
+} from "@/lib/importers"
+
+const COLLISION_MODE_LABELS: Record<ImportCollisionMode, string> = {
+  skip: "Skip links whose code is taken",
+  rename: "Give them a new short code",
+}
+
+interface ImportRun {
+  dryRun: boolean
+  results: ImportLinkResult[]
+}
+
+export default function ImportLinksPage() {
+  const { user, loading: authLoading } = useAuth()
+  const { activeWorkspace } = useWorkspace()
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [source, setSource] = useState<ImportSource>("bitly")
+  const [onCollision, setOnCollision] = useState<ImportCollisionMode>("skip")
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null)
+  const [rows, setRows] = useState<ImportedLink[]>([])
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [dragging, setDragging] = useState(false)
+  const [running, setRunning] = useState<"check" | "import" | null>(null)
+  const [progress, setProgress] = useState(0)
+  const [run, setRun] = useState<ImportRun | null>(null)
+
+  const canImport = hasRole(activeWorkspace?.role, "admin")
+  const imported = run && !run.dryRun
+
+  const parseFile = (nextSource: ImportSource, nextFile: { name: string; text: string }) => {
+    setRun(null)
+    try {
+      const parsed = parseImportFile(nextSource, nextFile.text)
+      if (parsed.length === 0) {
+        throw new Error("The file has no links")
+      }
+      setRows(parsed)
+      setParseError(null)
+    } catch (error) {
+      setRows([])
+      setParseError(error instanceof Error ? error.message : "The file could not be read")
+    }
+  }
+
+  const readFile = async (selected: File) => {
+    const nextFile = { name: selected.name, text: await selected.text() }
+    setFile(nextFile)
+    parseFile(source, nextFile)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setDragging(false)
+    const selected = e.dataTransfer.files[0]
+    if (selected) readFile(selected)
+  }
+
+  // Large exports go up in batches of IMPORT_MAX_LINKS, one after another
+  const startImport = async (dryRun: boolean) => {
+    if (!activeWorkspace || rows.length === 0) return
+
+    setRunning(dryRun ? "check" : "import")
+    setProgress(0)
+    const results: ImportLinkResult[] = []
+    try {
+      for (let offset = 0; offset < rows.length; offset += IMPORT_MAX_LINKS) {
+        const response = await authFetch(`/api/workspaces/${activeWorkspace.id}/import`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ source, links: rows.slice(offset, offset + IMPORT_MAX_LINKS), dryRun, onCollision }),
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Import failed")
+        }
+        results.push(...data.results.map((result: ImportLinkResult) => ({ ...result, row: result.row + offset })))
+        setProgress(Math.min(offset + IMPORT_MAX_LINKS, rows.length))
+      }
+
+      const count = (status: ImportLinkResult["status"]) => results.filter((result) => result.status === status).length
+      toast({
+        title: dryRun ? "Check finished" : "Import finished",
+        description:
+          `${count("imported")} ${dryRun ? "can be imported" : "imported"}, ` +
+          `${count("collision")} collisions, ${count("error")} failed.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Import failed",
+        variant: "destructive",
+      })
+    } finally {
+      // Keep what finished before a failed batch so it isn't imported twice
+      setRun(results.length > 0 ? { dryRun, results } : null)
+      setRunning(null)
+    }
+  }
+
+  const count = (status: ImportLinkResult["status"]) => run?.results.filter((result) => result.status === status).length
+  const flagged = run?.results.filter((result) => result.status !== "imported" || result.renamedFrom) || []
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between gap-4 mb-8">
+            <div className="flex items-center gap-4">
+              <Link href="/links">
+                <Button variant="outline" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Links
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Import links</h1>
+            </div>
+            <UserMenu />
+          </div>
+
+          {authLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !user ? (
+            <Card>
+              <CardHeader className="text-center">
+                <CardTitle>Sign in to import links</CardTitle>
+              </CardHeader>
+              <CardContent className="text-center">
+                <Link href="/login?next=/links/import">
+                  <Button>Sign in</Button>
+                </Link>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Import className="h-5 w-5" />
+                    Import from another shortener
+                  </CardTitle>
+                  <CardDescription>
+                    Original short codes, creation dates and click totals are kept where possible. Imported click
+                    totals count towards each link&apos;s total but don&apos;t appear in the click charts. Imported
+                    links never expire.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {activeWorkspace && !canImport && (
+                    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-700">
+                      Only admins can import links into {activeWorkspace.name}.
+                    </div>
+                  )}
+
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium">Exported from</label>
+                      <Select
+                        value={source}
+                        onValueChange={(value) => {
+                          setSource(value as ImportSource)
+                          if (file) parseFile(value as ImportSource, file)
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {IMPORT_SOURCES.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {IMPORT_SOURCE_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium">When a short code is already taken</label>
+                      <Select
+                        value={onCollision}
+                        onValueChange={(value) => {
+                          setOnCollision(value as ImportCollisionMode)
+                          setRun(null)
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(COLLISION_MODE_LABELS) as ImportCollisionMode[]).map((mode) => (
+                            <SelectItem key={mode} value={mode}>
+                              {COLLISION_MODE_LABELS[mode]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => fileInputRef.current?.click()}
+                    onKeyDown={(e) => e.key === "Enter" && fileInputRef.current?.click()}
+                    onDragOver={(e) => {
+                      e.preventDefault()
+                      setDragging(true)
+                    }}
+                    onDragLeave={() => setDragging(false)}
+                    onDrop={handleDrop}
+                    className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8
+                      text-center cursor-pointer transition-colors ${
+                        dragging ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:bg-gray-50"
+                      }`}
+                  >
+                    <FileUp className="h-8 w-8 text-gray-400" />
+                    <p className="text-sm text-gray-600">
+                      {file ? file.name : "Drop the export file here, or click to choose one"}
+                    </p>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".csv,.json,.sql,text/csv,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const selected = e.target.files?.[0]
+                        if (selected) readFile(selected)
+                        e.target.value = ""
+                      }}
+                    />
+                  </div>
+
+                  {parseError && <p className="text-sm text-red-600">{parseError}</p>}
+
+                  {rows.length > 0 && (
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                      <p className="text-sm text-gray-600">
+                        {rows.length} {rows.length === 1 ? "link" : "links"} found for {activeWorkspace?.name}
+                        {running && ` - ${progress} of ${rows.length} processed`}
+                      </p>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          onClick={() => startImport(true)}
+                          disabled={!!running || !canImport || !!imported}
+                        >
+                          {running === "check" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                          Check for collisions
+                        </Button>
+                        <Button onClick={() => startImport(false)} disabled={!!running || !canImport || !!imported}>
+                          {running === "import" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                          Import {rows.length} {rows.length === 1 ? "link" : "links"}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {run && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>
+                      {run.dryRun
+                        ? `${count("imported")} of ${rows.length} can be imported`
+                        : `${count("imported")} of ${rows.length} imported`}
+                    </CardTitle>
+                    <CardDescription>
+                      {count("collision")} short codes already taken, {count("error")} rows with errors
+                      {run.dryRun && ". Nothing has been imported yet."}
+                    </CardDescription>
+                  </CardHeader>
+                  {flagged.length > 0 && (
+                    <CardContent>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-12">Row</TableHead>
+                            <TableHead>URL</TableHead>
+                            <TableHead>Result</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {flagged.map((result) => (
+                            <TableRow key={result.row}>
+                              <TableCell className="text-sm text-gray-500">{result.row + 1}</TableCell>
+                              <TableCell className="max-w-xs text-sm truncate">{rows[result.row]?.url}</TableCell>
+                              <TableCell className="text-sm">
+                                {result.status === "imported" ? (
+                                  <span className="flex items-center gap-1 text-green-700">
+                                    <CheckCircle className="h-4 w-4 shrink-0" />
+                                    {result.shortCode
+                                      ? `/${result.renamedFrom} → /${result.shortCode}`
+                                      : `/${result.renamedFrom} gets a new short code`}
+                                  </span>
+                                ) : result.status === "collision" ? (
+                                  <span className="flex items-center gap-1 text-yellow-700">
+                                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                                    /{result.shortCode} is already taken
+                                  </span>
+                                ) : (
+                                  <span className="flex items-center gap-1 text-red-600">
+                                    <XCircle className="h-4 w-4 shrink-0" />
+                                    {result.error}
+                                  </span>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  )}
+                </Card>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
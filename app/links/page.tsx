@@ -0,0 +1,81 @@
+"use client"
+
+import Link from "next/link"
+import { RecentUrls } from "@/components/recent-urls"
+import { UserMenu } from "@/components/user-menu"
+import { useAuth } from "@/components/auth-provider"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, FileUp, Import, Loader2, Trash2 } from "lucide-react"
+import { WORKSPACE_LINKS_LIMIT } from "@/lib/links"
+
+export default function MyLinksPage() {
+  const { user, loading } = useAuth()
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between gap-4 mb-8">
+            <div className="flex items-center gap-4">
+              <Link href="/">
+                <Button variant="outline" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Home
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Links</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              {user && (
+                <Link href="/links/bulk">
+                  <Button variant="outline" size="sm" className="bg-transparent">
+                    <FileUp className="h-4 w-4 mr-2" />
+                    Bulk upload
+                  </Button>
+                </Link>
+              )}
+              {user && (
+                <Link href="/links/import">
+                  <Button variant="outline" size="sm" className="bg-transparent">
+                    <Import className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                </Link>
+              )}
+              {user && (
+                <Link href="/links/trash">
+                  <Button variant="outline" size="sm" className="bg-transparent">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Trash
+                  </Button>
+                </Link>
+              )}
+              <UserMenu />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : user ? (
+            <RecentUrls limitCount={WORKSPACE_LINKS_LIMIT} showViewAll={false} />
+          ) : (
+            <Card>
+              <CardHeader className="text-center">
+                <CardTitle>Sign in to see your links</CardTitle>
+              </CardHeader>
+              <CardContent className="text-center">
+                <Link href="/login">
+                  <Button>Sign in</Button>
+                </Link>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { UserMenu } from "@/components/user-menu"
+import { useAuth } from "@/components/auth-provider"
+import { useWorkspace } from "@/components/workspace-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { authFetch } from "@/lib/auth"
+import { canEditLink, LINK_TRASH_RETENTION_DAYS } from "@/lib/links"
+
+interface TrashedLink {
+  shortCode: string
+  originalUrl: string
+  deletedAt: string
+  purgeAt: string
+}
+
+export default function TrashPage() {
+  const { user, loading: authLoading } = useAuth()
+  const { activeWorkspace } = useWorkspace()
+  const { toast } = useToast()
+  const [links, setLinks] = useState<TrashedLink[]>([])
+  const [loading, setLoading] = useState(false)
+  const [restoring, setRestoring] = useState<string | null>(null)
+
+  const canRestore = canEditLink(activeWorkspace?.role || null)
+
+  const loadTrash = useCallback(async () => {
+    if (!activeWorkspace) return
+
+    setLoading(true)
+    try {
+      const response = await authFetch(`/api/workspaces/${activeWorkspace.id}/trash`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load trash")
+      }
+      setLinks(data.links)
+    } catch (error) {
+      console.error("❌ Error loading trash:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [activeWorkspace?.id])
+
+  useEffect(() => {
+    loadTrash()
+  }, [loadTrash])
+
+  const restore = async (shortCode: string) => {
+    setRestoring(shortCode)
+    try {
+      const response = await authFetch(`/api/links/${shortCode}/restore`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to restore link")
+      }
+      toast({ title: "Link restored", description: `/${shortCode} redirects again.` })
+      setLinks((previous) => previous.filter((link) => link.shortCode !== shortCode))
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore link",
+        variant: "destructive",
+      })
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between gap-4 mb-8">
+            <div className="flex items-center gap-4">
+              <Link href="/links">
+                <Button variant="outline" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Links
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+            </div>
+            <UserMenu />
+          </div>
+
+          {authLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !user ? (
+            <Card>
+              <CardHeader className="text-center">
+                <CardTitle>Sign in to see your trash</CardTitle>
+              </CardHeader>
+              <CardContent className="text-center">
+                <Link href="/login?next=/links/trash">
+                  <Button>Sign in</Button>
+                </Link>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Trash2 className="h-5 w-5" />
+                  Deleted links
+                </CardTitle>
+                <CardDescription>
+                  Deleted links answer 410 Gone and are permanently removed, with their analytics,{" "}
+                  {LINK_TRASH_RETENTION_DAYS} days after deletion.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+                  </div>
+                ) : links.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-4">The trash is empty.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Link</TableHead>
+                        <TableHead>Deleted</TableHead>
+                        <TableHead>Purged on</TableHead>
+                        <TableHead className="w-12" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {links.map((link) => (
+                        <TableRow key={link.shortCode}>
+                          <TableCell className="max-w-xs">
+                            <div className="font-medium">/{link.shortCode}</div>
+                            <div className="text-xs text-gray-500 truncate">{link.originalUrl}</div>
+                          </TableCell>
+                          <TableCell className="text-sm">{new Date(link.deletedAt).toLocaleString()}</TableCell>
+                          <TableCell className="text-sm">{new Date(link.purgeAt).toLocaleDateString()}</TableCell>
+                          <TableCell>
+                            {canRestore && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={restoring !== null}
+                                onClick={() => restore(link.shortCode)}
+                              >
+                                {restoring === link.shortCode ? (
+                                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                ) : (
+                                  <RotateCcw className="h-4 w-4 mr-2" />
+                                )}
+                                Restore
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
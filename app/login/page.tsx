@@ -0,0 +1,137 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Github, Loader2, Mail } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/components/auth-provider"
+import {
+  completeEmailLinkSignIn,
+  isEmailSignInLink,
+  sendEmailSignInLink,
+  signInWithOAuth,
+  type OAuthProviderId,
+} from "@/lib/auth"
+
+export default function LoginPage() {
+  const router = useRouter()
+  const { user, loading } = useAuth()
+  const { toast } = useToast()
+  const [email, setEmail] = useState("")
+  const [linkSent, setLinkSent] = useState(false)
+  const [needsEmailConfirmation, setNeedsEmailConfirmation] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Sign-in failed",
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    })
+  }
+
+  // Returning from an email sign-in link
+  useEffect(() => {
+    const href = window.location.href
+    if (!isEmailSignInLink(href)) return
+
+    completeEmailLinkSignIn(href).catch(() => setNeedsEmailConfirmation(true))
+  }, [])
+
+  useEffect(() => {
+    if (!loading && user) {
+      // Only follow same-site paths, e.g. /login?next=/invite/abc
+      const next = new URLSearchParams(window.location.search).get("next")
+      router.replace(next?.startsWith("/") && !next.startsWith("//") ? next : "/links")
+    }
+  }, [loading, user, router])
+
+  const handleOAuth = async (providerId: OAuthProviderId) => {
+    setIsSubmitting(true)
+    try {
+      await signInWithOAuth(providerId)
+    } catch (error) {
+      showError(error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+
+    setIsSubmitting(true)
+    try {
+      if (needsEmailConfirmation) {
+        await completeEmailLinkSignIn(window.location.href, email.trim())
+      } else {
+        await sendEmailSignInLink(email.trim())
+        setLinkSent(true)
+      }
+    } catch (error) {
+      showError(error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+      <Card className="max-w-md w-full mx-4">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Sign in to ShortLink</CardTitle>
+          <CardDescription>Sign in to create links and keep track of them from any device.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!needsEmailConfirmation && (
+            <div className="space-y-2">
+              <Button className="w-full" variant="outline" disabled={isSubmitting} onClick={() => handleOAuth("google")}>
+                Continue with Google
+              </Button>
+              <Button className="w-full" variant="outline" disabled={isSubmitting} onClick={() => handleOAuth("github")}>
+                <Github className="h-4 w-4 mr-2" />
+                Continue with GitHub
+              </Button>
+            </div>
+          )}
+
+          {linkSent ? (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+              Check your inbox - we sent a sign-in link to <strong>{email}</strong>.
+            </div>
+          ) : (
+            <form onSubmit={handleEmailSubmit} className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">
+                {needsEmailConfirmation ? "Confirm your email to finish signing in:" : "Or get a sign-in link by email:"}
+              </label>
+              <Input
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Mail className="h-4 w-4 mr-2" />}
+                {needsEmailConfirmation ? "Finish signing in" : "Email me a link"}
+              </Button>
+            </form>
+          )}
+
+          <div className="text-center">
+            <Link href="/" className="text-sm text-gray-600 hover:text-gray-900">
+              Back to Home
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -4,6 +4,8 @@ import { useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { AlertTriangle, CheckCircle, Database } from "lucide-react"
+import { BackupReminder } from "@/components/backup-reminder"
+import { runMaintenanceTask } from "@/lib/maintenance"
 
 export default function MigrateClean() {
   const [migrating, setMigrating] = useState(false)
@@ -13,9 +15,8 @@ export default function MigrateClean() {
     setMigrating(true)
 
     try {
-      // Import the migration function dynamically
-      const { migrateToCleanArchitecture } = await import("@/lib/analytics-clean")
-      await migrateToCleanArchitecture()
+      // Runs on the server - browsers can't write link documents
+      await runMaintenanceTask("migrate-clean")
       setCompleted(true)
     } catch (error) {
       console.error("Migration failed:", error)
@@ -35,6 +36,8 @@ export default function MigrateClean() {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
+          <BackupReminder />
+
           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
             <div className="flex items-start gap-2">
               <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
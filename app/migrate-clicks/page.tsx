@@ -0,0 +1,101 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, CheckCircle, Database } from "lucide-react"
+import { runMaintenanceTask } from "@/lib/maintenance"
+
+export default function MigrateClicks() {
+  const [migrating, setMigrating] = useState(false)
+  const [result, setResult] = useState<{ documents: number; events: number } | null>(null)
+
+  const runMigration = async () => {
+    setMigrating(true)
+
+    try {
+      // Runs on the server - browsers can't write analytics documents
+      setResult(await runMaintenanceTask("migrate-clicks"))
+    } catch (error) {
+      console.error("Migration failed:", error)
+      alert("Migration failed: " + (error instanceof Error ? error.message : String(error)))
+    } finally {
+      setMigrating(false)
+    }
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Database className="h-6 w-6" />
+            Click Events Migration
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <div className="flex items-start gap-2">
+              <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+              <div>
+                <h3 className="font-medium text-yellow-800">Move Click Events Out of Analytics Documents</h3>
+                <p className="text-sm text-yellow-700 mt-1">
+                  Older analytics documents store every click in a single `clickEvents` array. This migration will:
+                </p>
+                <ul className="text-sm text-yellow-700 mt-2 space-y-1">
+                  <li>• Copy each click event into its own document under `clicks`</li>
+                  <li>• Remove the `clickEvents` array once every event has been copied</li>
+                  <li>• Keep `totalClicks` unchanged</li>
+                  <li>• Safe to re-run - events keep their original ids</li>
+                </ul>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="font-medium">Current Structure:</h3>
+            <div className="bg-red-50 border border-red-200 rounded p-3">
+              <pre className="text-xs text-red-800">
+                {`analytics/abc123 = {
+  totalClicks: 5,
+  clickEvents: [...]  // ❌ Grows until the 1 MiB document limit
+}`}
+              </pre>
+            </div>
+
+            <h3 className="font-medium">After Migration:</h3>
+            <div className="bg-green-50 border border-green-200 rounded p-3">
+              <pre className="text-xs text-green-800">
+                {`analytics/abc123 = {
+  totalClicks: 5,
+}
+
+analytics/abc123/clicks/{clickId} = {
+  timestamp, referer, userAgent, ...  // ✅ One document per click
+}`}
+              </pre>
+            </div>
+          </div>
+
+          {!result ? (
+            <Button onClick={runMigration} disabled={migrating} className="w-full" size="lg">
+              {migrating ? "Migrating..." : "Run Click Events Migration"}
+            </Button>
+          ) : (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="h-5 w-5 text-green-600" />
+                <div>
+                  <h3 className="font-medium text-green-800">Migration Complete!</h3>
+                  <p className="text-sm text-green-700 mt-1">
+                    Moved {result.events} click events from {result.documents} analytics documents.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, CheckCircle, Lock } from "lucide-react"
+import { runMaintenanceTask } from "@/lib/maintenance"
+import type { PasswordMigrationResult } from "@/lib/link-service"
+
+export default function MigratePasswords() {
+  const [migrating, setMigrating] = useState(false)
+  const [result, setResult] = useState<PasswordMigrationResult | null>(null)
+
+  const runMigration = async () => {
+    setMigrating(true)
+
+    try {
+      // Runs on the server - browsers can't read or write linkSecrets
+      setResult(await runMaintenanceTask("migrate-passwords"))
+    } catch (error) {
+      console.error("Migration failed:", error)
+      alert("Migration failed: " + (error instanceof Error ? error.message : String(error)))
+    } finally {
+      setMigrating(false)
+    }
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-6 w-6" />
+            Link Passwords Migration
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <div className="flex items-start gap-2">
+              <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+              <div>
+                <h3 className="font-medium text-yellow-800">Move Password Hashes Out of Link Documents</h3>
+                <p className="text-sm text-yellow-700 mt-1">
+                  Older protected links keep their password hash in the link document and its revisions, where
+                  workspace members can read it. This migration will:
+                </p>
+                <ul className="text-sm text-yellow-700 mt-2 space-y-1">
+                  <li>• Copy each hash to `linkSecrets`, which only the server can read</li>
+                  <li>• Replace `passwordHash` on the link with `passwordProtected: true`</li>
+                  <li>• Remove the hash from every revision in the link&apos;s history</li>
+                  <li>• Safe to re-run - migrated links are skipped</li>
+                </ul>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="font-medium">Current Structure:</h3>
+            <div className="bg-red-50 border border-red-200 rounded p-3">
+              <pre className="text-xs text-red-800">
+                {`urls/abc123 = {
+  originalUrl: "...",
+  passwordHash: "..."  // ❌ Readable by members
+}`}
+              </pre>
+            </div>
+
+            <h3 className="font-medium">After Migration:</h3>
+            <div className="bg-green-50 border border-green-200 rounded p-3">
+              <pre className="text-xs text-green-800">
+                {`urls/abc123 = {
+  originalUrl: "...",
+  passwordProtected: true
+}
+
+linkSecrets/abc123 = {
+  passwordHash: "..."  // ✅ Server only
+}`}
+              </pre>
+            </div>
+          </div>
+
+          {!result ? (
+            <Button onClick={runMigration} disabled={migrating} className="w-full" size="lg">
+              {migrating ? "Migrating..." : "Run Passwords Migration"}
+            </Button>
+          ) : (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="h-5 w-5 text-green-600" />
+                <div>
+                  <h3 className="font-medium text-green-800">Migration Complete!</h3>
+                  <p className="text-sm text-green-700 mt-1">
+                    Moved {result.links} password hashes and cleaned {result.revisions} revisions.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -16,9 +16,9 @@ export default function NotFound() {
           <div className="space-y-2">
             <p className="text-sm text-gray-500">This could happen if:</p>
             <ul className="text-sm text-gray-500 text-left space-y-1">
-              <li>• The link has expired (links expire after 30 days)</li>
+              <li>• The link has expired</li>
               <li>• The short code was mistyped</li>
-              <li>• The link was deleted</li>
+              <li>• The link was permanently removed from the trash</li>
             </ul>
           </div>
           <Link href="/">
@@ -1,5 +1,6 @@
 import { UrlShortenerForm } from "@/components/url-shortener-form"
 import { RecentUrls } from "@/components/recent-urls"
+import { UserMenu } from "@/components/user-menu"
 import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Link, Zap, BarChart3, Shield } from "lucide-react"
 import { Button } from "@/components/ui/button"
@@ -8,6 +9,10 @@ export default function HomePage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
       <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-end mb-4">
+          <UserMenu />
+        </div>
+
         {/* Header */}
         <div className="text-center mb-12">
           <div className="flex items-center justify-center gap-2 mb-4">
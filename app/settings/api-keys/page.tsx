@@ -0,0 +1,326 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { UserMenu } from "@/components/user-menu"
+import { useAuth } from "@/components/auth-provider"
+import { useWorkspace } from "@/components/workspace-provider"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, Copy, ExternalLink, KeyRound, Loader2, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { authFetch } from "@/lib/auth"
+import { API_KEY_SCOPES, API_KEY_SCOPE_DESCRIPTIONS, type ApiKeyScope, type ApiKeyType } from "@/lib/api-keys"
+import { hasRole } from "@/lib/workspaces"
+
+interface ApiKeyRow {
+  id: string
+  name: string
+  type: ApiKeyType
+  workspaceId: string
+  scopes: ApiKeyScope[]
+  hint: string
+  createdAt: string | null
+  lastUsedAt: string | null
+  revokedAt: string | null
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "Never"
+}
+
+export default function ApiKeysPage() {
+  const { user, loading: authLoading } = useAuth()
+  const { workspaces, activeWorkspace } = useWorkspace()
+  const { toast } = useToast()
+  const [apiKeys, setApiKeys] = useState<ApiKeyRow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [name, setName] = useState("")
+  const [type, setType] = useState<ApiKeyType>("user")
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["links:read"])
+  const [newKey, setNewKey] = useState<string | null>(null)
+
+  const canCreateWorkspaceKey = !!activeWorkspace && hasRole(activeWorkspace.role, "admin")
+  const workspaceNames = new Map(workspaces.map((workspace) => [workspace.id, workspace.name]))
+
+  const loadKeys = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await authFetch("/api/api-keys")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load API keys")
+      }
+      setApiKeys(data.apiKeys)
+    } catch (error) {
+      console.error("❌ Error loading API keys:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (user) {
+      loadKeys()
+    }
+  }, [user, loadKeys])
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || scopes.length === 0 || !activeWorkspace) return
+
+    setBusy(true)
+    try {
+      const response = await authFetch("/api/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), type, workspaceId: activeWorkspace.id, scopes }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create API key")
+      }
+      setName("")
+      setNewKey(data.key)
+      await loadKeys()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create API key",
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRevoke = async (apiKey: ApiKeyRow) => {
+    setBusy(true)
+    try {
+      const response = await authFetch(`/api/api-keys/${apiKey.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to revoke API key")
+      }
+      toast({ title: "Key revoked", description: `${apiKey.name} can no longer be used.` })
+      await loadKeys()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke API key",
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const copyNewKey = async () => {
+    if (!newKey) return
+    await navigator.clipboard.writeText(newKey)
+    toast({ title: "Copied!", description: "API key copied to clipboard." })
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Link href="/links">
+                <Button variant="outline" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Links
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">API Keys</h1>
+            </div>
+            <UserMenu />
+          </div>
+
+          {authLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !user ? (
+            <Card>
+              <CardHeader className="text-center">
+                <CardTitle>Sign in to manage API keys</CardTitle>
+              </CardHeader>
+              <CardContent className="text-center">
+                <Link href="/login?next=/settings/api-keys">
+                  <Button>Sign in</Button>
+                </Link>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <KeyRound className="h-5 w-5" />
+                    Create an API key
+                  </CardTitle>
+                  <CardDescription>
+                    Keys authenticate requests to the REST API at /api/v1.{" "}
+                    <a
+                      href="/api/v1/openapi.json"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-blue-600 hover:underline"
+                    >
+                      OpenAPI document
+                      <ExternalLink className="h-3 w-3 ml-1" />
+                    </a>
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleCreate} className="space-y-4">
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Key name, e.g. CI deploys"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        maxLength={60}
+                        className="flex-1"
+                        required
+                      />
+                      <Select value={type} onValueChange={(value) => setType(value as ApiKeyType)}>
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="user">Personal key</SelectItem>
+                          <SelectItem value="workspace" disabled={!canCreateWorkspaceKey}>
+                            Workspace key
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <p className="text-xs text-gray-500">
+                      {type === "user"
+                        ? "Acts as you, with your current role, in every workspace you belong to."
+                        : `Bound to ${activeWorkspace?.name || "the active workspace"} and keeps working if you leave it.`}
+                    </p>
+
+                    <div className="space-y-2">
+                      {API_KEY_SCOPES.map((scope) => (
+                        <label key={scope} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={scopes.includes(scope)}
+                            onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                          />
+                          <code>{scope}</code>
+                          <span className="text-gray-500">- {API_KEY_SCOPE_DESCRIPTIONS[scope]}</span>
+                        </label>
+                      ))}
+                    </div>
+
+                    <Button type="submit" disabled={busy || scopes.length === 0 || !activeWorkspace}>
+                      {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                      Create key
+                    </Button>
+
+                    {newKey && (
+                      <div className="space-y-1 p-3 bg-green-50 border border-green-200 rounded">
+                        <p className="text-sm font-medium text-green-800">
+                          Copy this key now - it won't be shown again.
+                        </p>
+                        <div className="flex items-center gap-2">
+                          <code className="flex-1 text-xs break-all">{newKey}</code>
+                          <Button type="button" size="sm" variant="ghost" onClick={copyNewKey}>
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </form>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Your keys</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {loading ? (
+                    <div className="flex justify-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+                    </div>
+                  ) : apiKeys.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-4">No API keys yet.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Key</TableHead>
+                          <TableHead>Scopes</TableHead>
+                          <TableHead>Last used</TableHead>
+                          <TableHead className="w-12" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {apiKeys.map((apiKey) => (
+                          <TableRow key={apiKey.id} className={apiKey.revokedAt ? "opacity-50" : undefined}>
+                            <TableCell>
+                              <div className="font-medium">{apiKey.name}</div>
+                              <div className="text-xs text-gray-500">
+                                sl_{apiKey.id}_…{apiKey.hint} ·{" "}
+                                {apiKey.type === "workspace"
+                                  ? workspaceNames.get(apiKey.workspaceId) || "Workspace"
+                                  : "Personal"}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1">
+                                {apiKey.scopes.map((scope) => (
+                                  <Badge key={scope} variant="secondary">
+                                    {scope}
+                                  </Badge>
+                                ))}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-sm text-gray-600">
+                              {apiKey.revokedAt ? "Revoked" : formatDate(apiKey.lastUsedAt)}
+                            </TableCell>
+                            <TableCell>
+                              {!apiKey.revokedAt && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  disabled={busy}
+                                  title="Revoke key"
+                                  onClick={() => handleRevoke(apiKey)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
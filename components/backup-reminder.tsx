@@ -0,0 +1,18 @@
+import Link from "next/link"
+import { HardDriveDownload } from "lucide-react"
+
+// Shown on the maintenance pages that rewrite live data
+export function BackupReminder() {
+  return (
+    <div className="flex items-start gap-2 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+      <HardDriveDownload className="h-4 w-4 mt-0.5 shrink-0" />
+      <p>
+        This changes live data and can&apos;t be undone.{" "}
+        <Link href="/admin/backup" className="underline">
+          Download a backup
+        </Link>{" "}
+        first so you can restore it if something goes wrong.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Loader2, Megaphone } from "lucide-react"
+import { getWorkspaceCampaigns, type CampaignSummary } from "@/lib/campaigns"
+import { conversionRate } from "@/lib/conversions"
+
+// Clicks and conversions grouped by utm_campaign across the workspace's links
+export function CampaignOverview({ workspaceId }: { workspaceId: string }) {
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    getWorkspaceCampaigns(workspaceId).then((summaries) => {
+      if (cancelled) return
+      setCampaigns(summaries)
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [workspaceId])
+
+  if (!loading && campaigns.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Megaphone className="h-5 w-5" />
+          Campaigns
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {campaigns.map((summary) => (
+              <div key={summary.campaign} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{summary.campaign}</p>
+                  <p className="text-xs text-gray-500">
+                    {summary.links.length} {summary.links.length === 1 ? "link" : "links"}
+                  </p>
+                </div>
+                <div className="text-right text-sm">
+                  <p className="font-medium text-gray-900">{summary.clicks} clicks</p>
+                  {summary.conversions > 0 && (
+                    <p className="text-xs text-purple-600">
+                      {summary.conversions} conversions ({conversionRate(summary.conversions, summary.clicks)}%)
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
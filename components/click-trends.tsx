@@ -0,0 +1,145 @@
+"use client"
+
+import { useState } from "react"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Loader2, TrendingUp } from "lucide-react"
+import { ROLLUP_RANGES, useClickRollups, type RollupRange } from "@/hooks/use-click-rollups"
+import { DEFAULT_TARGETING_KEY, describeTargetingRule, type TargetingRule } from "@/lib/targeting"
+import type { LinkVariant } from "@/lib/variants"
+import { VariantComparison } from "@/components/variant-comparison"
+
+const chartConfig = {
+  clicks: { label: "Clicks", color: "hsl(221, 83%, 53%)" },
+  uniqueVisitors: { label: "Unique visitors", color: "hsl(142, 71%, 45%)" },
+} satisfies ChartConfig
+
+function Breakdown({
+  title,
+  counts,
+  labels = {},
+}: {
+  title: string
+  counts: Record<string, number>
+  labels?: Record<string, string>
+}) {
+  const entries = Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 5)
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+      {entries.length === 0 ? (
+        <p className="text-xs text-gray-400">No data yet</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map(([key, count]) => (
+            <div key={key} className="flex justify-between items-center p-2 bg-gray-50 rounded text-sm">
+              <span className="truncate">{labels[key] || key}</span>
+              <span className="text-gray-600">{count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Click trends served from the pre-aggregated hourly/daily rollups.
+// Links with targeting rules also get a breakdown of which rule sent each click,
+// and split-tested links a comparison of their variants.
+export function ClickTrends({
+  shortCode,
+  targetingRules = [],
+  variants = [],
+}: {
+  shortCode: string
+  targetingRules?: TargetingRule[]
+  variants?: LinkVariant[]
+}) {
+  const [range, setRange] = useState<RollupRange>("30d")
+  const { series, summary, loading } = useClickRollups(shortCode, range)
+  const hasRuleClicks = Object.keys(summary.rules).some((key) => key !== DEFAULT_TARGETING_KEY)
+  const hasVariantClicks = Object.keys(summary.variants).length > 0
+  const ruleLabels: Record<string, string> = {
+    [DEFAULT_TARGETING_KEY]: "No rule (default destination)",
+    ...Object.fromEntries(targetingRules.map((rule) => [rule.id, describeTargetingRule(rule)])),
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Clicks Over Time
+          </CardTitle>
+          <div className="flex gap-1">
+            {(Object.keys(ROLLUP_RANGES) as RollupRange[]).map((key) => (
+              <Button key={key} size="sm" variant={range === key ? "default" : "outline"} onClick={() => setRange(key)}>
+                {key}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold text-blue-600">{summary.clicks}</div>
+                <div className="text-sm text-gray-600">Clicks ({ROLLUP_RANGES[range].label})</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-green-600">{summary.uniqueVisitors}</div>
+                <div className="text-sm text-gray-600">
+                  Unique visitors ({ROLLUP_RANGES[range].granularity === "hour" ? "per hour" : "per day"})
+                </div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-purple-600">{summary.qrScans}</div>
+                <div className="text-sm text-gray-600">QR scans</div>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={series}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="clicks" fill="var(--color-clicks)" radius={2} />
+                <Bar dataKey="uniqueVisitors" fill="var(--color-uniqueVisitors)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+
+            <div className="grid md:grid-cols-3 gap-4">
+              <Breakdown title="Top Referrers" counts={summary.referrers} />
+              <Breakdown title="Countries" counts={summary.countries} />
+              <Breakdown title="Devices" counts={summary.devices} />
+            </div>
+
+            {Object.keys(summary.campaigns).length > 0 && <Breakdown title="Campaigns" counts={summary.campaigns} />}
+
+            {(targetingRules.length > 0 || hasRuleClicks) && (
+              <Breakdown title="Targeting Rules" counts={summary.rules} labels={ruleLabels} />
+            )}
+
+            {(variants.length > 0 || hasVariantClicks) && (
+              <VariantComparison variants={variants} series={series} counts={summary.variants} />
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Goal } from "lucide-react"
+import { CLICK_ID_PARAM, conversionRate } from "@/lib/conversions"
+
+// Conversions reported by landing pages next to the link's clicks, with the snippet to report them
+export function ConversionStats({
+  totalClicks,
+  totalConversions = 0,
+  conversionValue = 0,
+  goals = {},
+  trackingEnabled,
+}: {
+  totalClicks: number
+  totalConversions?: number
+  conversionValue?: number
+  goals?: Record<string, number>
+  trackingEnabled: boolean
+}) {
+  const goalEntries = Object.entries(goals)
+    .filter(([, count]) => count > 0)
+    .sort(([, a], [, b]) => b - a)
+  const origin = typeof window === "undefined" ? "" : window.location.origin
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Goal className="h-5 w-5" />
+          Conversions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <div className="text-2xl font-bold text-purple-600">{totalConversions}</div>
+            <div className="text-sm text-gray-600">Conversions</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-purple-600">{conversionRate(totalConversions, totalClicks)}%</div>
+            <div className="text-sm text-gray-600">Conversion rate</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-purple-600">{conversionValue.toLocaleString()}</div>
+            <div className="text-sm text-gray-600">Total value</div>
+          </div>
+        </div>
+
+        {goalEntries.length > 0 && (
+          <div className="space-y-1">
+            {goalEntries.map(([goal, count]) => (
+              <div key={goal} className="flex justify-between items-center p-2 bg-gray-50 rounded text-sm">
+                <span className="truncate">{goal}</span>
+                <span className="text-gray-600">
+                  {count} ({conversionRate(count, totalClicks)}% of clicks)
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {trackingEnabled ? (
+          <div className="text-xs text-gray-500 space-y-1">
+            <p>
+              Visitors arrive with <code>?{CLICK_ID_PARAM}=…</code> on the destination URL. Report a goal from the
+              landing page with a pixel, or POST {"{ clickId, goal, value }"} as JSON to the same endpoint:
+            </p>
+            <code className="block p-2 bg-gray-100 rounded break-all">
+              {`<img src="${origin}/api/conversions?${CLICK_ID_PARAM}={${CLICK_ID_PARAM}}&goal=signup&value=0" />`}
+            </code>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">
+            Conversion tracking is off for this link. Turn it on in Edit to add a click ID to the destination.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
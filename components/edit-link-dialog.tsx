@@ -0,0 +1,391 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Pencil } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { authFetch } from "@/lib/auth"
+import {
+  LINK_PASSWORD_MAX_LENGTH,
+  LINK_PASSWORD_MIN_LENGTH,
+  isPasswordProtected,
+  linkFieldsFromResponse,
+} from "@/lib/links"
+import { EXPIRED_MESSAGE_MAX_LENGTH } from "@/lib/expiration"
+import { CLICK_ID_PARAM } from "@/lib/conversions"
+import type { UrlData } from "@/lib/analytics-clean"
+import type { LinkSchedule } from "@/lib/schedules"
+import { LinkScheduleEditor } from "@/components/link-schedule-editor"
+import { UtmFieldsEditor } from "@/components/utm-fields-editor"
+import { hasUtmParams, normalizeUtmParams, type UtmParams } from "@/lib/utm"
+import { parseTagList } from "@/lib/tags"
+import { QUERY_PASSTHROUGH_LABELS, QUERY_PASSTHROUGH_MODES, type QueryPassthrough } from "@/lib/passthrough"
+
+// datetime-local inputs want "yyyy-MM-ddTHH:mm" in local time
+function toInputValue(date: Date | null): string {
+  return date ? format(date, "yyyy-MM-dd'T'HH:mm") : ""
+}
+
+// Edit a link's destination, expiry and status. Calls onSaved with the fields as stored.
+export function EditLinkDialog({
+  urlData,
+  onSaved,
+}: {
+  urlData: UrlData
+  onSaved: (changes: Partial<UrlData>) => void
+}) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [originalUrl, setOriginalUrl] = useState("")
+  const [neverExpires, setNeverExpires] = useState(false)
+  const [expiresAt, setExpiresAt] = useState("")
+  const [isActive, setIsActive] = useState(true)
+  const [maxClicks, setMaxClicks] = useState("")
+  const [expiredRedirectUrl, setExpiredRedirectUrl] = useState("")
+  const [expiredMessage, setExpiredMessage] = useState("")
+  const [passwordProtected, setPasswordProtected] = useState(false)
+  const [newPassword, setNewPassword] = useState("")
+  const [activatesAt, setActivatesAt] = useState("")
+  const [showCountdown, setShowCountdown] = useState(false)
+  const [schedule, setSchedule] = useState<LinkSchedule | null>(null)
+  const [trackConversions, setTrackConversions] = useState(false)
+  const [utmParams, setUtmParams] = useState<UtmParams>({})
+  const [queryPassthrough, setQueryPassthrough] = useState<QueryPassthrough | "off">("off")
+  const [wildcard, setWildcard] = useState(false)
+  const [tags, setTags] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Start from the current values each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      const currentExpiry: Date | null = urlData.expiresAt?.toDate?.() || null
+      setOriginalUrl(urlData.originalUrl)
+      setNeverExpires(!currentExpiry)
+      setExpiresAt(toInputValue(currentExpiry))
+      setIsActive(urlData.isActive)
+      setMaxClicks(urlData.maxClicks ? String(urlData.maxClicks) : "")
+      setExpiredRedirectUrl(urlData.expiredRedirectUrl || "")
+      setExpiredMessage(urlData.expiredMessage || "")
+      setPasswordProtected(isPasswordProtected(urlData))
+      setNewPassword("")
+      setActivatesAt(toInputValue(urlData.activatesAt?.toDate?.() || null))
+      setShowCountdown(urlData.showCountdown === true)
+      setSchedule(urlData.schedule || null)
+      setTrackConversions(urlData.trackConversions === true)
+      setUtmParams(urlData.utmParams || {})
+      setQueryPassthrough(urlData.queryPassthrough || "off")
+      setWildcard(urlData.wildcard === true)
+      setTags((urlData.tags || []).join(", "))
+    }
+  }, [open, urlData])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    // Only send what changed, so an untouched (or already past) expiry isn't re-validated
+    const currentExpiry: Date | null = urlData.expiresAt?.toDate?.() || null
+    const changes: Record<string, unknown> = {}
+    if (originalUrl.trim() !== urlData.originalUrl) {
+      changes.originalUrl = originalUrl.trim()
+    }
+    if (neverExpires ? currentExpiry : expiresAt !== toInputValue(currentExpiry)) {
+      changes.expiresAt = neverExpires || !expiresAt ? null : new Date(expiresAt).toISOString()
+    }
+    if (isActive !== urlData.isActive) {
+      changes.isActive = isActive
+    }
+    if (maxClicks !== (urlData.maxClicks ? String(urlData.maxClicks) : "")) {
+      changes.maxClicks = maxClicks ? Number(maxClicks) : null
+    }
+    if (expiredRedirectUrl.trim() !== (urlData.expiredRedirectUrl || "")) {
+      changes.expiredRedirectUrl = expiredRedirectUrl.trim() || null
+    }
+    if (expiredMessage.trim() !== (urlData.expiredMessage || "")) {
+      changes.expiredMessage = expiredMessage.trim() || null
+    }
+    // An empty password field keeps the current password
+    if (passwordProtected && newPassword) {
+      changes.password = newPassword
+    } else if (!passwordProtected && isPasswordProtected(urlData)) {
+      changes.password = null
+    }
+    if (activatesAt !== toInputValue(urlData.activatesAt?.toDate?.() || null)) {
+      changes.activatesAt = activatesAt ? new Date(activatesAt).toISOString() : null
+    }
+    if (showCountdown !== (urlData.showCountdown === true)) {
+      changes.showCountdown = showCountdown
+    }
+    if (JSON.stringify(schedule) !== JSON.stringify(urlData.schedule || null)) {
+      changes.schedule = schedule
+    }
+    if (trackConversions !== (urlData.trackConversions === true)) {
+      changes.trackConversions = trackConversions
+    }
+    if (queryPassthrough !== (urlData.queryPassthrough || "off")) {
+      changes.queryPassthrough = queryPassthrough === "off" ? null : queryPassthrough
+    }
+    if (wildcard !== (urlData.wildcard === true)) {
+      changes.wildcard = wildcard
+    }
+    if (parseTagList(tags).join(",") !== (urlData.tags || []).join(",")) {
+      changes.tags = parseTagList(tags)
+    }
+    const normalizedUtm = normalizeUtmParams(utmParams)
+    if (JSON.stringify(normalizedUtm) !== JSON.stringify(urlData.utmParams || {})) {
+      changes.utmParams = hasUtmParams(normalizedUtm) ? normalizedUtm : null
+    }
+    if (Object.keys(changes).length === 0) {
+      setOpen(false)
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await authFetch(`/api/links/${urlData.shortCode}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update link")
+      }
+
+      onSaved(linkFieldsFromResponse(data))
+      toast({ title: "Link updated", description: "Changes apply to the next redirect." })
+      setOpen(false)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update link",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Pencil className="h-4 w-4 mr-2" />
+          Edit link
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Edit /{urlData.shortCode}</DialogTitle>
+            <DialogDescription>The short URL stays the same; visitors are sent to the new settings.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <label htmlFor="edit-original-url" className="text-sm font-medium text-gray-700">
+              Destination URL:
+            </label>
+            <Input
+              id="edit-original-url"
+              type="url"
+              value={originalUrl}
+              onChange={(e) => setOriginalUrl(e.target.value)}
+              required
+            />
+            {urlData.redirectType === 301 || urlData.redirectType === 308 ? (
+              <p className="text-xs text-gray-500">
+                This link uses a permanent redirect, so browsers that already followed it may keep using the old
+                destination for a few minutes.
+              </p>
+            ) : null}
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="edit-tags" className="text-sm font-medium text-gray-700">
+              Tags:
+            </label>
+            <Input
+              id="edit-tags"
+              placeholder="catalog, spring-2026"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Switch id="edit-never-expires" checked={neverExpires} onCheckedChange={setNeverExpires} />
+              <label htmlFor="edit-never-expires" className="text-sm text-gray-700">
+                Never expires
+              </label>
+            </div>
+            {!neverExpires && (
+              <Input
+                type="datetime-local"
+                value={expiresAt}
+                min={toInputValue(new Date())}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                required
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="edit-max-clicks" className="text-sm font-medium text-gray-700">
+              Expire after clicks (optional):
+            </label>
+            <Input
+              id="edit-max-clicks"
+              type="number"
+              min={1}
+              step={1}
+              placeholder="No click limit"
+              value={maxClicks}
+              onChange={(e) => setMaxClicks(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="edit-expired-redirect" className="text-sm font-medium text-gray-700">
+              After expiry (optional):
+            </label>
+            <Input
+              id="edit-expired-redirect"
+              type="url"
+              placeholder="Fallback URL, e.g. https://example.com/offer-ended"
+              value={expiredRedirectUrl}
+              onChange={(e) => setExpiredRedirectUrl(e.target.value)}
+            />
+            <Input
+              placeholder="Or a message for the expired page"
+              maxLength={EXPIRED_MESSAGE_MAX_LENGTH}
+              value={expiredMessage}
+              onChange={(e) => setExpiredMessage(e.target.value)}
+              disabled={!!expiredRedirectUrl.trim()}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Switch id="edit-password" checked={passwordProtected} onCheckedChange={setPasswordProtected} />
+              <label htmlFor="edit-password" className="text-sm text-gray-700">
+                Require a password
+              </label>
+            </div>
+            {passwordProtected && (
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder={isPasswordProtected(urlData) ? "Leave empty to keep the current password" : "Password"}
+                minLength={LINK_PASSWORD_MIN_LENGTH}
+                maxLength={LINK_PASSWORD_MAX_LENGTH}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required={!isPasswordProtected(urlData)}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="edit-activates-at" className="text-sm font-medium text-gray-700">
+              Goes live (optional):
+            </label>
+            <Input
+              id="edit-activates-at"
+              type="datetime-local"
+              value={activatesAt}
+              onChange={(e) => setActivatesAt(e.target.value)}
+            />
+            {activatesAt && (
+              <div className="flex items-center gap-2">
+                <Switch id="edit-show-countdown" checked={showCountdown} onCheckedChange={setShowCountdown} />
+                <label htmlFor="edit-show-countdown" className="text-sm text-gray-700">
+                  Show a countdown until then
+                </label>
+              </div>
+            )}
+          </div>
+
+          <LinkScheduleEditor value={schedule} onChange={setSchedule} />
+
+          <div className="flex items-center gap-2">
+            <Switch id="edit-track-conversions" checked={trackConversions} onCheckedChange={setTrackConversions} />
+            <label htmlFor="edit-track-conversions" className="text-sm text-gray-700">
+              Track conversions - adds ?{CLICK_ID_PARAM}=… to the destination
+            </label>
+          </div>
+
+          {urlData.workspaceId && (
+            <div>
+              <label className="text-sm font-medium text-gray-700">UTM parameters:</label>
+              <div className="mt-1">
+                <UtmFieldsEditor
+                  workspaceId={urlData.workspaceId}
+                  value={utmParams}
+                  onChange={setUtmParams}
+                  destinationUrl={originalUrl}
+                  canSavePresets
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">Query string (?ref=…) from the short URL:</label>
+            <Select
+              value={queryPassthrough}
+              onValueChange={(value) => setQueryPassthrough(value as QueryPassthrough | "off")}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Don't forward</SelectItem>
+                {QUERY_PASSTHROUGH_MODES.map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {QUERY_PASSTHROUGH_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="edit-wildcard" checked={wildcard} onCheckedChange={setWildcard} />
+            <label htmlFor="edit-wildcard" className="text-sm text-gray-700">
+              Wildcard - /{urlData.shortCode}/any/path is appended to the destination
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="edit-is-active" checked={isActive} onCheckedChange={setIsActive} />
+            <label htmlFor="edit-is-active" className="text-sm text-gray-700">
+              Active - inactive links stop redirecting
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save changes
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
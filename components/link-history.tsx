@@ -0,0 +1,201 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { History, Loader2, RotateCcw } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { authFetch } from "@/lib/auth"
+import { linkFieldsFromResponse } from "@/lib/links"
+import type { UrlData } from "@/lib/analytics-clean"
+import type { LinkRevisionAction, SerializedLinkRevision } from "@/lib/link-history"
+import { describeSchedule } from "@/lib/schedules"
+import { describeUtmParams } from "@/lib/utm"
+
+const FIELD_LABELS: Record<string, string> = {
+  originalUrl: "Destination",
+  expiresAt: "Expires",
+  isActive: "Active",
+  isPublic: "Public analytics",
+  redirectType: "Redirect type",
+  maxClicks: "Click limit",
+  expiredRedirectUrl: "Fallback URL",
+  expiredMessage: "Expired message",
+  passwordProtected: "Password protection",
+  password: "Password",
+  passwordHash: "Password protection",
+  activatesAt: "Goes live",
+  showCountdown: "Countdown",
+  schedule: "Schedule",
+  targetingRules: "Targeting rules",
+  variants: "A/B variants",
+  trackConversions: "Conversion tracking",
+  utmParams: "UTM parameters",
+  queryPassthrough: "Query forwarding",
+  wildcard: "Wildcard paths",
+  tags: "Tags",
+}
+
+const ACTION_LABELS: Record<LinkRevisionAction, string> = {
+  create: "Created",
+  import: "Imported",
+  update: "Edited",
+  restore: "Restored",
+  delete: "Moved to trash",
+  undelete: "Restored from trash",
+  migration: "Migrated",
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/
+
+function formatValue(field: string, value: any): string {
+  if (value === null || value === undefined) return "none"
+  if (field === "schedule") return describeSchedule(value)
+  if (field === "utmParams") return describeUtmParams(value)
+  if (typeof value === "boolean") return value ? "on" : "off"
+  if (typeof value === "string" && ISO_DATE_PATTERN.test(value)) return new Date(value).toLocaleString()
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+function describeActor(revision: SerializedLinkRevision): string {
+  if (revision.actor.via === "api") return `${revision.actor.email || "API key"} (API)`
+  if (revision.actor.via === "migration") return "Data migration"
+  return revision.actor.email || revision.actor.uid
+}
+
+// Timeline of a link's revisions, with one-click restore for editors.
+// Bump refreshKey to reload after the link is changed elsewhere on the page.
+export function LinkHistory({
+  shortCode,
+  canRestore,
+  refreshKey,
+  onRestored,
+}: {
+  shortCode: string
+  canRestore: boolean
+  refreshKey: number
+  onRestored: (changes: Partial<UrlData>) => void
+}) {
+  const { toast } = useToast()
+  const [revisions, setRevisions] = useState<SerializedLinkRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const response = await authFetch(`/api/links/${shortCode}/history`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load history")
+      }
+      setRevisions(data.revisions)
+    } catch (error) {
+      console.error("❌ Error loading link history:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [shortCode])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory, refreshKey])
+
+  const restore = async (revision: SerializedLinkRevision) => {
+    setRestoringId(revision.id)
+    try {
+      const response = await authFetch(`/api/links/${shortCode}/history/${revision.id}`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to restore this version")
+      }
+
+      onRestored(linkFieldsFromResponse(data))
+      toast({ title: "Version restored", description: "Changes apply to the next redirect." })
+      await loadHistory()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore this version",
+        variant: "destructive",
+      })
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Version History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No recorded changes yet. Links created before history was added start recording on their next edit.
+          </p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+            {revisions.map((revision, index) => (
+              <li key={revision.id} className="ml-4">
+                <div className="absolute w-3 h-3 bg-blue-500 rounded-full -left-1.5 mt-1.5 border border-white" />
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="text-sm font-medium">
+                      {ACTION_LABELS[revision.action] || revision.action} by {describeActor(revision)}
+                      {index === 0 && (
+                        <span className="ml-2 text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">Current</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {revision.changedAt ? new Date(revision.changedAt).toLocaleString() : "Just now"}
+                    </div>
+                  </div>
+                  {canRestore && index > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={restoringId !== null}
+                      onClick={() => restore(revision)}
+                    >
+                      {restoringId === revision.id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                      )}
+                      Restore this version
+                    </Button>
+                  )}
+                </div>
+
+                {revision.action !== "create" && (
+                  <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                    {Object.entries(revision.changes).map(([field, change]) => (
+                      <li key={field} className="break-all">
+                        <span className="font-medium">{FIELD_LABELS[field] || field}:</span>{" "}
+                        <span className="line-through text-gray-400">{formatValue(field, change.from)}</span> →{" "}
+                        {formatValue(field, change.to)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {revision.action === "create" && (
+                  <p className="mt-2 text-xs text-gray-600 break-all">
+                    → {formatValue("originalUrl", revision.snapshot.originalUrl)}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, Trash2 } from "lucide-react"
+import {
+  COMMON_TIME_ZONES,
+  MAX_SCHEDULE_WINDOWS,
+  WEEKDAY_LABELS,
+  type LinkSchedule,
+  type ScheduleWindow,
+} from "@/lib/schedules"
+
+const DEFAULT_WINDOW: ScheduleWindow = { days: [1, 2, 3, 4, 5], start: "09:00", end: "17:00" }
+
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+}
+
+// Recurring availability windows for a link. null means the link works at any time.
+export function LinkScheduleEditor({
+  value,
+  onChange,
+}: {
+  value: LinkSchedule | null
+  onChange: (schedule: LinkSchedule | null) => void
+}) {
+  const timeZoneOptions = [...new Set([browserTimeZone(), ...(value ? [value.timeZone] : []), ...COMMON_TIME_ZONES])]
+
+  const updateWindow = (index: number, changes: Partial<ScheduleWindow>) => {
+    if (!value) return
+    onChange({
+      ...value,
+      windows: value.windows.map((window, windowIndex) => (windowIndex === index ? { ...window, ...changes } : window)),
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="schedule-enabled"
+          checked={!!value}
+          onCheckedChange={(enabled) =>
+            onChange(enabled ? { timeZone: browserTimeZone(), windows: [DEFAULT_WINDOW] } : null)
+          }
+        />
+        <label htmlFor="schedule-enabled" className="text-sm text-gray-700">
+          Only redirect at certain times
+        </label>
+      </div>
+
+      {value && (
+        <div className="space-y-3 rounded-md border p-3">
+          <Select value={value.timeZone} onValueChange={(timeZone) => onChange({ ...value, timeZone })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeZoneOptions.map((timeZone) => (
+                <SelectItem key={timeZone} value={timeZone}>
+                  {timeZone}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {value.windows.map((window, index) => (
+            <div key={index} className="space-y-2">
+              <ToggleGroup
+                type="multiple"
+                size="sm"
+                className="justify-start flex-wrap"
+                value={window.days.map(String)}
+                onValueChange={(days) => updateWindow(index, { days: days.map(Number).sort((a, b) => a - b) })}
+              >
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <ToggleGroupItem key={label} value={String(day)} className="px-2">
+                    {label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  value={window.start}
+                  onChange={(e) => updateWindow(index, { start: e.target.value })}
+                  required
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <Input
+                  type="time"
+                  value={window.end}
+                  onChange={(e) => updateWindow(index, { end: e.target.value })}
+                  required
+                />
+                {value.windows.length > 1 && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    title="Remove window"
+                    onClick={() =>
+                      onChange({ ...value, windows: value.windows.filter((_, windowIndex) => windowIndex !== index) })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {value.windows.length < MAX_SCHEDULE_WINDOWS && (
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => onChange({ ...value, windows: [...value.windows, DEFAULT_WINDOW] })}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add window
+            </Button>
+          )}
+          <p className="text-xs text-gray-500">
+            An end time before the start runs past midnight. Outside these windows visitors see a "not available"
+            page.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
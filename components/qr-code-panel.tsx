@@ -0,0 +1,188 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Download, QrCode } from "lucide-react"
+import {
+  getQrImageUrl,
+  QR_DEFAULTS,
+  QR_ERROR_LEVEL_LABELS,
+  QR_ERROR_LEVELS,
+  type QrErrorLevel,
+  type QrFormat,
+  type QrOptions,
+} from "@/lib/qr"
+
+const PREVIEW_SIZE = 256
+const DOWNLOAD_SIZES = [256, 512, 1024, 2048]
+const MARGINS = [0, 2, 4, 8]
+
+// QR code preview with style options and SVG/PNG downloads, for printing a short link
+export function QrCodePanel({ shortCode }: { shortCode: string }) {
+  const [foreground, setForeground] = useState(QR_DEFAULTS.foreground)
+  const [background, setBackground] = useState(QR_DEFAULTS.background)
+  const [level, setLevel] = useState<QrErrorLevel>(QR_DEFAULTS.level)
+  const [margin, setMargin] = useState(QR_DEFAULTS.margin)
+  const [size, setSize] = useState(QR_DEFAULTS.size)
+  const [logoInput, setLogoInput] = useState("")
+  const [logo, setLogo] = useState("")
+  const [previewFailed, setPreviewFailed] = useState(false)
+
+  const style: Partial<QrOptions> = { foreground, background, level, margin, ...(logo ? { logo } : {}) }
+  const previewUrl = getQrImageUrl(shortCode, { ...style, size: PREVIEW_SIZE })
+  const downloadUrl = (format: QrFormat) => getQrImageUrl(shortCode, { ...style, format, size }, true)
+
+  // A logo covers part of the code, which only the Q and H levels can make up for
+  const applyLogo = () => {
+    const value = logoInput.trim()
+    setLogo(value)
+    setPreviewFailed(false)
+    if (value && (level === "L" || level === "M")) setLevel("H")
+  }
+
+  return (
+    <div className="flex flex-col gap-4 sm:flex-row">
+      <div className="flex shrink-0 items-center justify-center rounded-md border bg-white p-2">
+        {previewFailed ? (
+          <p className="w-48 text-center text-xs text-red-600">
+            The QR code couldn&apos;t be generated. Check the logo URL: it must be an https link to an image.
+          </p>
+        ) : (
+          <img
+            src={previewUrl}
+            alt={`QR code for /${shortCode}`}
+            width={192}
+            height={192}
+            onError={() => setPreviewFailed(true)}
+          />
+        )}
+      </div>
+
+      <div className="flex-1 space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-600">
+            Foreground
+            <Input
+              type="color"
+              className="h-9 p-1"
+              value={foreground}
+              onChange={(e) => {
+                setForeground(e.target.value)
+                setPreviewFailed(false)
+              }}
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Background
+            <Input
+              type="color"
+              className="h-9 p-1"
+              value={background}
+              onChange={(e) => {
+                setBackground(e.target.value)
+                setPreviewFailed(false)
+              }}
+            />
+          </label>
+          <div className="text-xs text-gray-600">
+            Error correction
+            <Select value={level} onValueChange={(value) => setLevel(value as QrErrorLevel)}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QR_ERROR_LEVELS.map((option) => (
+                  <SelectItem key={option} value={option} disabled={!!logo && (option === "L" || option === "M")}>
+                    {QR_ERROR_LEVEL_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="text-xs text-gray-600">
+            Margin
+            <Select value={String(margin)} onValueChange={(value) => setMargin(Number(value))}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MARGINS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option === 0 ? "None" : `${option} modules`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Input
+          placeholder="Center logo URL (https://...)"
+          value={logoInput}
+          onChange={(e) => setLogoInput(e.target.value)}
+          onBlur={applyLogo}
+          onKeyDown={(e) => e.key === "Enter" && applyLogo()}
+        />
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={String(size)} onValueChange={(value) => setSize(Number(value))}>
+            <SelectTrigger className="h-9 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DOWNLOAD_SIZES.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}px
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" asChild>
+            <a href={downloadUrl("svg")}>
+              <Download className="h-4 w-4 mr-2" />
+              SVG
+            </a>
+          </Button>
+          <Button size="sm" variant="outline" asChild>
+            <a href={downloadUrl("png")}>
+              <Download className="h-4 w-4 mr-2" />
+              PNG
+            </a>
+          </Button>
+        </div>
+
+        <p className="text-xs text-gray-500">Scans are counted as QR scans in the link&apos;s analytics.</p>
+      </div>
+    </div>
+  )
+}
+
+// Icon button that opens the QR panel, for link lists
+export function QrCodeDialog({ shortCode }: { shortCode: string }) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" title="QR code">
+          <QrCode className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>QR code for /{shortCode}</DialogTitle>
+          <DialogDescription>Download it for posters, flyers and packaging.</DialogDescription>
+        </DialogHeader>
+        <QrCodePanel shortCode={shortCode} />
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,10 +2,17 @@
 
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Activity, TrendingUp, Clock, Zap, Wifi } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Activity, TrendingUp, Clock, Zap, Wifi, Loader2 } from "lucide-react"
+import Link from "next/link"
 import { realTimeAnalytics } from "@/lib/real-time-analytics"
+import { useWorkspace } from "@/components/workspace-provider"
+import { CampaignOverview } from "@/components/campaign-overview"
 
+// Live dashboard for the active workspace's links
 export function RealTimeDashboard() {
+  const { activeWorkspace, loading } = useWorkspace()
+  const workspaceId = activeWorkspace?.id
   const [recentClicks, setRecentClicks] = useState<any[]>([])
   const [topUrls, setTopUrls] = useState<any[]>([])
   const [isConnected, setIsConnected] = useState(false)
@@ -13,10 +20,16 @@ export function RealTimeDashboard() {
   const [lastClickTime, setLastClickTime] = useState<Date | null>(null)
 
   useEffect(() => {
+    if (!workspaceId) return
+
     console.log("📊 Setting up real-time dashboard")
+    setRecentClicks([])
+    setTopUrls([])
+    setLiveClickCount(0)
+    setLastClickTime(null)
 
     // Subscribe to dashboard data
-    const unsubscribe = realTimeAnalytics.subscribeToDashboard((data) => {
+    const unsubscribe = realTimeAnalytics.subscribeToDashboard(workspaceId, (data) => {
       console.log("📈 Dashboard data update:", {
         recentClicksCount: data.recentClicks.length,
         topUrlsCount: data.topUrls.length,
@@ -44,7 +57,30 @@ export function RealTimeDashboard() {
       unsubscribe()
       statusUnsubscribe()
     }
-  }, [])
+  }, [workspaceId])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    )
+  }
+
+  if (!activeWorkspace) {
+    return (
+      <Card>
+        <CardHeader className="text-center">
+          <CardTitle>Sign in to see your workspace dashboard</CardTitle>
+        </CardHeader>
+        <CardContent className="text-center">
+          <Link href="/login">
+            <Button>Sign in</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    )
+  }
 
   return (
     <div className="space-y-6">
@@ -126,6 +162,7 @@ export function RealTimeDashboard() {
                       <div className="text-xs text-blue-600 mt-1">
                         Source: {click.clickSource}
                         {click.clickSource === "direct" && " 🎯"}
+                        {click.qrScan && " (QR scan)"}
                       </div>
                     )}
                   </div>
@@ -171,6 +208,8 @@ export function RealTimeDashboard() {
           </CardContent>
         </Card>
       </div>
+
+      <CampaignOverview workspaceId={activeWorkspace.id} />
     </div>
   )
 }
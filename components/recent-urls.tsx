@@ -1,29 +1,51 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Copy, ExternalLink, BarChart3 } from "lucide-react"
+import { Copy, ExternalLink, BarChart3, Globe, Loader2, Trash2 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/components/auth-provider"
+import { useWorkspace } from "@/components/workspace-provider"
+import { canEditLink, subscribeToWorkspaceLinks } from "@/lib/links"
+import { authFetch } from "@/lib/auth"
+import type { UrlData } from "@/lib/analytics-clean"
+import { QrCodeDialog } from "@/components/qr-code-panel"
 
-interface ShortenedUrl {
-  shortUrl: string
-  originalUrl: string
-  shortCode: string
-  createdAt: string
-}
-
-export function RecentUrls() {
-  const [recentUrls, setRecentUrls] = useState<ShortenedUrl[]>([])
+// The active workspace's links, newest first. Renders nothing when signed out.
+export function RecentUrls({ limitCount = 10, showViewAll = true }: { limitCount?: number; showViewAll?: boolean }) {
+  const { user } = useAuth()
+  const { activeWorkspace } = useWorkspace()
+  const [links, setLinks] = useState<UrlData[]>([])
+  const [loading, setLoading] = useState(true)
+  const [origin, setOrigin] = useState("")
+  const [deleting, setDeleting] = useState<string | null>(null)
   const { toast } = useToast()
+  const canEdit = canEditLink(activeWorkspace?.role || null)
 
   useEffect(() => {
-    const stored = localStorage.getItem("recentUrls")
-    if (stored) {
-      setRecentUrls(JSON.parse(stored))
-    }
+    setOrigin(window.location.origin)
   }, [])
 
+  useEffect(() => {
+    if (!user || !activeWorkspace) {
+      setLinks([])
+      setLoading(!!user)
+      return
+    }
+
+    setLoading(true)
+    return subscribeToWorkspaceLinks(
+      activeWorkspace.id,
+      (workspaceLinks) => {
+        setLinks(workspaceLinks)
+        setLoading(false)
+      },
+      limitCount,
+    )
+  }, [user, activeWorkspace?.id, limitCount])
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text)
@@ -40,47 +62,117 @@ export function RecentUrls() {
     }
   }
 
-  if (recentUrls.length === 0) {
+  // Soft delete - the subscription drops the link once deletedAt is set
+  const moveToTrash = async (shortCode: string) => {
+    setDeleting(shortCode)
+    try {
+      const response = await authFetch(`/api/links/${shortCode}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete link")
+      }
+      toast({
+        title: "Moved to trash",
+        description: `/${shortCode} can be restored from the trash until ${new Date(data.purgeAt).toLocaleDateString()}.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete link",
+        variant: "destructive",
+      })
+    } finally {
+      setDeleting(null)
+    }
+  }
+
+  if (!user) {
     return null
   }
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Recent URLs</CardTitle>
+        <div className="flex items-center justify-between">
+          <CardTitle>{activeWorkspace?.personal === false ? `${activeWorkspace.name} Links` : "My Links"}</CardTitle>
+          {showViewAll && links.length > 0 && (
+            <Link href="/links" className="text-sm text-blue-600 hover:text-blue-800">
+              View all
+            </Link>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
-        <div className="space-y-4">
-          {recentUrls.map((item, index) => (
-            <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2 mb-1">
-                  <a
-                    href={item.shortUrl}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-600 hover:text-blue-800 font-medium"
-                  >
-                    {item.shortUrl}
-                  </a>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No links in this workspace yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {links.map((item) => {
+              const shortUrl = `${origin}/${item.shortCode}`
+              return (
+                <div key={item.shortCode} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <a
+                        href={shortUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        {shortUrl}
+                      </a>
+                      {item.isPublic && (
+                        <span className="flex items-center gap-1 text-xs text-gray-500">
+                          <Globe className="h-3 w-3" />
+                          Public analytics
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 truncate">{item.originalUrl}</p>
+                    <p className="text-xs text-gray-500">
+                      Created {item.createdAt?.toDate?.()?.toLocaleDateString() || "just now"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 ml-4">
+                    <Button size="sm" variant="ghost" onClick={() => copyToClipboard(shortUrl)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => window.open(shortUrl, "_blank")}>
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                    <QrCodeDialog shortCode={item.shortCode} />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => window.open(`/analytics/${item.shortCode}`, "_blank")}
+                    >
+                      <BarChart3 className="h-4 w-4" />
+                    </Button>
+                    {canEdit && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Move to trash"
+                        disabled={deleting === item.shortCode}
+                        onClick={() => moveToTrash(item.shortCode)}
+                      >
+                        {deleting === item.shortCode ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
                 </div>
-                <p className="text-sm text-gray-600 truncate">{item.originalUrl}</p>
-                <p className="text-xs text-gray-500">Created {new Date(item.createdAt).toLocaleDateString()}</p>
-              </div>
-              <div className="flex items-center gap-1 ml-4">
-                <Button size="sm" variant="ghost" onClick={() => copyToClipboard(item.shortUrl)}>
-                  <Copy className="h-4 w-4" />
-                </Button>
-                <Button size="sm" variant="ghost" onClick={() => window.open(item.shortUrl, "_blank")}>
-                  <ExternalLink className="h-4 w-4" />
-                </Button>
-                <Button size="sm" variant="ghost" onClick={() => window.open(`/analytics/${item.shortCode}`, "_blank")}>
-                  <BarChart3 className="h-4 w-4" />
-                </Button>
-              </div>
-            </div>
-          ))}
-        </div>
+              )
+            })}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
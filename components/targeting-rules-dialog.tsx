@@ -0,0 +1,236 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { ArrowDown, ArrowUp, Crosshair, Loader2, Plus, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { authFetch } from "@/lib/auth"
+import { linkFieldsFromResponse } from "@/lib/links"
+import {
+  BROWSER_LABELS,
+  DEVICE_LABELS,
+  MAX_TARGETING_RULES,
+  OS_LABELS,
+  TARGETING_LABEL_MAX_LENGTH,
+  type TargetingConditions,
+  type TargetingRule,
+} from "@/lib/targeting"
+import type { UrlData } from "@/lib/analytics-clean"
+
+// One multi-select row per condition type; an empty selection means "any"
+const CONDITION_ROWS: {
+  key: Exclude<keyof TargetingConditions, "countries">
+  title: string
+  labels: Record<string, string>
+}[] = [
+  { key: "os", title: "Operating system", labels: OS_LABELS },
+  { key: "devices", title: "Device", labels: DEVICE_LABELS },
+  { key: "browsers", title: "Browser", labels: BROWSER_LABELS },
+]
+
+function emptyRule(): TargetingRule {
+  return { id: "", url: "", conditions: {} }
+}
+
+// "de, at" -> ["DE", "AT"]; partial entries are kept while typing and dropped on save
+function parseCountries(input: string): string[] {
+  return input.split(/[\s,]+/).map((code) => code.toUpperCase())
+}
+
+// Edit a link's device/platform/country rules. Rules are checked top to bottom and the first match wins.
+export function TargetingRulesDialog({
+  urlData,
+  onSaved,
+}: {
+  urlData: UrlData
+  onSaved: (changes: Partial<UrlData>) => void
+}) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [rules, setRules] = useState<TargetingRule[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setRules(urlData.targetingRules || [])
+    }
+  }, [open, urlData])
+
+  const updateRule = (index: number, changes: Partial<TargetingRule>) => {
+    setRules((previous) => previous.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...changes } : rule)))
+  }
+
+  const moveRule = (index: number, offset: number) => {
+    setRules((previous) => {
+      const next = [...previous]
+      const [rule] = next.splice(index, 1)
+      next.splice(index + offset, 0, rule)
+      return next
+    })
+  }
+
+  const save = async () => {
+    setIsSubmitting(true)
+    try {
+      const response = await authFetch(`/api/links/${urlData.shortCode}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          targetingRules: rules.map((rule) => ({
+            ...rule,
+            id: rule.id || undefined,
+            url: rule.url.trim(),
+            conditions: { ...rule.conditions, countries: rule.conditions.countries?.filter(Boolean) },
+          })),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save targeting rules")
+      }
+
+      onSaved(linkFieldsFromResponse(data))
+      toast({ title: "Targeting rules saved", description: "Changes apply to the next redirect." })
+      setOpen(false)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save targeting rules",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Crosshair className="h-4 w-4 mr-2" />
+          Targeting
+          {urlData.targetingRules?.length ? ` (${urlData.targetingRules.length})` : ""}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Targeting rules for /{urlData.shortCode}</DialogTitle>
+          <DialogDescription>
+            Send visitors from specific countries, devices or browsers somewhere else. Rules are checked from the
+            top and the first match wins; everyone else, including visitors whose country can't be determined, goes
+            to {urlData.originalUrl}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {rules.length === 0 && <p className="text-sm text-gray-500 text-center py-4">No targeting rules yet.</p>}
+
+          {rules.map((rule, index) => (
+            <div key={rule.id || `new-${index}`} className="space-y-3 rounded-md border p-3">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-500">#{index + 1}</span>
+                <Input
+                  placeholder="Label (optional), e.g. App Store"
+                  maxLength={TARGETING_LABEL_MAX_LENGTH}
+                  value={rule.label || ""}
+                  onChange={(e) => updateRule(index, { label: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  title="Move up"
+                  disabled={index === 0}
+                  onClick={() => moveRule(index, -1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  title="Move down"
+                  disabled={index === rules.length - 1}
+                  onClick={() => moveRule(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  title="Remove rule"
+                  onClick={() => setRules((previous) => previous.filter((_, ruleIndex) => ruleIndex !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div>
+                <div className="text-xs font-medium text-gray-600 mb-1">Countries</div>
+                <Input
+                  placeholder="Two-letter codes, e.g. DE, AT, CH (empty = any country)"
+                  value={rule.conditions.countries?.join(", ") || ""}
+                  onChange={(e) =>
+                    updateRule(index, { conditions: { ...rule.conditions, countries: parseCountries(e.target.value) } })
+                  }
+                />
+              </div>
+
+              {CONDITION_ROWS.map(({ key, title, labels }) => (
+                <div key={key}>
+                  <div className="text-xs font-medium text-gray-600 mb-1">{title}</div>
+                  <ToggleGroup
+                    type="multiple"
+                    size="sm"
+                    className="justify-start flex-wrap"
+                    value={(rule.conditions[key] as string[] | undefined) || []}
+                    onValueChange={(values) => updateRule(index, { conditions: { ...rule.conditions, [key]: values } })}
+                  >
+                    {Object.entries(labels).map(([value, label]) => (
+                      <ToggleGroupItem key={value} value={value} className="px-2 text-xs">
+                        {label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+              ))}
+
+              <Input
+                type="url"
+                placeholder="Destination for matching visitors"
+                value={rule.url}
+                onChange={(e) => updateRule(index, { url: e.target.value })}
+              />
+            </div>
+          ))}
+
+          {rules.length < MAX_TARGETING_RULES && (
+            <Button type="button" variant="outline" size="sm" onClick={() => setRules([...rules, emptyRule()])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add rule
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={save} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save rules
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
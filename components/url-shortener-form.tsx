@@ -2,51 +2,164 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Copy, ExternalLink, Loader2 } from "lucide-react"
+import { CheckCircle, Copy, ExternalLink, Loader2, XCircle } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { validateAlias } from "@/lib/short-codes"
+import { authFetch } from "@/lib/auth"
+import { useAuth } from "@/components/auth-provider"
+import { useWorkspace } from "@/components/workspace-provider"
+import { hasRole } from "@/lib/workspaces"
+import { LINK_PASSWORD_MAX_LENGTH, LINK_PASSWORD_MIN_LENGTH } from "@/lib/links"
+import {
+  EXPIRED_MESSAGE_MAX_LENGTH,
+  EXPIRY_PRESETS,
+  describeExpiryDays,
+  getDefaultExpiryDays,
+} from "@/lib/expiration"
+import { format } from "date-fns"
+import { UtmFieldsEditor } from "@/components/utm-fields-editor"
+import { QrCodePanel } from "@/components/qr-code-panel"
+import { hasUtmParams, normalizeUtmParams, type UtmParams } from "@/lib/utm"
 
 interface ShortenedUrl {
   shortUrl: string
   originalUrl: string
   shortCode: string
   createdAt: string
+  expiresAt: string | null
 }
 
+// Expiry choice: the workspace default, one of EXPIRY_PRESETS (by index) or a custom date
+type ExpiryChoice = "default" | "custom" | `preset-${number}`
+
+type AliasStatus =
+  | { state: "idle" }
+  | { state: "checking" }
+  | { state: "available" }
+  | { state: "unavailable"; reason: string }
+
 export function UrlShortenerForm() {
   const [url, setUrl] = useState("")
+  const [alias, setAlias] = useState("")
+  const [aliasStatus, setAliasStatus] = useState<AliasStatus>({ state: "idle" })
+  const [isPublic, setIsPublic] = useState(false)
+  const [expiryChoice, setExpiryChoice] = useState<ExpiryChoice>("default")
+  const [customExpiresAt, setCustomExpiresAt] = useState("")
+  const [maxClicks, setMaxClicks] = useState("")
+  const [expiredRedirectUrl, setExpiredRedirectUrl] = useState("")
+  const [expiredMessage, setExpiredMessage] = useState("")
+  const [password, setPassword] = useState("")
+  const [activatesAt, setActivatesAt] = useState("")
+  const [showCountdown, setShowCountdown] = useState(false)
+  const [showUtm, setShowUtm] = useState(false)
+  const [utmParams, setUtmParams] = useState<UtmParams>({})
   const [isLoading, setIsLoading] = useState(false)
   const [shortenedUrl, setShortenedUrl] = useState<ShortenedUrl | null>(null)
+  const [host, setHost] = useState("")
   const { toast } = useToast()
+  const { user, loading: authLoading } = useAuth()
+  const { activeWorkspace } = useWorkspace()
+  const canCreate = !!activeWorkspace && hasRole(activeWorkspace.role, "editor")
+  const workspaceDefaultExpiry = describeExpiryDays(getDefaultExpiryDays(activeWorkspace?.defaultExpiryDays))
+
+  useEffect(() => {
+    setHost(window.location.host)
+  }, [])
+
+  // Live availability check for the custom back-half (debounced)
+  useEffect(() => {
+    const trimmed = alias.trim()
+    if (!trimmed) {
+      setAliasStatus({ state: "idle" })
+      return
+    }
+
+    const validationError = validateAlias(trimmed)
+    if (validationError) {
+      setAliasStatus({ state: "unavailable", reason: validationError })
+      return
+    }
+
+    setAliasStatus({ state: "checking" })
+    let cancelled = false
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await authFetch(`/api/aliases/${encodeURIComponent(trimmed)}`)
+        const data = await response.json()
+        if (cancelled) return
+
+        setAliasStatus(
+          data.available ? { state: "available" } : { state: "unavailable", reason: data.reason || "Unavailable" },
+        )
+      } catch (error) {
+        if (!cancelled) setAliasStatus({ state: "idle" })
+      }
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [alias])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!url.trim()) return
+    if (!url.trim() || !user || !activeWorkspace) return
+    if (aliasStatus.state === "unavailable") return
+
+    // Leaving expiry on "default" lets the server apply the workspace's policy
+    const expiry: Record<string, unknown> = {}
+    if (expiryChoice === "custom") {
+      expiry.expiresAt = customExpiresAt ? new Date(customExpiresAt).toISOString() : null
+    } else if (expiryChoice !== "default") {
+      const preset = EXPIRY_PRESETS[Number(expiryChoice.replace("preset-", ""))]
+      if (preset.seconds === null) {
+        expiry.expiresAt = null
+      } else {
+        expiry.expiresIn = preset.seconds
+      }
+    }
 
     setIsLoading(true)
     try {
-      const response = await fetch("/api/shorten", {
+      const response = await authFetch("/api/shorten", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ url: url.trim() }),
+        body: JSON.stringify({
+          url: url.trim(),
+          alias: alias.trim() || undefined,
+          isPublic,
+          ...expiry,
+          maxClicks: maxClicks ? Number(maxClicks) : undefined,
+          expiredRedirectUrl: expiredRedirectUrl.trim() || undefined,
+          expiredMessage: expiredMessage.trim() || undefined,
+          password: password || undefined,
+          activatesAt: activatesAt ? new Date(activatesAt).toISOString() : undefined,
+          showCountdown: activatesAt ? showCountdown : undefined,
+          utmParams: showUtm && hasUtmParams(normalizeUtmParams(utmParams)) ? normalizeUtmParams(utmParams) : undefined,
+          workspaceId: activeWorkspace.id,
+        }),
       })
 
+      const data = await response.json()
+
       if (!response.ok) {
-        throw new Error("Failed to shorten URL")
+        throw new Error(data.error || "Failed to shorten URL")
       }
 
-      const data = await response.json()
       setShortenedUrl(data)
-
-      // Store in localStorage for recent URLs
-      const recentUrls = JSON.parse(localStorage.getItem("recentUrls") || "[]")
-      recentUrls.unshift(data)
-      localStorage.setItem("recentUrls", JSON.stringify(recentUrls.slice(0, 10)))
+      setAlias("")
+      setPassword("")
 
       toast({
         title: "URL shortened successfully!",
@@ -55,7 +168,7 @@ export function UrlShortenerForm() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to shorten URL. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to shorten URL. Please try again.",
         variant: "destructive",
       })
     } finally {
@@ -85,25 +198,195 @@ export function UrlShortenerForm() {
         <CardTitle className="text-center">Shorten Your URL</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <form onSubmit={handleSubmit} className="flex gap-2">
-          <Input
-            type="url"
-            placeholder="Enter your long URL here..."
-            value={url}
-            onChange={(e) => setUrl(e.target.value)}
-            className="flex-1"
-            required
-          />
-          <Button type="submit" disabled={isLoading}>
-            {isLoading ? (
-              <>
-                <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                Shortening...
-              </>
-            ) : (
-              "Shorten"
+        {!authLoading && !user && (
+          <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-700">
+            <Link href="/login" className="font-medium underline">
+              Sign in
+            </Link>{" "}
+            to shorten links and find them again from any device.
+          </div>
+        )}
+        {user && activeWorkspace && !canCreate && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-700">
+            You are a viewer in {activeWorkspace.name}. Ask an admin for the editor role to create links here.
+          </div>
+        )}
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              type="url"
+              placeholder="Enter your long URL here..."
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              className="flex-1"
+              required
+            />
+            <Button
+              type="submit"
+              disabled={
+                isLoading || !canCreate || aliasStatus.state === "checking" || aliasStatus.state === "unavailable"
+              }
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Shortening...
+                </>
+              ) : (
+                "Shorten"
+              )}
+            </Button>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">Custom back-half (optional):</label>
+            <div className="flex items-center gap-2 mt-1">
+              <span className="text-sm text-gray-500 whitespace-nowrap">
+                {host}/
+              </span>
+              <Input
+                placeholder="spring-sale"
+                value={alias}
+                onChange={(e) => setAlias(e.target.value)}
+                className="flex-1"
+              />
+              {aliasStatus.state === "checking" && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+              {aliasStatus.state === "available" && <CheckCircle className="h-4 w-4 text-green-600" />}
+              {aliasStatus.state === "unavailable" && <XCircle className="h-4 w-4 text-red-600" />}
+            </div>
+            {aliasStatus.state === "available" && <p className="text-xs text-green-600 mt-1">Available!</p>}
+            {aliasStatus.state === "unavailable" && <p className="text-xs text-red-600 mt-1">{aliasStatus.reason}</p>}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="public-analytics" checked={isPublic} onCheckedChange={setIsPublic} />
+            <label htmlFor="public-analytics" className="text-sm text-gray-700">
+              Anyone with the link can view analytics
+            </label>
+          </div>
+
+          <div>
+            <label htmlFor="link-password" className="text-sm font-medium text-gray-700">
+              Password (optional):
+            </label>
+            <Input
+              id="link-password"
+              type="password"
+              autoComplete="new-password"
+              placeholder="Visitors must enter this before they are redirected"
+              className="mt-1"
+              minLength={LINK_PASSWORD_MIN_LENGTH}
+              maxLength={LINK_PASSWORD_MAX_LENGTH}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="activates-at" className="text-sm font-medium text-gray-700">
+              Goes live (optional):
+            </label>
+            <div className="flex flex-wrap items-center gap-3 mt-1">
+              <Input
+                id="activates-at"
+                type="datetime-local"
+                className="w-auto"
+                min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+                value={activatesAt}
+                onChange={(e) => setActivatesAt(e.target.value)}
+              />
+              {activatesAt && (
+                <div className="flex items-center gap-2">
+                  <Switch id="show-countdown" checked={showCountdown} onCheckedChange={setShowCountdown} />
+                  <label htmlFor="show-countdown" className="text-sm text-gray-700">
+                    Show a countdown until then
+                  </label>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Switch id="utm-enabled" checked={showUtm} onCheckedChange={setShowUtm} />
+              <label htmlFor="utm-enabled" className="text-sm text-gray-700">
+                Add UTM parameters for campaign tracking
+              </label>
+            </div>
+            {showUtm && activeWorkspace && (
+              <UtmFieldsEditor
+                workspaceId={activeWorkspace.id}
+                value={utmParams}
+                onChange={setUtmParams}
+                destinationUrl={url}
+                canSavePresets={canCreate}
+              />
             )}
-          </Button>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Expires:</label>
+              <Select value={expiryChoice} onValueChange={(value) => setExpiryChoice(value as ExpiryChoice)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Workspace default ({workspaceDefaultExpiry})</SelectItem>
+                  {EXPIRY_PRESETS.map((preset, index) => (
+                    <SelectItem key={preset.label} value={`preset-${index}`}>
+                      {preset.seconds === null ? preset.label : `In ${preset.label}`}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">On a date...</SelectItem>
+                </SelectContent>
+              </Select>
+              {expiryChoice === "custom" && (
+                <Input
+                  type="datetime-local"
+                  className="mt-2"
+                  value={customExpiresAt}
+                  min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+                  onChange={(e) => setCustomExpiresAt(e.target.value)}
+                  required
+                />
+              )}
+            </div>
+            <div>
+              <label htmlFor="max-clicks" className="text-sm font-medium text-gray-700">
+                Expire after clicks (optional):
+              </label>
+              <Input
+                id="max-clicks"
+                type="number"
+                min={1}
+                step={1}
+                placeholder="No click limit"
+                className="mt-1"
+                value={maxClicks}
+                onChange={(e) => setMaxClicks(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">After expiry (optional):</label>
+            <div className="grid gap-2 mt-1 sm:grid-cols-2">
+              <Input
+                type="url"
+                placeholder="Fallback URL"
+                value={expiredRedirectUrl}
+                onChange={(e) => setExpiredRedirectUrl(e.target.value)}
+              />
+              <Input
+                placeholder="Or a custom expired message"
+                maxLength={EXPIRED_MESSAGE_MAX_LENGTH}
+                value={expiredMessage}
+                onChange={(e) => setExpiredMessage(e.target.value)}
+                disabled={!!expiredRedirectUrl.trim()}
+              />
+            </div>
+          </div>
         </form>
 
         {shortenedUrl && (
@@ -125,6 +408,17 @@ export function UrlShortenerForm() {
                 <label className="text-sm font-medium text-gray-700">Original URL:</label>
                 <p className="text-sm text-gray-600 mt-1 break-all">{shortenedUrl.originalUrl}</p>
               </div>
+              <p className="text-xs text-gray-500">
+                {shortenedUrl.expiresAt
+                  ? `Expires ${new Date(shortenedUrl.expiresAt).toLocaleString()}`
+                  : "This link never expires by date."}
+              </p>
+              <div>
+                <label className="text-sm font-medium text-gray-700">QR code:</label>
+                <div className="mt-1">
+                  <QrCodePanel shortCode={shortenedUrl.shortCode} />
+                </div>
+              </div>
             </div>
           </div>
         )}
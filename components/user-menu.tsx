@@ -0,0 +1,49 @@
+"use client"
+
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { KeyRound, List, LogIn, LogOut } from "lucide-react"
+import { useAuth } from "@/components/auth-provider"
+import { WorkspaceSwitcher } from "@/components/workspace-switcher"
+import { signOut } from "@/lib/auth"
+
+export function UserMenu() {
+  const { user, loading } = useAuth()
+
+  if (loading) {
+    return null
+  }
+
+  if (!user) {
+    return (
+      <Link href="/login">
+        <Button variant="outline" size="sm" className="bg-transparent">
+          <LogIn className="h-4 w-4 mr-2" />
+          Sign in
+        </Button>
+      </Link>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap justify-end">
+      <WorkspaceSwitcher />
+      <span className="text-sm text-gray-600 hidden sm:inline">{user.email || user.displayName}</span>
+      <Link href="/links">
+        <Button variant="outline" size="sm" className="bg-transparent">
+          <List className="h-4 w-4 mr-2" />
+          Links
+        </Button>
+      </Link>
+      <Link href="/settings/api-keys">
+        <Button variant="ghost" size="sm" title="API keys">
+          <KeyRound className="h-4 w-4" />
+        </Button>
+      </Link>
+      <Button variant="ghost" size="sm" onClick={() => signOut()}>
+        <LogOut className="h-4 w-4 mr-2" />
+        Sign out
+      </Button>
+    </div>
+  )
+}
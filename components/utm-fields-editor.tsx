@@ -0,0 +1,154 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Save } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { authFetch } from "@/lib/auth"
+import { UTM_PRESET_NAME_MAX_LENGTH } from "@/lib/campaigns"
+import {
+  applyUtmParams,
+  hasUtmParams,
+  normalizeUtmParams,
+  UTM_FIELD_LABELS,
+  UTM_FIELD_PLACEHOLDERS,
+  UTM_FIELDS,
+  UTM_VALUE_MAX_LENGTH,
+  type UtmParams,
+} from "@/lib/utm"
+
+interface PresetRow {
+  id: string
+  name: string
+  params: UtmParams
+}
+
+// UTM builder: the five UTM fields, the workspace's presets and a preview of where visitors end up
+export function UtmFieldsEditor({
+  workspaceId,
+  value,
+  onChange,
+  destinationUrl,
+  canSavePresets,
+}: {
+  workspaceId: string
+  value: UtmParams
+  onChange: (params: UtmParams) => void
+  destinationUrl: string
+  canSavePresets: boolean
+}) {
+  const { toast } = useToast()
+  const [presets, setPresets] = useState<PresetRow[]>([])
+  const [presetName, setPresetName] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const loadPresets = useCallback(async () => {
+    try {
+      const response = await authFetch(`/api/workspaces/${workspaceId}/utm-presets`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load UTM presets")
+      }
+      setPresets(data.presets)
+    } catch (error) {
+      console.error("❌ Error loading UTM presets:", error)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadPresets()
+  }, [loadPresets])
+
+  const savePreset = async () => {
+    setSaving(true)
+    try {
+      const response = await authFetch(`/api/workspaces/${workspaceId}/utm-presets`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: presetName, params: normalizeUtmParams(value) }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save preset")
+      }
+      setPresetName("")
+      await loadPresets()
+      toast({ title: "Preset saved", description: `"${data.name}" is available to everyone in the workspace.` })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save preset",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const preview = destinationUrl.trim() ? applyUtmParams(destinationUrl.trim(), normalizeUtmParams(value)) : ""
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      {presets.length > 0 && (
+        <Select
+          value=""
+          onValueChange={(presetId) => {
+            const preset = presets.find((candidate) => candidate.id === presetId)
+            if (preset) onChange(preset.params)
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Start from a preset..." />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map((preset) => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {UTM_FIELDS.map((field) => (
+          <div key={field}>
+            <label htmlFor={`utm-${field}`} className="text-xs text-gray-600">
+              {UTM_FIELD_LABELS[field]} ({field})
+            </label>
+            <Input
+              id={`utm-${field}`}
+              placeholder={UTM_FIELD_PLACEHOLDERS[field]}
+              maxLength={UTM_VALUE_MAX_LENGTH}
+              value={value[field] || ""}
+              onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+
+      {preview && hasUtmParams(normalizeUtmParams(value)) && (
+        <p className="text-xs text-gray-500 break-all">
+          Visitors go to: <span className="text-gray-700">{preview}</span>
+        </p>
+      )}
+
+      {canSavePresets && hasUtmParams(normalizeUtmParams(value)) && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="Preset name"
+            maxLength={UTM_PRESET_NAME_MAX_LENGTH}
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+          />
+          <Button type="button" variant="outline" onClick={savePreset} disabled={saving || !presetName.trim()}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+            Save as preset
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
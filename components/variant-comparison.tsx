@@ -0,0 +1,87 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { describeVariant, variantShare, type LinkVariant } from "@/lib/variants"
+
+const VARIANT_COLORS = [
+  "hsl(221, 83%, 53%)",
+  "hsl(142, 71%, 45%)",
+  "hsl(25, 95%, 53%)",
+  "hsl(271, 81%, 56%)",
+  "hsl(346, 77%, 50%)",
+]
+
+// Clicks per A/B variant over the selected range, next to each variant's configured share.
+// Variants that were removed from the test but still have clicks in the range are listed too.
+export function VariantComparison({
+  variants,
+  series,
+  counts,
+}: {
+  variants: LinkVariant[]
+  series: { label: string; variants: Record<string, number> }[]
+  counts: Record<string, number>
+}) {
+  const removedIds = Object.keys(counts).filter(
+    (id) => counts[id] > 0 && !variants.some((variant) => variant.id === id),
+  )
+  const rows = [
+    ...variants.map((variant) => ({ id: variant.id, label: describeVariant(variant, variants), variant })),
+    ...removedIds.map((id) => ({ id, label: `Removed variant (${id})`, variant: null })),
+  ]
+  const totalClicks = rows.reduce((total, row) => total + (counts[row.id] || 0), 0)
+
+  const chartConfig = Object.fromEntries(
+    rows.map((row, index) => [row.id, { label: row.label, color: VARIANT_COLORS[index % VARIANT_COLORS.length] }]),
+  ) satisfies ChartConfig
+  const chartData = series.map((point) => ({
+    label: point.label,
+    ...Object.fromEntries(rows.map((row) => [row.id, point.variants[row.id] || 0])),
+  }))
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-medium text-gray-700">A/B Test</h4>
+
+      <ChartContainer config={chartConfig} className="h-56 w-full">
+        <LineChart data={chartData}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          {rows.map((row) => (
+            <Line key={row.id} dataKey={row.id} stroke={`var(--color-${row.id})`} strokeWidth={2} dot={false} />
+          ))}
+        </LineChart>
+      </ChartContainer>
+
+      <div className="space-y-1">
+        {rows.map((row) => {
+          const clicks = counts[row.id] || 0
+          return (
+            <div key={row.id} className="grid grid-cols-4 gap-2 items-center p-2 bg-gray-50 rounded text-sm">
+              <span className="truncate col-span-2" title={row.variant?.url}>
+                {row.label}
+              </span>
+              <span className="text-gray-500">
+                {row.variant ? `${variantShare(row.variant, variants)}% of traffic` : "Not in the test"}
+              </span>
+              <span className="text-right text-gray-600">
+                {clicks} clicks ({totalClicks > 0 ? Math.round((clicks / totalClicks) * 100) : 0}%)
+              </span>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { FlaskConical, Loader2, Plus, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { authFetch } from "@/lib/auth"
+import { linkFieldsFromResponse } from "@/lib/links"
+import {
+  MAX_LINK_VARIANTS,
+  MAX_VARIANT_WEIGHT,
+  VARIANT_LABEL_MAX_LENGTH,
+  variantShare,
+  type LinkVariant,
+} from "@/lib/variants"
+import type { UrlData } from "@/lib/analytics-clean"
+
+// Set up or edit a link's A/B test. Saving an empty list ends the test.
+export function VariantsDialog({
+  urlData,
+  onSaved,
+}: {
+  urlData: UrlData
+  onSaved: (changes: Partial<UrlData>) => void
+}) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [variants, setVariants] = useState<LinkVariant[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setVariants(urlData.variants || [])
+    }
+  }, [open, urlData])
+
+  const updateVariant = (index: number, changes: Partial<LinkVariant>) => {
+    setVariants((previous) =>
+      previous.map((variant, variantIndex) => (variantIndex === index ? { ...variant, ...changes } : variant)),
+    )
+  }
+
+  // A new test starts as a 50/50 split between the current destination and a new one
+  const startTest = () => {
+    setVariants([
+      { id: "", url: urlData.originalUrl, weight: 50 },
+      { id: "", url: "", weight: 50 },
+    ])
+  }
+
+  const save = async () => {
+    setIsSubmitting(true)
+    try {
+      const response = await authFetch(`/api/links/${urlData.shortCode}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variants: variants.map((variant) => ({ ...variant, id: variant.id || undefined, url: variant.url.trim() })),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save A/B test")
+      }
+
+      onSaved(linkFieldsFromResponse(data))
+      toast({
+        title: variants.length > 0 ? "A/B test saved" : "A/B test ended",
+        description: "Changes apply to the next redirect.",
+      })
+      setOpen(false)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save A/B test",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FlaskConical className="h-4 w-4 mr-2" />
+          A/B test
+          {urlData.variants?.length ? ` (${urlData.variants.length})` : ""}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>A/B test for /{urlData.shortCode}</DialogTitle>
+          <DialogDescription>
+            Split visitors between destinations by weight. Each visitor keeps their variant on later visits, and
+            visitors sent elsewhere by a targeting rule aren't part of the test.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {variants.length === 0 && (
+            <div className="text-center py-4 space-y-2">
+              <p className="text-sm text-gray-500">Every visitor goes to {urlData.originalUrl}.</p>
+              <Button type="button" variant="outline" size="sm" onClick={startTest}>
+                <FlaskConical className="h-4 w-4 mr-2" />
+                Start an A/B test
+              </Button>
+            </div>
+          )}
+
+          {variants.map((variant, index) => (
+            <div key={variant.id || `new-${index}`} className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-500 whitespace-nowrap">
+                  {String.fromCharCode(65 + index)}
+                </span>
+                <Input
+                  placeholder="Label (optional), e.g. New landing page"
+                  maxLength={VARIANT_LABEL_MAX_LENGTH}
+                  value={variant.label || ""}
+                  onChange={(e) => updateVariant(index, { label: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  className="w-20"
+                  min={1}
+                  max={MAX_VARIANT_WEIGHT}
+                  title="Weight"
+                  value={variant.weight}
+                  onChange={(e) => updateVariant(index, { weight: Number(e.target.value) })}
+                />
+                <span className="text-sm text-gray-500 w-12 text-right">{variantShare(variant, variants)}%</span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  title="Remove variant"
+                  onClick={() =>
+                    setVariants((previous) => previous.filter((_, variantIndex) => variantIndex !== index))
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Input
+                type="url"
+                placeholder="Destination for this variant"
+                value={variant.url}
+                onChange={(e) => updateVariant(index, { url: e.target.value })}
+              />
+            </div>
+          ))}
+
+          {variants.length > 0 && variants.length < MAX_LINK_VARIANTS && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setVariants([...variants, { id: "", url: "", weight: 50 }])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add variant
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter>
+          {urlData.variants?.length ? (
+            <Button variant="outline" onClick={() => setVariants([])} disabled={isSubmitting || variants.length === 0}>
+              Remove all variants
+            </Button>
+          ) : null}
+          <Button onClick={save} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {variants.length === 0 && urlData.variants?.length ? "End test" : "Save test"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,308 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Copy, Loader2, Trash2, Users } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/components/auth-provider"
+import { useWorkspace, type WorkspaceSummary } from "@/components/workspace-provider"
+import { authFetch } from "@/lib/auth"
+import { canManageRole, hasRole, ROLE_DESCRIPTIONS, WORKSPACE_ROLES, type WorkspaceRole } from "@/lib/workspaces"
+
+interface MemberRow {
+  uid: string
+  email?: string
+  displayName?: string
+  role: WorkspaceRole
+  joinedAt: string | null
+}
+
+interface InvitationRow {
+  token: string
+  email: string
+  role: WorkspaceRole
+  createdAt: string | null
+}
+
+function RoleSelect({
+  value,
+  actorRole,
+  disabled,
+  onChange,
+}: {
+  value: WorkspaceRole
+  actorRole: WorkspaceRole
+  disabled?: boolean
+  onChange: (role: WorkspaceRole) => void
+}) {
+  return (
+    <Select value={value} disabled={disabled} onValueChange={(role) => onChange(role as WorkspaceRole)}>
+      <SelectTrigger className="w-28 h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {WORKSPACE_ROLES.filter((role) => canManageRole(actorRole, role)).map((role) => (
+          <SelectItem key={role} value={role}>
+            {role}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+// Members table, role management and invitations for one workspace
+export function WorkspaceMembersDialog({ workspace }: { workspace: WorkspaceSummary }) {
+  const { user } = useAuth()
+  const { refreshWorkspaces } = useWorkspace()
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [members, setMembers] = useState<MemberRow[]>([])
+  const [invitations, setInvitations] = useState<InvitationRow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("viewer")
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null)
+
+  const actorRole = workspace.role
+  const canManage = hasRole(actorRole, "admin")
+
+  const loadMembers = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await authFetch(`/api/workspaces/${workspace.id}/members`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load members")
+      }
+      setMembers(data.members)
+      setInvitations(data.invitations)
+    } catch (error) {
+      console.error("❌ Error loading members:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [workspace.id])
+
+  useEffect(() => {
+    if (open) {
+      setInviteUrl(null)
+      loadMembers()
+    }
+  }, [open, loadMembers])
+
+  // Run a membership request, then reload the table
+  const mutate = async (path: string, init: RequestInit) => {
+    setBusy(true)
+    try {
+      const response = await authFetch(`/api/workspaces/${workspace.id}${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed")
+      }
+      await loadMembers()
+      return data
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Request failed",
+        variant: "destructive",
+      })
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!inviteEmail.trim()) return
+
+    const data = await mutate("/invitations", {
+      method: "POST",
+      body: JSON.stringify({ email: inviteEmail.trim(), role: inviteRole }),
+    })
+    if (data) {
+      setInviteEmail("")
+      setInviteUrl(data.inviteUrl)
+    }
+  }
+
+  const handleRemove = async (member: MemberRow) => {
+    const isSelf = member.uid === user?.uid
+    const data = await mutate(`/members/${member.uid}`, { method: "DELETE" })
+    if (data && isSelf) {
+      setOpen(false)
+      await refreshWorkspaces()
+    }
+  }
+
+  const copyInviteUrl = async () => {
+    if (!inviteUrl) return
+    await navigator.clipboard.writeText(inviteUrl)
+    toast({ title: "Copied!", description: "Invitation link copied to clipboard." })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="bg-transparent">
+          <Users className="h-4 w-4 mr-2" />
+          Members
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{workspace.name} members</DialogTitle>
+          <DialogDescription>
+            Your role: <span className="capitalize">{actorRole}</span> - {ROLE_DESCRIPTIONS[actorRole]}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => {
+                  const isSelf = member.uid === user?.uid
+                  const canEditMember = !isSelf && canManageRole(actorRole, member.role)
+                  return (
+                    <TableRow key={member.uid}>
+                      <TableCell>
+                        <div className="font-medium">{member.displayName || member.email || member.uid}</div>
+                        {member.displayName && member.email && (
+                          <div className="text-xs text-gray-500">{member.email}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {canEditMember ? (
+                          <RoleSelect
+                            value={member.role}
+                            actorRole={actorRole}
+                            disabled={busy}
+                            onChange={(role) =>
+                              mutate(`/members/${member.uid}`, { method: "PATCH", body: JSON.stringify({ role }) })
+                            }
+                          />
+                        ) : (
+                          <span className="text-sm capitalize">
+                            {member.role}
+                            {isSelf && " (you)"}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {(canEditMember || (isSelf && !workspace.personal)) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={busy}
+                            title={isSelf ? "Leave workspace" : "Remove member"}
+                            onClick={() => handleRemove(member)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+
+            {canManage && (
+              <>
+                <form onSubmit={handleInvite} className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">Invite someone:</label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="email"
+                      placeholder="teammate@example.com"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      className="flex-1"
+                      required
+                    />
+                    <RoleSelect value={inviteRole} actorRole={actorRole} onChange={setInviteRole} />
+                    <Button type="submit" disabled={busy}>
+                      Invite
+                    </Button>
+                  </div>
+                  {inviteUrl && (
+                    <div className="flex items-center gap-2 p-2 bg-green-50 border border-green-200 rounded">
+                      <code className="flex-1 text-xs break-all">{inviteUrl}</code>
+                      <Button type="button" size="sm" variant="ghost" onClick={copyInviteUrl}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </form>
+
+                {invitations.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Pending invitation</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead className="w-12" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invitations.map((invitation) => (
+                        <TableRow key={invitation.token}>
+                          <TableCell>{invitation.email}</TableCell>
+                          <TableCell className="capitalize">{invitation.role}</TableCell>
+                          <TableCell>
+                            {canManageRole(actorRole, invitation.role) && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={busy}
+                                title="Revoke invitation"
+                                onClick={() => mutate(`/invitations/${invitation.token}`, { method: "DELETE" })}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react"
+import { useAuth } from "@/components/auth-provider"
+import { authFetch } from "@/lib/auth"
+import type { WorkspaceRole } from "@/lib/workspaces"
+
+export interface WorkspaceSummary {
+  id: string
+  name: string
+  role: WorkspaceRole
+  personal: boolean
+  defaultExpiryDays?: number | null // missing = global default
+}
+
+interface WorkspaceContextValue {
+  workspaces: WorkspaceSummary[]
+  activeWorkspace: WorkspaceSummary | null
+  loading: boolean
+  setActiveWorkspaceId: (workspaceId: string) => void
+  refreshWorkspaces: () => Promise<void>
+  getWorkspaceRole: (workspaceId: string) => WorkspaceRole | null
+}
+
+const ACTIVE_WORKSPACE_KEY = "activeWorkspaceId"
+
+const WorkspaceContext = createContext<WorkspaceContextValue>({
+  workspaces: [],
+  activeWorkspace: null,
+  loading: true,
+  setActiveWorkspaceId: () => {},
+  refreshWorkspaces: async () => {},
+  getWorkspaceRole: () => null,
+})
+
+// The signed-in user's workspaces and the one currently selected in the UI
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const { user, loading: authLoading } = useAuth()
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([])
+  const [activeWorkspaceId, setActiveWorkspaceIdState] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const refreshWorkspaces = useCallback(async () => {
+    if (!user) {
+      setWorkspaces([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      const response = await authFetch("/api/workspaces")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load workspaces")
+      }
+      setWorkspaces(data.workspaces)
+    } catch (error) {
+      console.error("❌ Error loading workspaces:", error)
+      setWorkspaces([])
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (authLoading) return
+    setActiveWorkspaceIdState(localStorage.getItem(ACTIVE_WORKSPACE_KEY))
+    setLoading(true)
+    refreshWorkspaces()
+  }, [authLoading, refreshWorkspaces])
+
+  const setActiveWorkspaceId = (workspaceId: string) => {
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspaceId)
+    setActiveWorkspaceIdState(workspaceId)
+  }
+
+  const getWorkspaceRole = useCallback(
+    (workspaceId: string) => workspaces.find((workspace) => workspace.id === workspaceId)?.role || null,
+    [workspaces],
+  )
+
+  // Fall back to the personal workspace if the saved one is gone (e.g. after leaving it)
+  const activeWorkspace =
+    workspaces.find((workspace) => workspace.id === activeWorkspaceId) ||
+    workspaces.find((workspace) => workspace.personal) ||
+    workspaces[0] ||
+    null
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces,
+        activeWorkspace,
+        loading: authLoading || loading,
+        setActiveWorkspaceId,
+        refreshWorkspaces,
+        getWorkspaceRole,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  )
+}
+
+export function useWorkspace() {
+  return useContext(WorkspaceContext)
+}
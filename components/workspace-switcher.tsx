@@ -0,0 +1,217 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Plus, Settings } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useWorkspace, type WorkspaceSummary } from "@/components/workspace-provider"
+import { WorkspaceMembersDialog } from "@/components/workspace-members-dialog"
+import { authFetch } from "@/lib/auth"
+import { hasRole } from "@/lib/workspaces"
+import { getDefaultExpiryDays } from "@/lib/expiration"
+
+function CreateWorkspaceDialog() {
+  const { refreshWorkspaces, setActiveWorkspaceId } = useWorkspace()
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await authFetch("/api/workspaces", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim() }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create workspace")
+      }
+
+      await refreshWorkspaces()
+      setActiveWorkspaceId(data.id)
+      setName("")
+      setOpen(false)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create workspace",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="New workspace">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>New workspace</DialogTitle>
+            <DialogDescription>Workspaces let your team share links and analytics.</DialogDescription>
+          </DialogHeader>
+          <Input
+            className="my-4"
+            placeholder="Marketing team"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+          />
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting}>
+              Create workspace
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Workspace-wide defaults for new links - admins and owners
+function WorkspaceSettingsDialog({ workspace }: { workspace: WorkspaceSummary }) {
+  const { refreshWorkspaces } = useWorkspace()
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [neverExpires, setNeverExpires] = useState(false)
+  const [expiryDays, setExpiryDays] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      const currentDays = getDefaultExpiryDays(workspace.defaultExpiryDays)
+      setNeverExpires(currentDays === null)
+      setExpiryDays(currentDays === null ? "" : String(currentDays))
+    }
+    setOpen(nextOpen)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setIsSubmitting(true)
+    try {
+      const response = await authFetch(`/api/workspaces/${workspace.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ defaultExpiryDays: neverExpires ? null : Number(expiryDays) }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update workspace")
+      }
+
+      await refreshWorkspaces()
+      toast({ title: "Workspace updated", description: "New links will use this expiry by default." })
+      setOpen(false)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update workspace",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Workspace settings">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{workspace.name} settings</DialogTitle>
+            <DialogDescription>
+              Default expiry for new links. Anyone creating a link can still pick a different one.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Switch id="workspace-never-expires" checked={neverExpires} onCheckedChange={setNeverExpires} />
+            <label htmlFor="workspace-never-expires" className="text-sm text-gray-700">
+              Links never expire by default
+            </label>
+          </div>
+          {!neverExpires && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={3650}
+                step={1}
+                className="w-28"
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(e.target.value)}
+                required
+              />
+              <span className="text-sm text-gray-700">days after creation</span>
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Pick the active workspace, create new ones and manage members
+export function WorkspaceSwitcher() {
+  const { workspaces, activeWorkspace, loading, setActiveWorkspaceId } = useWorkspace()
+
+  if (loading || !activeWorkspace) {
+    return null
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={activeWorkspace.id} onValueChange={setActiveWorkspaceId}>
+        <SelectTrigger className="w-44 h-9 bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace) => (
+            <SelectItem key={workspace.id} value={workspace.id}>
+              {workspace.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <CreateWorkspaceDialog />
+      <WorkspaceMembersDialog workspace={activeWorkspace} />
+      {hasRole(activeWorkspace.role, "admin") && <WorkspaceSettingsDialog workspace={activeWorkspace} />}
+    </div>
+  )
+}
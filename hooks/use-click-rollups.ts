@@ -0,0 +1,73 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  getPeriodId,
+  getRangeStart,
+  subscribeToRollups,
+  summarizeRollups,
+  ROLLUP_RANGES,
+  type RollupRange,
+  type ClickRollup,
+  type RollupGranularity,
+} from "@/lib/rollups"
+
+export { ROLLUP_RANGES, type RollupRange } from "@/lib/rollups"
+
+export function useClickRollups(shortCode: string, range: RollupRange) {
+  const { granularity, periods } = ROLLUP_RANGES[range]
+  const [rollups, setRollups] = useState<ClickRollup[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Start of the oldest period in the range
+  const from = useMemo(() => getRangeStart(range), [range])
+
+  useEffect(() => {
+    setLoading(true)
+    const unsubscribe = subscribeToRollups(shortCode, granularity, from, (data) => {
+      setRollups(data)
+      setLoading(false)
+    })
+    return unsubscribe
+  }, [shortCode, granularity, from])
+
+  // One entry per period, including empty ones, so charts have a continuous axis
+  const series = useMemo(() => {
+    const byId = new Map(rollups.map((rollup) => [rollup.id, rollup]))
+    const points: Array<{
+      periodId: string
+      label: string
+      clicks: number
+      uniqueVisitors: number
+      variants: Record<string, number>
+    }> = []
+
+    for (let i = 0; i < periods; i++) {
+      const periodStart = new Date(from)
+      if (granularity === "hour") {
+        periodStart.setUTCHours(periodStart.getUTCHours() + i)
+      } else {
+        periodStart.setUTCDate(periodStart.getUTCDate() + i)
+      }
+
+      const periodId = getPeriodId(periodStart, granularity)
+      const rollup = byId.get(periodId)
+      points.push({
+        periodId,
+        label:
+          granularity === "hour"
+            ? periodStart.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+            : periodStart.toLocaleDateString([], { month: "short", day: "numeric" }),
+        clicks: rollup?.clicks || 0,
+        uniqueVisitors: rollup?.uniqueVisitors || 0,
+        variants: rollup?.variants || {},
+      })
+    }
+
+    return points
+  }, [rollups, from, granularity, periods])
+
+  const summary = useMemo(() => summarizeRollups(rollups), [rollups])
+
+  return { rollups, series, summary, loading, granularity }
+}
@@ -3,10 +3,15 @@
 import { useState, useEffect, useRef } from "react"
 import { realTimeAnalytics, type RealTimeAnalyticsData } from "@/lib/real-time-analytics"
 import { getUrlData, type UrlData } from "@/lib/analytics"
+import type { ClickEvent } from "@/lib/analytics-clean"
+
+// How many of the newest click events are kept live on the analytics page
+const LIVE_CLICK_EVENTS_LIMIT = 200
 
 export function useRealTimeAnalytics(shortCode: string) {
   const [urlData, setUrlData] = useState<UrlData | null>(null)
   const [analyticsData, setAnalyticsData] = useState<RealTimeAnalyticsData | null>(null)
+  const [clickEvents, setClickEvents] = useState<ClickEvent[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [connectionStatus, setConnectionStatus] = useState<"connecting" | "connected" | "disconnected">("connecting")
@@ -25,7 +30,7 @@ export function useRealTimeAnalytics(shortCode: string) {
     // Load initial data
     async function loadInitialData() {
       try {
-        const urlResult = await getUrlData(shortCode)
+        const urlResult = await getUrlData(shortCode, { includeInactive: true })
         if (!urlResult) {
           setError("Short code not found")
           return
@@ -55,7 +60,6 @@ export function useRealTimeAnalytics(shortCode: string) {
         console.log("📡 Real-time analytics data received:", {
           shortCode,
           totalClicks: data.totalClicks,
-          clickEventsCount: data.clickEvents?.length || 0,
         })
 
         setAnalyticsData(data)
@@ -71,7 +75,7 @@ export function useRealTimeAnalytics(shortCode: string) {
           previousClickCount.current = newClickCount
 
           // Update URL data to keep in sync
-          getUrlData(shortCode).then((updatedUrlData) => {
+          getUrlData(shortCode, { includeInactive: true }).then((updatedUrlData) => {
             if (updatedUrlData) {
               setUrlData(updatedUrlData)
             }
@@ -92,7 +96,13 @@ export function useRealTimeAnalytics(shortCode: string) {
       }
     })
 
-    unsubscribeRef.current = unsubscribe
+    // Click events live in their own subcollection - only the newest ones are streamed
+    const unsubscribeClicks = realTimeAnalytics.subscribeToClickEvents(shortCode, setClickEvents, LIVE_CLICK_EVENTS_LIMIT)
+
+    unsubscribeRef.current = () => {
+      unsubscribe()
+      unsubscribeClicks()
+    }
 
     // Monitor connection status
     const statusUnsubscribe = realTimeAnalytics.onConnectionStatusChange((status) => {
@@ -121,6 +131,7 @@ export function useRealTimeAnalytics(shortCode: string) {
   return {
     urlData,
     analyticsData,
+    clickEvents,
     loading,
     error,
     connectionStatus,
@@ -2,31 +2,74 @@ import {
   doc,
   getDoc,
   setDoc,
+  updateDoc,
   serverTimestamp,
   collection,
   query,
-  where,
   orderBy,
   limit,
   onSnapshot,
   Timestamp,
   runTransaction,
   getDocs,
+  writeBatch,
+  deleteField,
+  startAfter,
+  collectionGroup,
+  where,
   increment,
-  arrayUnion,
 } from "firebase/firestore"
 import { db } from "./firebase"
-
+import { expiresAtFromDays, GLOBAL_DEFAULT_EXPIRY_DAYS } from "./expiration"
+import type { RedirectStatus } from "./redirects"
+import { formatClickId } from "./conversions"
+import type { LinkSchedule } from "./schedules"
+import type { TargetingRule } from "./targeting"
+import type { LinkVariant } from "./variants"
+import type { UtmParams } from "./utm"
+import type { QueryPassthrough } from "./passthrough"
+import type { ImportSource } from "./importers"
+import { getShardedClickCount, incrementClickCounter, subscribeToShardedClickCount } from "./click-counter"
+import { addClickToRollups } from "./rollups"
+import { writeRevision, type LinkActor } from "./link-history"
+
+// Stored as analytics/{shortCode}/clicks/{id} - one document per click
 export interface ClickEvent {
   timestamp: any
+  shortCode?: string
   userAgent?: string
   referer?: string
   ip?: string
+  country?: string
+  city?: string
   id?: string
   clickSource?: "direct" | "analytics_page" | "test"
   sessionId?: string
+  workspaceId?: string // copied from the link so dashboards can query clicks per workspace
+  passwordUnlocked?: boolean // the visitor entered the link's password
+  targetingRuleId?: string // targeting rule that picked the destination, if any
+  variantId?: string // A/B variant the visitor was sent to, if the link is split-tested
+  utmCampaign?: string // utm_campaign of the destination the visitor was sent to
+  qrScan?: boolean // opened by scanning the link's QR code (see qr.ts)
 }
 
+// Stored as analytics/{shortCode}/conversions/{clickDocId}_{goal} - at most one per click and goal.
+// Copies the originating click's attribution so conversions can be broken down like clicks.
+export interface ConversionEvent {
+  id?: string
+  clickId: string // as appended to the destination (see conversions.ts)
+  goal: string
+  value?: number
+  timestamp: any
+  clickedAt?: any
+  referer?: string
+  country?: string
+  targetingRuleId?: string
+  variantId?: string
+}
+
+export const CLICKS_PAGE_SIZE = 25
+
 // Clean URL data structure - NO CLICKS stored here
 export interface UrlData {
   originalUrl: string
@@ -34,19 +77,54 @@ export interface UrlData {
   createdAt: any
   isActive: boolean
   expiresAt: any
+  redirectType?: RedirectStatus // HTTP status used for the redirect, defaults to 302
+  ownerId?: string // uid of the user who created the link (missing on links created before sign-in existed)
+  workspaceId?: string // workspace that owns the link
+  isPublic?: boolean // anyone with the link can view its analytics
+  deletedAt?: any // set while the link is in the trash; purged LINK_TRASH_RETENTION_DAYS later
+  maxClicks?: number | null // the link expires once it has been clicked this many times
+  expiredRedirectUrl?: string | null // where to send visitors after expiry, instead of the expired page
+  expiredMessage?: string | null // custom text for the expired page
+  passwordProtected?: boolean // visitors must enter the password first; the hash is in linkSecrets (link-passwords.ts)
+  passwordHash?: string | null // legacy - moved to linkSecrets by the migrate-passwords job
+  activatesAt?: any // the link doesn't redirect before this time
+  showCountdown?: boolean // show a countdown to activatesAt on the "not live yet" page
+  schedule?: LinkSchedule | null // recurring windows the link redirects in (see schedules.ts)
+  targetingRules?: TargetingRule[] | null // per-country/device destinations, first match wins (see targeting.ts)
+  variants?: LinkVariant[] | null // weighted A/B destinations, sticky per visitor (see variants.ts)
+  trackConversions?: boolean // append a click ID to the destination for conversion reporting (see conversions.ts)
+  utmParams?: UtmParams | null // UTM template merged into the destination at redirect time (see utm.ts)
+  queryPassthrough?: QueryPassthrough | null // forward the visitor's query string (see passthrough.ts)
+  wildcard?: boolean // append the path after the short code to the destination
+  tags?: string[] // lowercase labels for grouping links (see tags.ts)
+  importedFrom?: ImportSource // set on links brought over from another shortener
+  deletedBy?: string // uid of whoever moved it to the trash
   // ❌ REMOVED: clicks: number (this belongs in analytics only)
 }
 
 // Analytics is the SINGLE SOURCE OF TRUTH for clicks
 export interface AnalyticsData {
   shortCode: string
-  totalClicks: number // ✅ ONLY field for click tracking
+  // ✅ ONLY field for click tracking. Stored value is the pre-sharding baseline;
+  // every read API returns it with the click counter shards added in.
+  totalClicks: number
   createdAt: any
   lastClickAt?: any
-  clickEvents: ClickEvent[]
+  passwordUnlocks?: number // successful password entries on protected links
+  passwordFailures?: number // wrong passwords entered
+  lastPasswordFailureAt?: any
+  totalConversions?: number // goals reported by landing pages, attributed to a click
+  conversionValue?: number // sum of the reported conversion values
+  goals?: Record<string, number> // conversions per goal name
+  lastConversionAt?: any
+  clickEvents?: ClickEvent[] // Legacy - moved to the clicks subcollection by migrateClickEventsToSubcollection
   // ❌ REMOVE any other click-related fields
 }
 
+export function clicksCollection(shortCode: string) {
+  return collection(db, "analytics", shortCode, "clicks")
+}
+
 // Create short URL - NO click tracking in URL document
 export async function createShortUrl(shortCode: string, originalUrl: string): Promise<void> {
   try {
@@ -55,8 +133,7 @@ export async function createShortUrl(shortCode: string, originalUrl: string): Pr
     const urlRef = doc(db, "urls", shortCode)
     const analyticsRef = doc(db, "analytics", shortCode)
 
-    const expiresAt = new Date()
-    expiresAt.setDate(expiresAt.getDate() + 30)
+    const expiresAt = expiresAtFromDays(GLOBAL_DEFAULT_EXPIRY_DAYS)
 
     // Clean URL document - NO clicks field
     const urlData: UrlData = {
@@ -64,7 +141,7 @@ export async function createShortUrl(shortCode: string, originalUrl: string): Pr
       shortCode,
       createdAt: serverTimestamp(),
       isActive: true,
-      expiresAt: Timestamp.fromDate(expiresAt),
+      expiresAt: expiresAt ? Timestamp.fromDate(expiresAt) : null,
       // ✅ NO clicks field - analytics handles this
     }
 
@@ -73,7 +150,6 @@ export async function createShortUrl(shortCode: string, originalUrl: string): Pr
       shortCode,
       totalClicks: 0, // ✅ ONLY place clicks are tracked
       createdAt: serverTimestamp(),
-      clickEvents: [],
     }
 
     await Promise.all([setDoc(urlRef, urlData), setDoc(analyticsRef, analyticsData)])
@@ -97,7 +173,7 @@ export async function getUrlData(shortCode: string): Promise<UrlData | null> {
 
     const data = urlSnap.data() as UrlData
 
-    if ((data.expiresAt && data.expiresAt.toDate() < new Date()) || !data.isActive) {
+    if ((data.expiresAt && data.expiresAt.toDate() < new Date()) || !data.isActive || data.deletedAt) {
       return null
     }
 
@@ -111,15 +187,8 @@ export async function getUrlData(shortCode: string): Promise<UrlData | null> {
 // Get click count from analytics (single source of truth)
 export async function getClickCount(shortCode: string): Promise<number> {
   try {
-    const analyticsRef = doc(db, "analytics", shortCode)
-    const analyticsSnap = await getDoc(analyticsRef)
-
-    if (!analyticsSnap.exists()) {
-      return 0
-    }
-
-    const data = analyticsSnap.data() as AnalyticsData
-    return data.totalClicks || 0
+    const { totalClicks } = await getShardedClickCount(shortCode)
+    return totalClicks
   } catch (error) {
     console.error("Error getting click count:", error)
     return 0
@@ -150,13 +219,14 @@ export async function getUrlWithAnalytics(shortCode: string): Promise<{
 export async function getAnalyticsData(shortCode: string): Promise<AnalyticsData | null> {
   try {
     const analyticsRef = doc(db, "analytics", shortCode)
-    const analyticsSnap = await getDoc(analyticsRef)
+    const [analyticsSnap, count] = await Promise.all([getDoc(analyticsRef), getShardedClickCount(shortCode)])
 
     if (!analyticsSnap.exists()) {
       return null
     }
 
-    return analyticsSnap.data() as AnalyticsData
+    const data = analyticsSnap.data() as AnalyticsData
+    return { ...data, totalClicks: count.totalClicks, lastClickAt: count.lastClickAt || data.lastClickAt }
   } catch (error) {
     console.error("Error getting analytics data:", error)
     return null
@@ -164,40 +234,49 @@ export async function getAnalyticsData(shortCode: string): Promise<AnalyticsData
 }
 
 // Record click - ONLY update analytics (single source of truth)
-export async function recordClick(shortCode: string, userAgent: string, referer: string, ip: string): Promise<void> {
+export async function recordClick(
+  shortCode: string,
+  userAgent: string,
+  referer: string,
+  ip: string,
+  extra: Partial<ClickEvent> = {},
+): Promise<void> {
   try {
-    const analyticsRef = doc(db, "analytics", shortCode)
+    // Links that track conversions pick the click's id before redirecting (see newClickDocId)
+    const clickRef = extra.id ? doc(clicksCollection(shortCode), extra.id) : doc(clicksCollection(shortCode))
 
     const clickEvent: ClickEvent = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      shortCode,
       timestamp: serverTimestamp(),
       userAgent: userAgent.substring(0, 200),
       referer: referer.substring(0, 200),
       ip: ip.substring(0, 15),
       sessionId: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       clickSource: "direct",
+      ...extra,
+      id: clickRef.id,
     }
 
-    // ✅ ONLY update analytics - no URL document changes needed
+    // ✅ One small document per click, counted on a random shard so hot links don't serialize.
+    // The click, its counter and rollup increments and the visitor markers are written together.
     await runTransaction(db, async (transaction) => {
-      const analyticsDoc = await transaction.get(analyticsRef)
-
-      if (analyticsDoc.exists()) {
-        transaction.update(analyticsRef, {
-          totalClicks: increment(1), // ✅ Single source of truth
-          lastClickAt: serverTimestamp(),
-          clickEvents: arrayUnion(clickEvent),
-        })
-      } else {
-        // Create analytics document if it doesn't exist
-        transaction.set(analyticsRef, {
-          shortCode,
-          totalClicks: 1,
-          createdAt: serverTimestamp(),
-          lastClickAt: serverTimestamp(),
-          clickEvents: [clickEvent],
-        })
-      }
+      await addClickToRollups(transaction, shortCode, {
+        timestamp: new Date(),
+        referer: clickEvent.referer,
+        userAgent: clickEvent.userAgent,
+        ip: clickEvent.ip,
+        country: clickEvent.country,
+        ruleId: clickEvent.targetingRuleId,
+        variantId: clickEvent.variantId,
+        campaign: clickEvent.utmCampaign,
+        qrScan: clickEvent.qrScan,
+      })
+      transaction.set(
+        clickRef,
+        // Firestore rejects undefined fields
+        Object.fromEntries(Object.entries(clickEvent).filter(([, value]) => value !== undefined)),
+      )
+      incrementClickCounter(transaction, shortCode, clickEvent.workspaceId)
     })
 
     console.log(`✅ Click recorded in analytics only: ${shortCode}`)
@@ -207,65 +286,249 @@ export async function recordClick(shortCode: string, userAgent: string, referer:
   }
 }
 
+// Count a password attempt on a protected link. Unlocks are also recorded as clicks (passwordUnlocked: true).
+export async function recordPasswordAttempt(shortCode: string, success: boolean): Promise<void> {
+  try {
+    await setDoc(
+      doc(db, "analytics", shortCode),
+      success
+        ? { passwordUnlocks: increment(1) }
+        : { passwordFailures: increment(1), lastPasswordFailureAt: serverTimestamp() },
+      { merge: true },
+    )
+    console.log(`🔐 Password ${success ? "unlock" : "failure"} recorded: ${shortCode}`)
+  } catch (error) {
+    console.error("❌ Error recording password attempt:", error)
+    throw error
+  }
+}
+
+// Id for a click that hasn't been recorded yet, so it can be passed along with the redirect
+export function newClickDocId(shortCode: string): string {
+  return doc(clicksCollection(shortCode)).id
+}
+
+// Record a conversion reported for a click. Repeat reports of the same goal for a click are ignored.
+export async function recordConversion(
+  shortCode: string,
+  clickDocId: string,
+  goal: string,
+  value?: number,
+): Promise<"recorded" | "duplicate" | "unknown_click"> {
+  try {
+    const clickRef = doc(clicksCollection(shortCode), clickDocId)
+    const conversionRef = doc(db, "analytics", shortCode, "conversions", `${clickDocId}_${goal}`)
+
+    const result = await runTransaction(db, async (transaction) => {
+      const [clickSnap, conversionSnap] = await Promise.all([transaction.get(clickRef), transaction.get(conversionRef)])
+      if (!clickSnap.exists()) return "unknown_click" as const
+      if (conversionSnap.exists()) return "duplicate" as const
+
+      const click = clickSnap.data() as ClickEvent
+      const conversion: ConversionEvent = {
+        clickId: formatClickId(shortCode, clickDocId),
+        goal,
+        value,
+        timestamp: serverTimestamp(),
+        clickedAt: click.timestamp,
+        referer: click.referer,
+        country: click.country,
+        targetingRuleId: click.targetingRuleId,
+        variantId: click.variantId,
+      }
+
+      transaction.set(
+        conversionRef,
+        // Firestore rejects undefined fields
+        Object.fromEntries(Object.entries(conversion).filter(([, fieldValue]) => fieldValue !== undefined)),
+      )
+      transaction.set(
+        doc(db, "analytics", shortCode),
+        {
+          totalConversions: increment(1),
+          conversionValue: increment(value || 0),
+          goals: { [goal]: increment(1) },
+          lastConversionAt: serverTimestamp(),
+        },
+        { merge: true },
+      )
+      return "recorded" as const
+    })
+
+    console.log(`🎯 Conversion ${goal} ${result}: ${shortCode}/${clickDocId}`)
+    return result
+  } catch (error) {
+    console.error("❌ Error recording conversion:", error)
+    throw error
+  }
+}
+
+// Fetch one page of click events, newest first. Pass the returned cursor to get the next page.
+export async function getClickEvents(
+  shortCode: string,
+  options: { pageSize?: number; cursor?: any } = {},
+): Promise<{ events: ClickEvent[]; cursor: any | null }> {
+  const { pageSize = CLICKS_PAGE_SIZE, cursor } = options
+
+  try {
+    const clicksQuery = cursor
+      ? query(clicksCollection(shortCode), orderBy("timestamp", "desc"), startAfter(cursor), limit(pageSize))
+      : query(clicksCollection(shortCode), orderBy("timestamp", "desc"), limit(pageSize))
+
+    const snapshot = await getDocs(clicksQuery)
+    const events = snapshot.docs.map((clickDoc) => ({ ...clickDoc.data(), id: clickDoc.id }) as ClickEvent)
+    const nextCursor = events.length === pageSize ? events[events.length - 1].timestamp : null
+
+    return { events, cursor: nextCursor }
+  } catch (error) {
+    console.error("Error getting click events:", error)
+    return { events: [], cursor: null }
+  }
+}
+
+// Real-time subscription to the most recent click events for one link
+export function subscribeToClickEvents(
+  shortCode: string,
+  callback: (events: ClickEvent[]) => void,
+  limitCount = CLICKS_PAGE_SIZE,
+): () => void {
+  const clicksQuery = query(clicksCollection(shortCode), orderBy("timestamp", "desc"), limit(limitCount))
+
+  return onSnapshot(
+    clicksQuery,
+    { includeMetadataChanges: true },
+    (snapshot) => {
+      callback(snapshot.docs.map((clickDoc) => ({ ...clickDoc.data(), id: clickDoc.id }) as ClickEvent))
+    },
+    (error) => {
+      console.error("❌ Click events subscription error:", error)
+      callback([])
+    },
+  )
+}
+
+// Real-time subscription to the most recent clicks across a workspace's links (for dashboard)
+export function subscribeToRecentClicks(
+  workspaceId: string,
+  callback: (clicks: Array<ClickEvent & { shortCode: string }>) => void,
+  limitCount = 20,
+): () => void {
+  const recentQuery = query(
+    collectionGroup(db, "clicks"),
+    where("workspaceId", "==", workspaceId),
+    orderBy("timestamp", "desc"),
+    limit(limitCount),
+  )
+
+  return onSnapshot(
+    recentQuery,
+    { includeMetadataChanges: true },
+    (snapshot) => {
+      callback(
+        snapshot.docs.map((clickDoc) => ({
+          ...(clickDoc.data() as ClickEvent),
+          id: clickDoc.id,
+          // Parent of the clicks collection is analytics/{shortCode}
+          shortCode: clickDoc.ref.parent.parent?.id || "",
+        })),
+      )
+    },
+    (error) => {
+      console.error("Error in recent clicks subscription:", error)
+      callback([])
+    },
+  )
+}
+
 // Real-time subscription to analytics (single source of truth)
 export function subscribeToAnalytics(shortCode: string, callback: (data: AnalyticsData | null) => void): () => void {
   const analyticsRef = doc(db, "analytics", shortCode)
 
   console.log(`🔄 Subscribing to analytics (single source): ${shortCode}`)
 
-  return onSnapshot(
+  let analyticsData: AnalyticsData | null | undefined
+  let clickCount: { totalClicks: number; lastClickAt: any } | undefined
+
+  const emit = () => {
+    if (analyticsData === undefined || clickCount === undefined) return
+    if (analyticsData === null) {
+      callback(null)
+      return
+    }
+
+    console.log(`📊 Analytics update: ${shortCode} - ${clickCount.totalClicks} clicks`)
+    callback({
+      ...analyticsData,
+      totalClicks: clickCount.totalClicks,
+      lastClickAt: clickCount.lastClickAt || analyticsData.lastClickAt,
+    })
+  }
+
+  const unsubscribeAnalytics = onSnapshot(
     analyticsRef,
     { includeMetadataChanges: true },
     (doc) => {
-      if (doc.exists()) {
-        const data = doc.data() as AnalyticsData
-        console.log(`📊 Analytics update: ${shortCode} - ${data.totalClicks} clicks`)
-        callback(data)
-      } else {
-        callback(null)
-      }
+      analyticsData = doc.exists() ? (doc.data() as AnalyticsData) : null
+      emit()
     },
     (error) => {
       console.error("❌ Analytics subscription error:", error)
       callback(null)
     },
   )
+
+  const unsubscribeCount = subscribeToShardedClickCount(shortCode, (count) => {
+    clickCount = count
+    emit()
+  })
+
+  return () => {
+    unsubscribeAnalytics()
+    unsubscribeCount()
+  }
 }
 
-// Get top URLs by click count (from analytics only)
+// Get top URLs by click count, ranked among recently clicked links.
+// Totals are spread over counter shards, so the recently written shards
+// pick the candidates and each candidate's total is then summed exactly.
 export function subscribeToTopUrls(
+  workspaceId: string,
   callback: (urls: Array<{ shortCode: string; clicks: number; originalUrl: string }>) => void,
   limitCount = 10,
 ): () => void {
-  // Query analytics for top click counts
-  const analyticsQuery = query(
-    collection(db, "analytics"),
-    where("totalClicks", ">", 0),
-    orderBy("totalClicks", "desc"),
-    limit(limitCount),
+  const recentShardsQuery = query(
+    collectionGroup(db, "shards"),
+    where("workspaceId", "==", workspaceId),
+    orderBy("lastClickAt", "desc"),
+    limit(100),
   )
 
   return onSnapshot(
-    analyticsQuery,
-    { includeMetadataChanges: true },
+    recentShardsQuery,
     async (snapshot) => {
+      const shortCodes = new Set<string>()
+      snapshot.docs.forEach((shardDoc) => {
+        const shortCode = shardDoc.ref.parent.parent?.id
+        if (shortCode) shortCodes.add(shortCode)
+      })
+
       const topUrls: Array<{ shortCode: string; clicks: number; originalUrl: string }> = []
 
-      // Get URL data for each top analytics entry
-      for (const doc of snapshot.docs) {
-        const analyticsData = doc.data() as AnalyticsData
-        const urlData = await getUrlData(analyticsData.shortCode)
+      // Get URL data and exact click count for each candidate
+      for (const shortCode of shortCodes) {
+        const [urlData, clicks] = await Promise.all([getUrlData(shortCode), getClickCount(shortCode)])
 
         if (urlData) {
           topUrls.push({
-            shortCode: analyticsData.shortCode,
-            clicks: analyticsData.totalClicks, // ✅ From analytics (single source)
+            shortCode,
+            clicks, // ✅ From analytics (single source)
             originalUrl: urlData.originalUrl,
           })
         }
       }
 
-      callback(topUrls)
+      topUrls.sort((a, b) => b.clicks - a.clicks)
+      callback(topUrls.slice(0, limitCount))
     },
     (error) => {
       console.error("Error in top URLs subscription:", error)
@@ -275,7 +538,7 @@ export function subscribeToTopUrls(
 }
 
 // Migration function to clean up redundant clicks from URL documents
-export async function migrateToCleanArchitecture(): Promise<void> {
+export async function migrateToCleanArchitecture(actor: LinkActor): Promise<void> {
   try {
     console.log("🧹 Starting migration to clean architecture...")
 
@@ -298,7 +561,13 @@ export async function migrateToCleanArchitecture(): Promise<void> {
           const cleanUrlData = { ...urlData }
           delete cleanUrlData.clicks
 
-          transaction.set(urlRef, cleanUrlData)
+          transaction.update(urlRef, { clicks: deleteField() })
+          writeRevision(transaction, doc.id, {
+            action: "migration",
+            actor,
+            before: urlData,
+            after: cleanUrlData,
+          })
         })
 
         migrations.push(migration)
@@ -312,3 +581,137 @@ export async function migrateToCleanArchitecture(): Promise<void> {
     throw error
   }
 }
+
+// Migration: move legacy clickEvents arrays into analytics/{shortCode}/clicks documents
+export async function migrateClickEventsToSubcollection(): Promise<{ documents: number; events: number }> {
+  try {
+    console.log("🧹 Starting click events migration...")
+
+    const analyticsSnapshot = await getDocs(query(collection(db, "analytics")))
+    let migratedDocuments = 0
+    let migratedEvents = 0
+
+    for (const analyticsDoc of analyticsSnapshot.docs) {
+      const data = analyticsDoc.data() as AnalyticsData
+      const events = data.clickEvents
+
+      if (!Array.isArray(events)) {
+        continue
+      }
+
+      const shortCode = analyticsDoc.id
+      console.log(`🧹 Moving ${events.length} click events for: ${shortCode}`)
+
+      // Firestore batches are limited to 500 writes
+      const chunkSize = 400
+      for (let start = 0; start < events.length; start += chunkSize) {
+        const batch = writeBatch(db)
+
+        events.slice(start, start + chunkSize).forEach((event, index) => {
+          // Reuse the legacy id so re-running the migration never duplicates events
+          const clickId = event.id || `legacy-${start + index}`
+          batch.set(doc(clicksCollection(shortCode), clickId), {
+            ...event,
+            id: clickId,
+            shortCode,
+            timestamp: event.timestamp || data.createdAt || null,
+          })
+        })
+
+        await batch.commit()
+      }
+
+      // Only drop the array once every event has been copied
+      await setDoc(analyticsDoc.ref, { clickEvents: deleteField() }, { merge: true })
+
+      migratedDocuments++
+      migratedEvents += events.length
+    }
+
+    console.log(`✅ Click events migration complete: ${migratedEvents} events from ${migratedDocuments} documents`)
+    return { documents: migratedDocuments, events: migratedEvents }
+  } catch (error) {
+    console.error("❌ Click events migration error:", error)
+    throw error
+  }
+}
+
+export interface AnalyticsFixResult {
+  shortCode: string
+  before: { totalClicks: number; clickEventsCount: number; urlClicks: number }
+  after: { totalClicks?: number; clickEventsCount?: number; urlClicks?: number }
+  action: "none" | "fixed" | "no_clicks" | "already_correct" | "error"
+  error: string | null
+}
+
+// Repair: raise a link's total to the higher of the legacy clickEvents count and the old urls clicks field.
+// The total is the totalClicks baseline plus the counter shards (click-counter.ts), so the baseline
+// becomes that count minus the shards. Link documents aren't touched - clicks moved off them for good.
+export async function fixAnalyticsClickCounts(): Promise<{
+  results: AnalyticsFixResult[]
+  total: number
+  fixed: number
+  errors: number
+}> {
+  console.log("🔧 Starting comprehensive analytics fix...")
+
+  const [analyticsSnapshot, urlsSnapshot] = await Promise.all([
+    getDocs(query(collection(db, "analytics"))),
+    getDocs(query(collection(db, "urls"))),
+  ])
+  const urlsData = new Map(urlsSnapshot.docs.map((urlDoc) => [urlDoc.id, urlDoc.data()]))
+
+  const results: AnalyticsFixResult[] = []
+  let fixed = 0
+  let errors = 0
+
+  for (const analyticsDoc of analyticsSnapshot.docs) {
+    const shortCode = analyticsDoc.id
+    const analyticsData = analyticsDoc.data()
+    const urlData = urlsData.get(shortCode)
+
+    const clickEventsCount = analyticsData.clickEvents?.length || 0
+    const urlClicks = urlData?.clicks || 0
+    const result: AnalyticsFixResult = {
+      shortCode,
+      before: { totalClicks: 0, clickEventsCount, urlClicks },
+      after: {},
+      action: "none",
+      error: null,
+    }
+
+    try {
+      const { totalClicks: currentTotalClicks } = await getShardedClickCount(shortCode)
+      const shardClicks = currentTotalClicks - (analyticsData.totalClicks || 0)
+      const correctClickCount = Math.max(clickEventsCount, urlClicks, currentTotalClicks)
+      result.before.totalClicks = currentTotalClicks
+
+      if (currentTotalClicks !== correctClickCount) {
+        console.log(`🔧 Fixing ${shortCode}: ${currentTotalClicks} → ${correctClickCount}`)
+
+        await updateDoc(doc(db, "analytics", shortCode), {
+          totalClicks: correctClickCount - shardClicks,
+          urlClicks,
+        })
+
+        result.after = { totalClicks: correctClickCount, clickEventsCount, urlClicks }
+        result.action = "fixed"
+        fixed++
+      } else if (correctClickCount === 0) {
+        result.action = "no_clicks"
+      } else {
+        result.action = "already_correct"
+      }
+    } catch (error) {
+      console.error(`❌ Error fixing ${shortCode}:`, error)
+      result.error = error instanceof Error ? error.message : String(error)
+      result.action = "error"
+      errors++
+    }
+
+    results.push(result)
+  }
+
+  console.log(`✅ Analytics fix complete: ${fixed} fixed, ${errors} errors`)
+  return { results, total: analyticsSnapshot.docs.length, fixed, errors }
+}
@@ -10,11 +10,23 @@ import {
   limit,
   onSnapshot,
   Timestamp,
+  collectionGroup,
 } from "firebase/firestore"
 import { db } from "./firebase"
+import { expiresAtFromDays, GLOBAL_DEFAULT_EXPIRY_DAYS } from "./expiration"
+import type { RedirectStatus } from "./redirects"
+import type { LinkSchedule } from "./schedules"
+import type { TargetingRule } from "./targeting"
+import type { LinkVariant } from "./variants"
+import type { UtmParams } from "./utm"
+import type { QueryPassthrough } from "./passthrough"
+import type { ImportSource } from "./importers"
+import { getShardedClickCount } from "./click-counter"
+import { subscribeToAnalytics as subscribeToShardedAnalytics } from "./analytics-clean"
 
 export interface ClickEvent {
   timestamp: any
+  shortCode?: string
   userAgent?: string
   referer?: string
   ip?: string
@@ -23,6 +35,7 @@ export interface ClickEvent {
   id?: string
   clickSource?: "direct" | "analytics_page" | "test"
   sessionId?: string
+  qrScan?: boolean
 }
 
 export interface UrlData {
@@ -33,6 +46,28 @@ export interface UrlData {
   isActive: boolean
   expiresAt: any
   lastClickAt?: any
+  redirectType?: RedirectStatus // HTTP status used for the redirect, defaults to 302
+  ownerId?: string // uid of the user who created the link (missing on links created before sign-in existed)
+  workspaceId?: string // workspace that owns the link
+  isPublic?: boolean // anyone with the link can view its analytics
+  deletedAt?: any // set while the link is in the trash
+  deletedBy?: string
+  maxClicks?: number | null // expires after this many clicks
+  expiredRedirectUrl?: string | null // fallback destination once expired
+  expiredMessage?: string | null // custom text for the expired page
+  passwordProtected?: boolean // visitors must enter the password first; the hash is in linkSecrets (link-passwords.ts)
+  passwordHash?: string | null // legacy - moved to linkSecrets by the migrate-passwords job
+  activatesAt?: any // the link doesn't redirect before this time
+  showCountdown?: boolean // show a countdown to activatesAt on the "not live yet" page
+  schedule?: LinkSchedule | null // recurring windows the link redirects in (see schedules.ts)
+  targetingRules?: TargetingRule[] | null // per-country/device destinations, first match wins (see targeting.ts)
+  variants?: LinkVariant[] | null // weighted A/B destinations, sticky per visitor (see variants.ts)
+  trackConversions?: boolean // append a click ID to the destination for conversion reporting (see conversions.ts)
+  utmParams?: UtmParams | null // UTM template merged into the destination at redirect time (see utm.ts)
+  queryPassthrough?: QueryPassthrough | null // forward the visitor's query string (see passthrough.ts)
+  wildcard?: boolean // append the path after the short code to the destination
+  tags?: string[] // lowercase labels for grouping links (see tags.ts)
+  importedFrom?: ImportSource // set on links brought over from another shortener
 }
 
 export interface AnalyticsData {
@@ -40,7 +75,7 @@ export interface AnalyticsData {
   totalClicks: number
   createdAt: any
   lastClickAt?: any
-  clickEvents: ClickEvent[]
+  clickEvents?: ClickEvent[] // Legacy - click events now live in analytics/{shortCode}/clicks
 }
 
 // Create a new short URL
@@ -51,22 +86,20 @@ export async function createShortUrl(shortCode: string, originalUrl: string): Pr
     const urlRef = doc(db, "urls", shortCode)
     const analyticsRef = doc(db, "analytics", shortCode)
 
-    const expiresAt = new Date()
-    expiresAt.setDate(expiresAt.getDate() + 30) // 30 days from now
+    const expiresAt = expiresAtFromDays(GLOBAL_DEFAULT_EXPIRY_DAYS)
 
     const urlData: UrlData = {
       originalUrl,
       shortCode,
       createdAt: serverTimestamp(),
       isActive: true,
-      expiresAt: Timestamp.fromDate(expiresAt),
+      expiresAt: expiresAt ? Timestamp.fromDate(expiresAt) : null,
     }
 
     const analyticsData: AnalyticsData = {
       shortCode,
       totalClicks: 0,
       createdAt: serverTimestamp(),
-      clickEvents: [],
     }
 
     await Promise.all([setDoc(urlRef, urlData), setDoc(analyticsRef, analyticsData)])
@@ -77,8 +110,12 @@ export async function createShortUrl(shortCode: string, originalUrl: string): Pr
   }
 }
 
-// Get URL data
-export async function getUrlData(shortCode: string): Promise<UrlData | null> {
+// Get URL data. Expired and inactive links are treated as missing unless includeInactive is set
+// (the analytics page still needs them, so they can be edited back to life).
+export async function getUrlData(
+  shortCode: string,
+  options: { includeInactive?: boolean } = {},
+): Promise<UrlData | null> {
   try {
     const urlRef = doc(db, "urls", shortCode)
     const urlSnap = await getDoc(urlRef)
@@ -91,8 +128,9 @@ export async function getUrlData(shortCode: string): Promise<UrlData | null> {
     const data = urlSnap.data() as UrlData
 
     // Check if URL has expired
-    if ((data.expiresAt && data.expiresAt.toDate() < new Date()) || !data.isActive) {
-      console.log(`URL expired or inactive: ${shortCode}`)
+    const isUnavailable = (data.expiresAt && data.expiresAt.toDate() < new Date()) || !data.isActive || !!data.deletedAt
+    if (!options.includeInactive && isUnavailable) {
+      console.log(`URL expired, inactive or deleted: ${shortCode}`)
       return null
     }
 
@@ -107,50 +145,36 @@ export async function getUrlData(shortCode: string): Promise<UrlData | null> {
 export async function getAnalyticsData(shortCode: string): Promise<AnalyticsData | null> {
   try {
     const analyticsRef = doc(db, "analytics", shortCode)
-    const analyticsSnap = await getDoc(analyticsRef)
+    const [analyticsSnap, count] = await Promise.all([getDoc(analyticsRef), getShardedClickCount(shortCode)])
 
     if (!analyticsSnap.exists()) {
       console.log(`Analytics document not found: ${shortCode}`)
       return null
     }
 
-    return analyticsSnap.data() as AnalyticsData
+    const data = analyticsSnap.data() as AnalyticsData
+    return { ...data, totalClicks: count.totalClicks, lastClickAt: count.lastClickAt || data.lastClickAt }
   } catch (error) {
     console.error("Error getting analytics data:", error)
     return null
   }
 }
 
-// Enhanced real-time listener for analytics data
+// Enhanced real-time listener for analytics data - totalClicks includes the click counter shards
 export function subscribeToAnalytics(shortCode: string, callback: (data: AnalyticsData | null) => void): () => void {
-  const analyticsRef = doc(db, "analytics", shortCode)
-
   console.log(`🔄 Starting real-time analytics subscription for: ${shortCode}`)
 
-  return onSnapshot(
-    analyticsRef,
-    {
-      includeMetadataChanges: true,
-    },
-    async (doc) => {
-      if (doc.exists()) {
-        const data = doc.data() as AnalyticsData
-        console.log("📡 Analytics update received:", {
-          shortCode,
-          totalClicks: data.totalClicks,
-          clickEventsCount: data.clickEvents?.length || 0,
-        })
-        callback(data)
-      } else {
-        console.log(`❌ No analytics document found for: ${shortCode}`)
-        callback(null)
-      }
-    },
-    (error) => {
-      console.error("❌ Real-time analytics subscription error:", error)
-      callback(null)
-    },
-  )
+  return subscribeToShardedAnalytics(shortCode, (data) => {
+    if (data) {
+      console.log("📡 Analytics update received:", {
+        shortCode,
+        totalClicks: data.totalClicks,
+      })
+    } else {
+      console.log(`❌ No analytics document found for: ${shortCode}`)
+    }
+    callback(data)
+  })
 }
 
 // Get recent clicks across all URLs (for dashboard)
@@ -158,39 +182,21 @@ export function subscribeToRecentClicks(
   callback: (clicks: Array<ClickEvent & { shortCode: string }>) => void,
   limitCount = 50,
 ): () => void {
-  const analyticsQuery = query(
-    collection(db, "analytics"),
-    where("totalClicks", ">", 0),
-    orderBy("totalClicks", "desc"),
-    limit(limitCount),
-  )
+  const recentQuery = query(collectionGroup(db, "clicks"), orderBy("timestamp", "desc"), limit(limitCount))
 
   return onSnapshot(
-    analyticsQuery,
+    recentQuery,
     {
       includeMetadataChanges: true,
     },
     (snapshot) => {
-      const recentClicks: Array<ClickEvent & { shortCode: string }> = []
-
-      snapshot.forEach((doc) => {
-        const data = doc.data() as AnalyticsData
-        if (data.clickEvents && data.clickEvents.length > 0) {
-          const recentUrlClicks = data.clickEvents.slice(-5).map((click) => ({
-            ...click,
-            shortCode: data.shortCode,
-          }))
-          recentClicks.push(...recentUrlClicks)
-        }
-      })
-
-      recentClicks.sort((a, b) => {
-        const aTime = a.timestamp?.seconds || 0
-        const bTime = b.timestamp?.seconds || 0
-        return bTime - aTime
-      })
+      const recentClicks = snapshot.docs.map((clickDoc) => ({
+        ...(clickDoc.data() as ClickEvent),
+        id: clickDoc.id,
+        shortCode: clickDoc.ref.parent.parent?.id || "",
+      }))
 
-      callback(recentClicks.slice(0, limitCount))
+      callback(recentClicks)
     },
     (error) => {
       console.error("Error in recent clicks subscription:", error)
@@ -219,13 +225,11 @@ export function subscribeToTopUrls(
     async (snapshot) => {
       const urls: Array<{ shortCode: string; clicks: number; originalUrl: string }> = []
 
-      for (const doc of snapshot.docs) {
-        const urlData = doc.data() as UrlData
+      for (const urlDoc of snapshot.docs) {
+        const urlData = urlDoc.data() as UrlData
 
-        // Get click count from analytics
-        const analyticsRef = doc(db, "analytics", urlData.shortCode)
-        const analyticsSnap = await getDoc(analyticsRef)
-        const clicks = analyticsSnap.exists() ? (analyticsSnap.data() as AnalyticsData).totalClicks || 0 : 0
+        // Get click count from analytics (summed across counter shards)
+        const { totalClicks: clicks } = await getShardedClickCount(urlData.shortCode)
 
         urls.push({
           shortCode: urlData.shortCode,
@@ -0,0 +1,160 @@
+import {
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  collection,
+  query,
+  where,
+  serverTimestamp,
+} from "firebase/firestore"
+import { db } from "./firebase"
+
+// API keys for /api/v1, stored as apiKeys/{keyId}. Only a SHA-256 hash of the
+// secret is kept; the full key is shown once, when it is created.
+//
+//   sl_<keyId>_<secret>
+//
+// A "user" key acts as its creator in any workspace they belong to (with their
+// current role). A "workspace" key is bound to one workspace and keeps working
+// if its creator leaves. Either way, the key's scopes cap what it can do.
+export type ApiKeyType = "user" | "workspace"
+
+export type ApiKeyScope = "links:read" | "links:write" | "analytics:read"
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ["links:read", "links:write", "analytics:read"]
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  "links:read": "List and get links",
+  "links:write": "Create, update and delete links",
+  "analytics:read": "Read link analytics",
+}
+
+const API_KEY_PREFIX = "sl"
+
+export interface ApiKey {
+  id: string
+  name: string
+  type: ApiKeyType
+  userId: string // creator, and the acting user for "user" keys
+  workspaceId: string // bound workspace for "workspace" keys, default workspace for "user" keys
+  scopes: ApiKeyScope[]
+  hash: string
+  hint: string // last characters of the secret, to tell keys apart in the UI
+  createdAt: any
+  lastUsedAt: any | null
+  revokedAt: any | null
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.includes(value as ApiKeyScope)
+}
+
+export function looksLikeApiKey(token: string): boolean {
+  return token.startsWith(`${API_KEY_PREFIX}_`)
+}
+
+async function hashSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret))
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+// Constant-time comparison so response timing doesn't leak how much of a hash matched
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let mismatch = 0
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return mismatch === 0
+}
+
+// Create a key. The returned secret is never stored and cannot be retrieved again.
+export async function createApiKey(input: {
+  name: string
+  type: ApiKeyType
+  userId: string
+  workspaceId: string
+  scopes: ApiKeyScope[]
+}): Promise<{ apiKey: ApiKey; secret: string }> {
+  const keyRef = doc(collection(db, "apiKeys"))
+  const secret = randomHex(24)
+
+  const apiKey = {
+    ...input,
+    id: keyRef.id,
+    hash: await hashSecret(secret),
+    hint: secret.slice(-4),
+    createdAt: serverTimestamp(),
+    lastUsedAt: null,
+    revokedAt: null,
+  }
+  await setDoc(keyRef, apiKey)
+
+  console.log(`🔑 API key created: ${keyRef.id} (${input.type}, ${input.scopes.join(" ")})`)
+  return { apiKey, secret: `${API_KEY_PREFIX}_${keyRef.id}_${secret}` }
+}
+
+export async function getApiKey(keyId: string): Promise<ApiKey | null> {
+  const keySnap = await getDoc(doc(db, "apiKeys", keyId))
+  return keySnap.exists() ? ({ ...(keySnap.data() as ApiKey), id: keySnap.id }) : null
+}
+
+// Keys a user created plus every key bound to one of the given workspaces
+export async function listApiKeys(userId: string, workspaceIds: string[]): Promise<ApiKey[]> {
+  const queries = [query(collection(db, "apiKeys"), where("userId", "==", userId))]
+  // "in" queries accept at most 30 values
+  for (let i = 0; i < workspaceIds.length; i += 30) {
+    queries.push(
+      query(
+        collection(db, "apiKeys"),
+        where("type", "==", "workspace"),
+        where("workspaceId", "in", workspaceIds.slice(i, i + 30)),
+      ),
+    )
+  }
+
+  const keys = new Map<string, ApiKey>()
+  for (const snapshot of await Promise.all(queries.map((keysQuery) => getDocs(keysQuery)))) {
+    snapshot.docs.forEach((keyDoc) => keys.set(keyDoc.id, { ...(keyDoc.data() as ApiKey), id: keyDoc.id }))
+  }
+
+  return Array.from(keys.values()).sort(
+    (a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0),
+  )
+}
+
+export async function revokeApiKey(keyId: string): Promise<void> {
+  await updateDoc(doc(db, "apiKeys", keyId), { revokedAt: serverTimestamp() })
+  console.log(`🔒 API key revoked: ${keyId}`)
+}
+
+// Resolve a presented key to its record. Returns null for unknown, malformed or revoked keys.
+export async function verifyApiKey(presented: string): Promise<ApiKey | null> {
+  const match = presented.match(new RegExp(`^${API_KEY_PREFIX}_([A-Za-z0-9]+)_([0-9a-f]+)$`))
+  if (!match) {
+    return null
+  }
+
+  const [, keyId, secret] = match
+  const apiKey = await getApiKey(keyId)
+  if (!apiKey || apiKey.revokedAt || !safeEqual(apiKey.hash, await hashSecret(secret))) {
+    return null
+  }
+
+  // Fire and forget - a failed timestamp update shouldn't fail the request
+  updateDoc(doc(db, "apiKeys", keyId), { lastUsedAt: serverTimestamp() }).catch((error) =>
+    console.error("⚠️ Failed to update API key lastUsedAt:", error),
+  )
+
+  return apiKey
+}
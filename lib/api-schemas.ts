@@ -0,0 +1,441 @@
+import { z } from "zod"
+import { extendZodWithOpenApi, OpenAPIRegistry, OpenApiGeneratorV3 } from "@asteasolutions/zod-to-openapi"
+import { REDIRECT_STATUSES } from "./redirects"
+import { ROLLUP_RANGES, type RollupRange } from "./rollups"
+import { API_KEY_SCOPES } from "./api-keys"
+import { EXPIRED_MESSAGE_MAX_LENGTH } from "./expiration"
+import { BULK_MAX_LINKS, LINK_PASSWORD_MAX_LENGTH, LINK_PASSWORD_MIN_LENGTH } from "./links"
+import { MAX_SCHEDULE_WINDOWS } from "./schedules"
+import { MAX_TARGETING_RULES, TARGETING_LABEL_MAX_LENGTH } from "./targeting"
+import { UTM_FIELDS, UTM_VALUE_MAX_LENGTH } from "./utm"
+import { QUERY_PASSTHROUGH_MODES } from "./passthrough"
+import { MAX_LINK_TAGS, TAG_MAX_LENGTH } from "./tags"
+import { MAX_LINK_VARIANTS, MAX_VARIANT_WEIGHT, MIN_LINK_VARIANTS, VARIANT_LABEL_MAX_LENGTH } from "./variants"
+import { BROWSERS, DEVICE_TYPES, OPERATING_SYSTEMS } from "./user-agent"
+
+// Request/response schemas for /api/v1. The routes validate with these and the
+// OpenAPI document served at /api/v1/openapi.json is generated from them.
+extendZodWithOpenApi(z)
+
+const ScheduleSchema = z
+  .object({
+    timeZone: z.string().openapi({ description: "IANA time zone the windows are in", example: "Europe/Berlin" }),
+    windows: z
+      .array(
+        z.object({
+          days: z.array(z.number().int().min(0).max(6)).min(1).openapi({ description: "0 = Sunday ... 6 = Saturday" }),
+          start: z.string().regex(/^\d{2}:\d{2}$/).openapi({ example: "09:00" }),
+          end: z
+            .string()
+            .regex(/^\d{2}:\d{2}$/)
+            .openapi({ example: "17:00", description: "At or before start means the window runs past midnight" }),
+        }),
+      )
+      .min(1)
+      .max(MAX_SCHEDULE_WINDOWS),
+  })
+  .openapi("Schedule", { description: "Recurring windows the link redirects in; outside them it answers 403" })
+
+const TargetingRuleSchema = z
+  .object({
+    id: z.string().optional().openapi({ description: "Keep the id when editing a rule so its analytics carry over" }),
+    label: z.string().max(TARGETING_LABEL_MAX_LENGTH).optional(),
+    url: z.string().min(1).openapi({ example: "https://apps.apple.com/app/id123" }),
+    conditions: z
+      .object({
+        devices: z.array(z.enum(DEVICE_TYPES)).optional(),
+        os: z.array(z.enum(OPERATING_SYSTEMS)).optional(),
+        browsers: z.array(z.enum(BROWSERS)).optional(),
+        countries: z
+          .array(z.string().regex(/^[A-Z]{2}$/))
+          .optional()
+          .openapi({ description: "ISO 3166-1 alpha-2 codes, looked up from the visitor's IP", example: ["DE", "AT"] }),
+      })
+      .openapi({ description: "Any listed value matches within a condition; every given condition must match" }),
+  })
+  .openapi("TargetingRule", { description: "Checked in order; the first matching rule picks the destination" })
+
+const VariantSchema = z
+  .object({
+    id: z.string().optional().openapi({ description: "Keep the id when editing a variant so its clicks carry over" }),
+    label: z.string().max(VARIANT_LABEL_MAX_LENGTH).optional(),
+    url: z.string().min(1).openapi({ example: "https://example.org/landing-b" }),
+    weight: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_VARIANT_WEIGHT)
+      .openapi({ description: "Relative share of new visitors, e.g. 70, 20 and 10", example: 50 }),
+  })
+  .openapi("Variant", { description: "One destination of an A/B test; each visitor keeps their variant" })
+
+const variantsSchema = z
+  .array(VariantSchema)
+  .max(MAX_LINK_VARIANTS)
+  .refine((variants) => variants.length === 0 || variants.length >= MIN_LINK_VARIANTS, {
+    message: `An A/B test needs at least ${MIN_LINK_VARIANTS} variants`,
+  })
+
+const UtmParamsSchema = z
+  .object(Object.fromEntries(UTM_FIELDS.map((field) => [field, z.string().max(UTM_VALUE_MAX_LENGTH).optional()])))
+  .strict()
+  .openapi("UtmParams", {
+    description: "Merged into the destination at redirect time; parameters already on the destination win",
+    example: { utm_source: "newsletter", utm_medium: "email", utm_campaign: "spring-sale" },
+  })
+
+const tagsSchema = z
+  .array(z.string().max(TAG_MAX_LENGTH))
+  .max(MAX_LINK_TAGS)
+  .openapi({ description: "Labels for grouping links, stored lowercase", example: ["catalog", "spring-2026"] })
+
+const redirectTypeSchema = z
+  .union([z.literal(301), z.literal(302), z.literal(307), z.literal(308)])
+  .openapi({ description: `HTTP status used for the redirect: ${REDIRECT_STATUSES.join(", ")}`, example: 302 })
+
+// Optional link settings shared by the create and update bodies
+const linkSettingFields = {
+  maxClicks: z.number().int().positive().nullable().optional().openapi({ description: "Expire after this many clicks" }),
+  expiredRedirectUrl: z.string().min(1).nullable().optional().openapi({ description: "Fallback URL once expired" }),
+  expiredMessage: z
+    .string()
+    .max(EXPIRED_MESSAGE_MAX_LENGTH)
+    .nullable()
+    .optional()
+    .openapi({ description: "Custom message for the expired page" }),
+  password: z
+    .string()
+    .min(LINK_PASSWORD_MIN_LENGTH)
+    .max(LINK_PASSWORD_MAX_LENGTH)
+    .nullable()
+    .optional()
+    .openapi({ description: "Require this password before redirecting (write-only); null removes it" }),
+  activatesAt: z
+    .string()
+    .datetime()
+    .nullable()
+    .optional()
+    .openapi({ description: "The link answers 403 until this time; null makes it live immediately" }),
+  showCountdown: z.boolean().optional().openapi({ description: "Show a countdown to activatesAt on the holding page" }),
+  schedule: ScheduleSchema.nullable().optional(),
+  targetingRules: z.array(TargetingRuleSchema).max(MAX_TARGETING_RULES).optional(),
+  variants: variantsSchema.optional().openapi({ description: "Split visitors between destinations; [] ends the test" }),
+  trackConversions: z
+    .boolean()
+    .optional()
+    .openapi({ description: "Append a click ID (sl_cid) to the destination so landing pages can report conversions" }),
+  utmParams: UtmParamsSchema.nullable().optional(),
+  queryPassthrough: z
+    .enum(QUERY_PASSTHROUGH_MODES)
+    .nullable()
+    .optional()
+    .openapi({ description: "Forward the visitor's query string; on conflicts merge keeps the destination's value" }),
+  wildcard: z
+    .boolean()
+    .optional()
+    .openapi({ description: "Append the path after the short code to the destination, e.g. /abc123/docs" }),
+  tags: tagsSchema.optional(),
+}
+
+export const LinkSchema = z
+  .object({
+    shortCode: z.string().openapi({ example: "spring-sale" }),
+    shortUrl: z.string().url().openapi({ example: "https://example.com/spring-sale" }),
+    qrCodeUrl: z.string().url().openapi({
+      description: "SVG QR code for the link; see /api/qr/{shortCode} for sizes, colors, PNG and logos",
+      example: "https://example.com/api/qr/spring-sale",
+    }),
+    originalUrl: z.string().url(),
+    workspaceId: z.string().nullable(),
+    redirectType: redirectTypeSchema,
+    isPublic: z.boolean().openapi({ description: "Whether anyone with the link can view its analytics" }),
+    isActive: z.boolean(),
+    createdAt: z.string().datetime().nullable(),
+    expiresAt: z.string().datetime().nullable(),
+    maxClicks: z.number().int().nullable().openapi({ description: "The link expires after this many clicks" }),
+    expiredRedirectUrl: z.string().url().nullable().openapi({ description: "Where expired links send visitors" }),
+    expiredMessage: z.string().nullable().openapi({ description: "Shown on the expired page instead of the default" }),
+    passwordProtected: z.boolean().openapi({ description: "Visitors must enter a password before being redirected" }),
+    activatesAt: z.string().datetime().nullable(),
+    showCountdown: z.boolean(),
+    schedule: ScheduleSchema.nullable(),
+    targetingRules: z.array(TargetingRuleSchema),
+    variants: z.array(VariantSchema),
+    trackConversions: z.boolean(),
+    utmParams: UtmParamsSchema.nullable(),
+    queryPassthrough: z.enum(QUERY_PASSTHROUGH_MODES).nullable(),
+    wildcard: z.boolean(),
+    tags: tagsSchema,
+  })
+  .openapi("Link")
+
+export const CreateLinkBodySchema = z
+  .object({
+    url: z.string().min(1).openapi({ description: "Destination URL (http or https)", example: "https://example.org" }),
+    alias: z.string().optional().openapi({ description: "Custom short code", example: "spring-sale" }),
+    redirectType: redirectTypeSchema.optional(),
+    isPublic: z.boolean().optional(),
+    expiresAt: z
+      .string()
+      .datetime()
+      .nullable()
+      .optional()
+      .openapi({ description: "Absolute expiry, or null to never expire. Defaults to the workspace's default expiry." }),
+    expiresIn: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .openapi({ description: "Expire this many seconds after creation (instead of expiresAt)", example: 604800 }),
+    ...linkSettingFields,
+    workspaceId: z
+      .string()
+      .optional()
+      .openapi({ description: "Defaults to the key's workspace (or the key owner's personal workspace)" }),
+  })
+  .openapi("CreateLinkBody")
+
+export const BulkCreateLinksBodySchema = z
+  .object({
+    links: z
+      .array(z.record(z.unknown()))
+      .min(1)
+      .max(BULK_MAX_LINKS)
+      .openapi({
+        description:
+          "Objects with url and optionally alias, tags and expiresAt (ISO date, or null to never expire). " +
+          "Invalid rows are reported in the results instead of failing the request.",
+        example: [{ url: "https://example.org/shoes", alias: "shoes", tags: ["catalog"] }],
+      }),
+    workspaceId: z
+      .string()
+      .optional()
+      .openapi({ description: "Defaults to the key's workspace (or the key owner's personal workspace)" }),
+  })
+  .openapi("BulkCreateLinksBody")
+
+export const BulkCreateLinksResultSchema = z
+  .object({
+    created: z.number().int(),
+    failed: z.number().int(),
+    results: z.array(
+      z.object({
+        row: z.number().int().openapi({ description: "Index of the row in links" }),
+        status: z.enum(["created", "error"]),
+        link: LinkSchema.optional(),
+        error: z.string().optional(),
+      }),
+    ),
+  })
+  .openapi("BulkCreateLinksResult")
+
+export const UpdateLinkBodySchema = z
+  .object({
+    originalUrl: z.string().min(1).optional(),
+    redirectType: redirectTypeSchema.optional(),
+    isPublic: z.boolean().optional(),
+    isActive: z.boolean().optional().openapi({ description: "Inactive links stop redirecting until reactivated" }),
+    expiresAt: z
+      .string()
+      .datetime()
+      .nullable()
+      .optional()
+      .openapi({ description: "New expiry (must be in the future), or null to never expire" }),
+    ...linkSettingFields,
+  })
+  .openapi("UpdateLinkBody")
+
+export const ListLinksQuerySchema = z.object({
+  workspaceId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().optional().openapi({ description: "nextCursor from the previous page" }),
+})
+
+export const LinkListSchema = z
+  .object({
+    links: z.array(LinkSchema),
+    nextCursor: z.string().nullable(),
+  })
+  .openapi("LinkList")
+
+const rangeKeys = Object.keys(ROLLUP_RANGES) as [RollupRange, ...RollupRange[]]
+
+export const AnalyticsQuerySchema = z.object({
+  range: z.enum(rangeKeys).default("30d"),
+})
+
+const countsSchema = z.record(z.number())
+
+export const LinkAnalyticsSchema = z
+  .object({
+    shortCode: z.string(),
+    totalClicks: z.number().int(),
+    conversions: z
+      .object({
+        total: z.number().int(),
+        rate: z.number().openapi({ description: "Conversions per 100 clicks, all time", example: 3.2 }),
+        value: z.number().openapi({ description: "Sum of the reported conversion values" }),
+        goals: countsSchema.openapi({ description: "Conversions per goal name" }),
+      })
+      .openapi({ description: "Goals reported by landing pages for links with trackConversions on" }),
+    range: z.enum(rangeKeys),
+    granularity: z.enum(["hour", "day"]),
+    summary: z.object({
+      clicks: z.number().int(),
+      uniqueVisitors: z.number().int(),
+      referrers: countsSchema,
+      countries: countsSchema,
+      devices: countsSchema,
+      rules: countsSchema.openapi({
+        description: 'Clicks per targeting rule id; "default" counts clicks no rule matched',
+      }),
+      variants: countsSchema.openapi({ description: "Clicks per A/B variant id" }),
+      campaigns: countsSchema.openapi({ description: "Clicks per utm_campaign of the destination" }),
+      qrScans: z.number().int().openapi({ description: "Clicks that came from scanning the link's QR code" }),
+    }),
+    series: z.array(
+      z.object({
+        periodStart: z.string().datetime(),
+        clicks: z.number().int(),
+        uniqueVisitors: z.number().int(),
+        variants: countsSchema,
+      }),
+    ),
+  })
+  .openapi("LinkAnalytics")
+
+export const ErrorEnvelopeSchema = z
+  .object({
+    error: z.object({
+      code: z.enum([
+        "invalid_request",
+        "unauthorized",
+        "forbidden",
+        "not_found",
+        "conflict",
+        "rate_limited",
+        "internal_error",
+      ]),
+      message: z.string(),
+      details: z.unknown().optional(),
+    }),
+  })
+  .openapi("Error")
+
+export const DeletedLinkSchema = z
+  .object({
+    shortCode: z.string(),
+    deleted: z.literal(true),
+    purgeAt: z.string().datetime().openapi({ description: "When the link is permanently removed from the trash" }),
+  })
+  .openapi("DeletedLink")
+
+const shortCodeParams = z.object({ shortCode: z.string().openapi({ param: { name: "shortCode", in: "path" } }) })
+
+function json<T extends z.ZodTypeAny>(schema: T, description: string) {
+  return { description, content: { "application/json": { schema } } }
+}
+
+const errorResponses = {
+  400: json(ErrorEnvelopeSchema, "Invalid request"),
+  401: json(ErrorEnvelopeSchema, "Missing, invalid or revoked API key"),
+  403: json(ErrorEnvelopeSchema, "The API key lacks the required scope or role"),
+  404: json(ErrorEnvelopeSchema, "Not found"),
+  429: json(ErrorEnvelopeSchema, "Rate limit exceeded - see the Retry-After and X-RateLimit-* headers"),
+}
+
+export function generateOpenApiDocument(serverUrl: string) {
+  const registry = new OpenAPIRegistry()
+
+  const bearerAuth = registry.registerComponent("securitySchemes", "apiKey", {
+    type: "http",
+    scheme: "bearer",
+    description: `API key (sl_...). Scopes: ${API_KEY_SCOPES.join(", ")}`,
+  })
+  const security = [{ [bearerAuth.name]: [] }]
+
+  registry.registerPath({
+    method: "get",
+    path: "/links",
+    summary: "List links",
+    description: "Requires links:read. Newest first.",
+    security,
+    request: { query: ListLinksQuerySchema },
+    responses: { 200: json(LinkListSchema, "A page of links"), ...errorResponses },
+  })
+
+  registry.registerPath({
+    method: "post",
+    path: "/links",
+    summary: "Create a link",
+    description: "Requires links:write.",
+    security,
+    request: { body: { content: { "application/json": { schema: CreateLinkBodySchema } } } },
+    responses: {
+      201: json(LinkSchema, "The created link"),
+      ...errorResponses,
+      409: json(ErrorEnvelopeSchema, "Alias is already taken"),
+    },
+  })
+
+  registry.registerPath({
+    method: "post",
+    path: "/links/bulk",
+    summary: "Create links in bulk",
+    description: `Requires links:write. Up to ${BULK_MAX_LINKS} links per request; each row succeeds or fails alone.`,
+    security,
+    request: { body: { content: { "application/json": { schema: BulkCreateLinksBodySchema } } } },
+    responses: { 200: json(BulkCreateLinksResultSchema, "One result per row, in order"), ...errorResponses },
+  })
+
+  registry.registerPath({
+    method: "get",
+    path: "/links/{shortCode}",
+    summary: "Get a link",
+    description: "Requires links:read.",
+    security,
+    request: { params: shortCodeParams },
+    responses: { 200: json(LinkSchema, "The link"), ...errorResponses },
+  })
+
+  registry.registerPath({
+    method: "patch",
+    path: "/links/{shortCode}",
+    summary: "Update a link",
+    description: "Requires links:write.",
+    security,
+    request: {
+      params: shortCodeParams,
+      body: { content: { "application/json": { schema: UpdateLinkBodySchema } } },
+    },
+    responses: { 200: json(LinkSchema, "The updated link"), ...errorResponses },
+  })
+
+  registry.registerPath({
+    method: "delete",
+    path: "/links/{shortCode}",
+    summary: "Delete a link",
+    description:
+      "Requires links:write. The link moves to the trash (redirects answer 410 Gone) and can be restored " +
+      "from the app until purgeAt.",
+    security,
+    request: { params: shortCodeParams },
+    responses: { 200: json(DeletedLinkSchema, "The link was moved to the trash"), ...errorResponses },
+  })
+
+  registry.registerPath({
+    method: "get",
+    path: "/links/{shortCode}/analytics",
+    summary: "Get link analytics",
+    description: "Requires analytics:read. Aggregated from hourly (24h) or daily rollups.",
+    security,
+    request: { params: shortCodeParams, query: AnalyticsQuerySchema },
+    responses: { 200: json(LinkAnalyticsSchema, "Click analytics for the range"), ...errorResponses },
+  })
+
+  return new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: "3.0.3",
+    info: { title: "ShortLink API", version: "1.0.0" },
+    servers: [{ url: serverUrl }],
+  })
+}
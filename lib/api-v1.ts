@@ -0,0 +1,226 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ZodError } from "zod"
+import { verifyApiKey, looksLikeApiKey, type ApiKey, type ApiKeyScope } from "./api-keys"
+import { ensureServerSession } from "./server-auth"
+import { getMemberRole, hasRole, type WorkspaceRole } from "./workspaces"
+import { getLink, LinkError, type BulkLinkResult } from "./link-service"
+import { DEFAULT_REDIRECT_STATUS } from "./redirects"
+import { getQrImageUrl } from "./qr"
+import { isPasswordProtected } from "./links"
+import type { UrlData } from "./analytics-clean"
+import type { LinkActor } from "./link-history"
+import { enforceRateLimit, getClientIp, RATE_LIMITS, RateLimitError, rateLimitHeaders } from "./rate-limit"
+
+// Shared plumbing for the /api/v1 routes: API key authentication and the
+// error envelope every v1 error uses:
+//
+//   { "error": { "code": "not_found", "message": "Short code not found" } }
+export type ApiErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "rate_limited"
+  | "internal_error"
+
+const STATUS_CODES: Record<number, ApiErrorCode> = {
+  400: "invalid_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  429: "rate_limited",
+  500: "internal_error",
+}
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string,
+    public details?: unknown,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+export function apiErrorResponse(status: number, code: ApiErrorCode, message: string, details?: unknown) {
+  return NextResponse.json({ error: { code, message, ...(details ? { details } : {}) } }, { status })
+}
+
+// Turn anything thrown by a v1 handler into an error envelope
+export function handleApiError(error: unknown): NextResponse {
+  if (error instanceof ApiError) {
+    return apiErrorResponse(error.status, error.code, error.message, error.details)
+  }
+  if (error instanceof RateLimitError) {
+    const response = apiErrorResponse(429, "rate_limited", "Rate limit exceeded. Retry after the Retry-After delay.")
+    Object.entries(rateLimitHeaders(error.result)).forEach(([name, value]) => response.headers.set(name, value))
+    return response
+  }
+  if (error instanceof LinkError) {
+    return apiErrorResponse(error.status, STATUS_CODES[error.status] || "internal_error", error.message)
+  }
+  if (error instanceof ZodError) {
+    return apiErrorResponse(400, "invalid_request", "Request validation failed", error.flatten())
+  }
+  if (error instanceof SyntaxError) {
+    return apiErrorResponse(400, "invalid_request", "Request body must be valid JSON")
+  }
+
+  console.error("❌ API v1 error:", error)
+  return apiErrorResponse(500, "internal_error", "Internal server error")
+}
+
+function toIsoString(value: any): string | null {
+  return value?.toDate?.()?.toISOString() || null
+}
+
+// Public representation of a link in v1 responses (see LinkSchema)
+export function serializeLink(urlData: UrlData, origin: string) {
+  return {
+    shortCode: urlData.shortCode,
+    shortUrl: `${origin}/${urlData.shortCode}`,
+    qrCodeUrl: `${origin}${getQrImageUrl(urlData.shortCode)}`,
+    originalUrl: urlData.originalUrl,
+    workspaceId: urlData.workspaceId || null,
+    redirectType: urlData.redirectType || DEFAULT_REDIRECT_STATUS,
+    isPublic: urlData.isPublic === true,
+    isActive: urlData.isActive,
+    createdAt: toIsoString(urlData.createdAt),
+    expiresAt: toIsoString(urlData.expiresAt),
+    maxClicks: urlData.maxClicks ?? null,
+    expiredRedirectUrl: urlData.expiredRedirectUrl || null,
+    expiredMessage: urlData.expiredMessage || null,
+    passwordProtected: isPasswordProtected(urlData), // the hash itself is never returned
+    activatesAt: toIsoString(urlData.activatesAt),
+    showCountdown: urlData.showCountdown === true,
+    schedule: urlData.schedule || null,
+    targetingRules: urlData.targetingRules || [],
+    variants: urlData.variants || [],
+    trackConversions: urlData.trackConversions === true,
+    utmParams: urlData.utmParams || null,
+    queryPassthrough: urlData.queryPassthrough || null,
+    wildcard: urlData.wildcard === true,
+    tags: urlData.tags || [],
+  }
+}
+
+// Bulk creation results with counts (see BulkCreateLinksResultSchema)
+export function serializeBulkResults(results: BulkLinkResult[], origin: string) {
+  return {
+    created: results.filter((result) => result.status === "created").length,
+    failed: results.filter((result) => result.status === "error").length,
+    results: results.map((result) =>
+      result.status === "created"
+        ? { row: result.row, status: result.status, link: serializeLink(result.link, origin) }
+        : result,
+    ),
+  }
+}
+
+export interface ApiContext {
+  apiKey: ApiKey
+}
+
+// Attribution for link history entries written through the API
+export function apiKeyActor(context: ApiContext): LinkActor {
+  return { uid: context.apiKey.userId, via: "api", apiKeyId: context.apiKey.id }
+}
+
+const SCOPE_ROLES: Record<ApiKeyScope, WorkspaceRole> = {
+  "links:read": "viewer",
+  "analytics:read": "viewer",
+  "links:write": "editor",
+}
+
+// Authenticate the request's API key (Authorization: Bearer sl_...) and require a scope.
+// Requests are rate limited per IP before the key is checked, and per key after.
+export async function authenticateApiKey(request: NextRequest, scope: ApiKeyScope): Promise<ApiContext> {
+  await enforceRateLimit(RATE_LIMITS.api, [`ip:${getClientIp(request)}`])
+
+  const header = request.headers.get("authorization") || ""
+  const token = header.match(/^Bearer (.+)$/i)?.[1]
+
+  if (!token || !looksLikeApiKey(token)) {
+    throw new ApiError(401, "unauthorized", "Missing API key. Send it as: Authorization: Bearer <key>")
+  }
+
+  await ensureServerSession()
+  const apiKey = await verifyApiKey(token)
+  if (!apiKey) {
+    throw new ApiError(401, "unauthorized", "Invalid or revoked API key")
+  }
+
+  await enforceRateLimit(RATE_LIMITS.api, [`key:${apiKey.id}`])
+
+  if (!apiKey.scopes.includes(scope)) {
+    throw new ApiError(403, "forbidden", `This API key is missing the ${scope} scope`)
+  }
+
+  return { apiKey }
+}
+
+// Check the key may act in a workspace with the role the scope needs.
+// User keys use their creator's current role; workspace keys only work in their own workspace.
+export async function requireWorkspaceAccess(
+  context: ApiContext,
+  workspaceId: string,
+  scope: ApiKeyScope,
+): Promise<void> {
+  const { apiKey } = context
+
+  if (apiKey.type === "workspace") {
+    if (workspaceId !== apiKey.workspaceId) {
+      throw new ApiError(403, "forbidden", "This API key is bound to a different workspace")
+    }
+    return
+  }
+
+  const role = await getMemberRole(workspaceId, apiKey.userId)
+  if (!role) {
+    throw new ApiError(404, "not_found", "Workspace not found")
+  }
+  if (!hasRole(role, SCOPE_ROLES[scope])) {
+    throw new ApiError(403, "forbidden", `This action requires the ${SCOPE_ROLES[scope]} role`)
+  }
+}
+
+// Load a link the key can access - links outside the key's reach are reported as not found
+export async function requireLink(context: ApiContext, shortCode: string, scope: ApiKeyScope): Promise<UrlData> {
+  const { apiKey } = context
+  const notFound = new ApiError(404, "not_found", "Short code not found")
+
+  // Trashed links are gone as far as the API is concerned
+  const urlData = await getLink(shortCode)
+  if (!urlData || urlData.deletedAt) {
+    throw notFound
+  }
+
+  // Links from before workspaces existed belong to their creator alone
+  if (!urlData.workspaceId) {
+    if (apiKey.type === "user" && urlData.ownerId === apiKey.userId) {
+      return urlData
+    }
+    throw notFound
+  }
+
+  if (apiKey.type === "workspace") {
+    if (urlData.workspaceId !== apiKey.workspaceId) {
+      throw notFound
+    }
+    return urlData
+  }
+
+  const role = await getMemberRole(urlData.workspaceId, apiKey.userId)
+  if (!role) {
+    throw notFound
+  }
+  if (!hasRole(role, SCOPE_ROLES[scope])) {
+    throw new ApiError(403, "forbidden", `This action requires the ${SCOPE_ROLES[scope]} role`)
+  }
+
+  return urlData
+}
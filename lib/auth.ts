@@ -0,0 +1,68 @@
+import {
+  GithubAuthProvider,
+  GoogleAuthProvider,
+  isSignInWithEmailLink,
+  sendSignInLinkToEmail,
+  signInWithEmailLink,
+  signInWithPopup,
+  signOut as firebaseSignOut,
+  type AuthProvider,
+} from "firebase/auth"
+import { auth } from "./firebase"
+
+export type OAuthProviderId = "google" | "github"
+
+const EMAIL_FOR_SIGN_IN_KEY = "emailForSignIn"
+
+function getProvider(providerId: OAuthProviderId): AuthProvider {
+  switch (providerId) {
+    case "google":
+      return new GoogleAuthProvider()
+    case "github":
+      return new GithubAuthProvider()
+  }
+}
+
+export async function signInWithOAuth(providerId: OAuthProviderId): Promise<void> {
+  await signInWithPopup(auth, getProvider(providerId))
+}
+
+// Email the user a one-time sign-in link that lands back on the current /login URL
+export async function sendEmailSignInLink(email: string): Promise<void> {
+  await sendSignInLinkToEmail(auth, email, {
+    url: `${window.location.origin}/login${window.location.search}`,
+    handleCodeInApp: true,
+  })
+  window.localStorage.setItem(EMAIL_FOR_SIGN_IN_KEY, email)
+}
+
+export function isEmailSignInLink(url: string): boolean {
+  return isSignInWithEmailLink(auth, url)
+}
+
+// Finish an email link sign-in. The email is only needed when the link is opened on another device.
+export async function completeEmailLinkSignIn(url: string, email?: string): Promise<void> {
+  const storedEmail = email || window.localStorage.getItem(EMAIL_FOR_SIGN_IN_KEY)
+  if (!storedEmail) {
+    throw new Error("Please enter the email address the sign-in link was sent to")
+  }
+
+  await signInWithEmailLink(auth, storedEmail, url)
+  window.localStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY)
+}
+
+export async function signOut(): Promise<void> {
+  await firebaseSignOut(auth)
+}
+
+// fetch() that sends the signed-in user's ID token to our API routes
+export async function authFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers)
+  const token = await auth.currentUser?.getIdToken()
+
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`)
+  }
+
+  return fetch(input, { ...init, headers })
+}
@@ -0,0 +1,363 @@
+import {
+  Bytes,
+  collection,
+  doc,
+  documentId,
+  DocumentReference,
+  GeoPoint,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  Timestamp,
+  writeBatch,
+  type CollectionReference,
+  type QueryDocumentSnapshot,
+  type QuerySnapshot,
+} from "firebase/firestore"
+import { db } from "./firebase"
+import { backfillRollups } from "./rollups"
+import { deleteLinkAnalytics } from "./link-service"
+
+// Backups of links, their analytics and the workspaces they belong to as versioned NDJSON archives. The first line is a header,
+// then one line per document ({ path, data }), then a footer with per-collection counts so a
+// truncated archive can be told apart from a complete one. Firestore values that JSON can't hold
+// are tagged ({ "$timestamp": { seconds, nanoseconds } }, "$geopoint", "$reference", "$bytes").
+// Rollups aren't backed up: a restore rebuilds them from the restored click events (see backfillRollups).
+
+export const BACKUP_FORMAT = "shortlink-backup"
+export const BACKUP_VERSION = 1
+
+// Top-level collections and the subcollections saved under each of their documents.
+// The client SDK can't list subcollections, so they have to be named here.
+// Workspaces come first: links point at them, and only their members can see the links.
+const BACKUP_COLLECTIONS: Record<string, string[]> = {
+  workspaces: ["members", "utmPresets"],
+  urls: ["history"],
+  analytics: ["clicks", "conversions", "shards"],
+  linkSecrets: [],
+}
+
+// Restores work per top-level document and its subcollections (a link's analytics, say), so two click
+// histories are never mixed. merge: anything already in the project is left as it is; overwrite: the
+// archive's version replaces it, and a link's local click events, shards and rollups are deleted first.
+export const RESTORE_MODES = ["merge", "overwrite"] as const
+
+export type RestoreMode = (typeof RESTORE_MODES)[number]
+
+export interface BackupHeader {
+  type: "header"
+  format: typeof BACKUP_FORMAT
+  version: number
+  exportedAt: string // ISO date
+}
+
+export interface BackupDocument {
+  type: "document"
+  path: string // e.g. "analytics/abc123/clicks/xyz"
+  data: Record<string, unknown>
+}
+
+export interface BackupFooter {
+  type: "footer"
+  counts: Record<string, number> // documents per collection, e.g. { "urls": 10, "analytics/clicks": 250 }
+}
+
+export interface RestoreResult {
+  dryRun: boolean
+  mode: RestoreMode
+  exportedAt: string
+  written: number // documents written, or that would be written in a dry run
+  skipped: number // archive documents left out because their parent already exists (merge mode)
+  counts: Record<string, number>
+  complete: boolean // false when the footer is missing or doesn't match the documents read
+  rollupsRebuilt: number // links whose rollups were rebuilt from the restored clicks
+}
+
+// Thrown for archives that can't be restored; the API route turns it into a 400 response
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "BackupError"
+  }
+}
+
+const EXPORT_PAGE_SIZE = 500
+// A write batch holds at most 500 writes
+const RESTORE_BATCH_SIZE = 400
+
+// "analytics/abc123/clicks/xyz" → "analytics/clicks"
+function collectionKey(path: string): string {
+  return path
+    .split("/")
+    .filter((_, index) => index % 2 === 0)
+    .join("/")
+}
+
+function isBackupPath(path: string): boolean {
+  const segments = path.split("/")
+  if (segments.length % 2 !== 0 || segments.some((segment) => !segment)) return false
+  const [name, ...subcollection] = collectionKey(path).split("/")
+  const subcollections = BACKUP_COLLECTIONS[name]
+  if (!subcollections) return false
+  return subcollection.length === 0 || (subcollection.length === 1 && subcollections.includes(subcollection[0]))
+}
+
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Timestamp) {
+    return { $timestamp: { seconds: value.seconds, nanoseconds: value.nanoseconds } }
+  }
+  if (value instanceof GeoPoint) {
+    return { $geopoint: { latitude: value.latitude, longitude: value.longitude } }
+  }
+  if (value instanceof DocumentReference) {
+    return { $reference: value.path }
+  }
+  if (value instanceof Bytes) {
+    return { $bytes: value.toBase64() }
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue)
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, encodeValue(entry)]))
+  }
+  return value
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue)
+  }
+  if (!value || typeof value !== "object") {
+    return value
+  }
+
+  const tagged = value as Record<string, any>
+  const keys = Object.keys(tagged)
+  if (keys.length === 1) {
+    const [key] = keys
+    if (key === "$timestamp") return new Timestamp(tagged.$timestamp.seconds, tagged.$timestamp.nanoseconds)
+    if (key === "$geopoint") return new GeoPoint(tagged.$geopoint.latitude, tagged.$geopoint.longitude)
+    if (key === "$reference") return doc(db, tagged.$reference)
+    if (key === "$bytes") return Bytes.fromBase64String(tagged.$bytes)
+  }
+  return Object.fromEntries(keys.map((key) => [key, decodeValue(tagged[key])]))
+}
+
+// Every document of a collection, a page at a time
+async function* readCollection(ref: CollectionReference): AsyncGenerator<QueryDocumentSnapshot> {
+  let last: QueryDocumentSnapshot | null = null
+  while (true) {
+    const page: QuerySnapshot = await getDocs(
+      query(ref, orderBy(documentId()), ...(last ? [startAfter(last)] : []), limit(EXPORT_PAGE_SIZE)),
+    )
+    for (const snapshot of page.docs) yield snapshot
+    if (page.size < EXPORT_PAGE_SIZE) return
+    last = page.docs[page.docs.length - 1]
+  }
+}
+
+// Write a backup archive as NDJSON lines (each ending in "\n"), one document at a time
+export async function* exportBackup(): AsyncGenerator<string> {
+  const counts: Record<string, number> = {}
+  const line = (record: BackupHeader | BackupDocument | BackupFooter) => `${JSON.stringify(record)}\n`
+  const documentLine = (snapshot: QueryDocumentSnapshot) => {
+    const key = collectionKey(snapshot.ref.path)
+    counts[key] = (counts[key] || 0) + 1
+    const data = encodeValue(snapshot.data()) as BackupDocument["data"]
+    return line({ type: "document", path: snapshot.ref.path, data })
+  }
+
+  console.log("💾 Starting backup export...")
+  yield line({ type: "header", format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString() })
+
+  for (const [name, subcollections] of Object.entries(BACKUP_COLLECTIONS)) {
+    for await (const parent of readCollection(collection(db, name))) {
+      yield documentLine(parent)
+      for (const subcollection of subcollections) {
+        for await (const child of readCollection(collection(parent.ref, subcollection))) {
+          yield documentLine(child)
+        }
+      }
+    }
+  }
+
+  yield line({ type: "footer", counts })
+  console.log("✅ Backup export complete:", counts)
+}
+
+function parseLine(text: string, lineNumber: number): BackupHeader | BackupDocument | BackupFooter {
+  let record: any
+  try {
+    record = JSON.parse(text)
+  } catch {
+    throw new BackupError(`Line ${lineNumber} is not valid JSON`)
+  }
+
+  if (record?.type === "header") {
+    if (record.format !== BACKUP_FORMAT) {
+      throw new BackupError("This is not a link backup archive")
+    }
+    if (typeof record.version !== "number" || record.version > BACKUP_VERSION) {
+      throw new BackupError(`Backup version ${record.version} is newer than this app supports (${BACKUP_VERSION})`)
+    }
+    return record
+  }
+  if (record?.type === "document") {
+    if (typeof record.path !== "string" || !isBackupPath(record.path)) {
+      throw new BackupError(`Line ${lineNumber}: "${record.path}" is not a path this backup can restore`)
+    }
+    if (!record.data || typeof record.data !== "object" || Array.isArray(record.data)) {
+      throw new BackupError(`Line ${lineNumber}: document data must be an object`)
+    }
+    return record
+  }
+  if (record?.type === "footer" && record.counts && typeof record.counts === "object") {
+    return record
+  }
+  throw new BackupError(`Line ${lineNumber} is not a header, document or footer`)
+}
+
+// Whether a top-level document, or any document in its backed-up subcollections, exists in this project
+async function existsLocally(path: string): Promise<boolean> {
+  const [name] = path.split("/")
+  if ((await getDoc(doc(db, path))).exists()) return true
+  for (const subcollection of BACKUP_COLLECTIONS[name]) {
+    if (!(await getDocs(query(collection(db, path, subcollection), limit(1)))).empty) return true
+  }
+  return false
+}
+
+// Replay an archive into this project, RESTORE_BATCH_SIZE documents per write batch. Batches are written
+// as the archive is read, so a bad line stops the restore part way - a dry run reads the whole archive and
+// reports problems without writing anything. See RESTORE_MODES for what happens to existing data.
+export async function restoreBackup(
+  lines: AsyncIterable<string>,
+  options: { mode: RestoreMode; dryRun: boolean },
+): Promise<RestoreResult> {
+  const { mode, dryRun } = options
+  let header: BackupHeader | null = null
+  let footer: BackupFooter | null = null
+  let pending: BackupDocument[] = []
+  const counts: Record<string, number> = {}
+  let written = 0
+  let skipped = 0
+  let lineNumber = 0
+  const restoredAnalytics = new Set<string>()
+  // Top-level document path → whether its documents are restored
+  const restoring = new Map<string, boolean>()
+
+  const flush = async () => {
+    if (!dryRun && pending.length > 0) {
+      const batch = writeBatch(db)
+      for (const record of pending) {
+        batch.set(doc(db, record.path), decodeValue(record.data) as Record<string, unknown>)
+      }
+      await batch.commit()
+    }
+    written += pending.length
+    pending = []
+  }
+
+  // Decide once per top-level document, when the archive reaches it (children follow their parent)
+  const shouldRestore = async (path: string): Promise<boolean> => {
+    const [name, id] = path.split("/")
+    const parentPath = `${name}/${id}`
+    const decided = restoring.get(parentPath)
+    if (decided !== undefined) return decided
+
+    const exists = await existsLocally(parentPath)
+    const restore = mode === "overwrite" || !exists
+    restoring.set(parentPath, restore)
+    if (restore && name === "analytics") {
+      restoredAnalytics.add(id)
+      if (exists && !dryRun) {
+        // The archive's clicks replace the local ones rather than adding to them
+        await flush()
+        await deleteLinkAnalytics(id)
+      }
+    }
+    return restore
+  }
+
+  console.log(`♻️ Starting backup restore (${mode}${dryRun ? ", dry run" : ""})...`)
+  for await (const text of lines) {
+    lineNumber++
+    if (!text.trim()) continue
+
+    const record = parseLine(text, lineNumber)
+    if (!header) {
+      if (record.type !== "header") {
+        throw new BackupError("The archive must start with a header line")
+      }
+      header = record
+      continue
+    }
+    if (record.type === "header" || footer) {
+      throw new BackupError(`Line ${lineNumber}: unexpected ${record.type} line`)
+    }
+    if (record.type === "footer") {
+      footer = record
+      continue
+    }
+
+    const key = collectionKey(record.path)
+    counts[key] = (counts[key] || 0) + 1
+    if (!(await shouldRestore(record.path))) {
+      skipped++
+      continue
+    }
+    pending.push(record)
+    if (pending.length >= RESTORE_BATCH_SIZE) {
+      await flush()
+    }
+  }
+  if (!header) {
+    throw new BackupError("The archive is empty")
+  }
+  await flush()
+
+  const expected = footer ? Object.entries(footer.counts).filter(([, count]) => count > 0) : []
+  const complete =
+    !!footer &&
+    expected.length === Object.keys(counts).length &&
+    expected.every(([key, count]) => counts[key] === count)
+  if (!complete) {
+    console.warn(`⚠️ Backup archive is incomplete: ${footer ? "counts don't match the footer" : "no footer"}`)
+  }
+
+  // Charts read rollups, so the links whose clicks came back need theirs rebuilt
+  if (!dryRun && restoredAnalytics.size > 0) {
+    await backfillRollups([...restoredAnalytics])
+  }
+
+  console.log(`✅ Backup restore complete: ${written} written, ${skipped} skipped`)
+  return {
+    dryRun,
+    mode,
+    exportedAt: header.exportedAt,
+    written,
+    skipped,
+    counts,
+    complete,
+    rollupsRebuilt: dryRun ? 0 : restoredAnalytics.size,
+  }
+}
+
+// Split a byte stream (a request body, say) into lines
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ""
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += value
+    const lines = buffer.split("\n")
+    buffer = lines.pop() || ""
+    for (const line of lines) yield line
+  }
+  if (buffer) yield buffer
+}
@@ -0,0 +1,89 @@
+import { parseCsv, toCsv } from "./csv"
+import { parseTagList } from "./tags"
+
+// Bulk upload files. CSV needs a header row with a url column; alias, tags (separated by commas or
+// semicolons) and expiresAt columns are optional. JSON is an array of { url, alias?, tags?, expiresAt? }.
+// An empty expiresAt uses the workspace default and "never" means the link never expires.
+
+export const BULK_CSV_COLUMNS = ["url", "alias", "tags", "expiresAt"] as const
+
+export interface BulkUploadRow {
+  url: string
+  alias?: string
+  tags?: string[]
+  expiresAt?: string | null
+}
+
+// One row of the bulk endpoints' response (see serializeBulkResults)
+export type BulkUploadResult =
+  | { row: number; status: "created"; link: { shortCode: string; shortUrl: string } }
+  | { row: number; status: "error"; error: string }
+
+function parseExpiry(trimmed: string): string | null | undefined {
+  if (!trimmed) return undefined
+  if (trimmed.toLowerCase() === "never") return null
+  // Dates without a time (2026-12-31) are read as local midnight; invalid dates are left to the server to report
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00` : trimmed)
+  return Number.isNaN(date.getTime()) ? trimmed : date.toISOString()
+}
+
+function parseCsvRows(text: string): BulkUploadRow[] {
+  const [header, ...lines] = parseCsv(text)
+  const columns = (header || []).map((column) => column.trim().toLowerCase())
+  const columnIndex = (name: string) => columns.indexOf(name.toLowerCase())
+  if (columnIndex("url") === -1) {
+    const optional = BULK_CSV_COLUMNS.slice(1).join(", ")
+    throw new Error(`The CSV needs a header row with a url column (and optionally ${optional})`)
+  }
+
+  const cell = (line: string[], name: string) => (columnIndex(name) === -1 ? "" : line[columnIndex(name)] || "").trim()
+  return lines.map((line) => {
+    const expiresAt = parseExpiry(cell(line, "expiresAt"))
+    return {
+      url: cell(line, "url"),
+      ...(cell(line, "alias") ? { alias: cell(line, "alias") } : {}),
+      ...(cell(line, "tags") ? { tags: parseTagList(cell(line, "tags")) } : {}),
+      ...(expiresAt !== undefined ? { expiresAt } : {}),
+    }
+  })
+}
+
+function parseJsonRows(text: string): BulkUploadRow[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+  const rows = Array.isArray(data) ? data : (data as { links?: unknown })?.links
+  if (!Array.isArray(rows)) {
+    throw new Error("The JSON must be an array of links, or an object with a links array")
+  }
+  // Rows are checked by the server, so anything odd is reported per row rather than here
+  return rows as BulkUploadRow[]
+}
+
+// Read an uploaded file's rows; throws an Error with a readable message if the file can't be used
+export function parseBulkUpload(fileName: string, text: string): BulkUploadRow[] {
+  const isJson = fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text)
+  return isJson ? parseJsonRows(text) : parseCsvRows(text)
+}
+
+// The uploaded rows with their outcome, for download
+export function bulkResultsToCsv(rows: BulkUploadRow[], results: BulkUploadResult[]): string {
+  const byRow = new Map(results.map((result) => [result.row, result]))
+  return toCsv([
+    ["row", "url", "alias", "status", "shortUrl", "error"],
+    ...rows.map((row, index) => {
+      const result = byRow.get(index)
+      return [
+        String(index + 1),
+        String(row.url ?? ""),
+        String(row.alias ?? ""),
+        result?.status || "skipped",
+        result?.status === "created" ? result.link.shortUrl : "",
+        result?.status === "error" ? result.error : "",
+      ]
+    }),
+  ])
+}
@@ -0,0 +1,97 @@
+import {
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  serverTimestamp,
+} from "firebase/firestore"
+import { db } from "./firebase"
+import { getAnalyticsData, type UrlData } from "./analytics-clean"
+import type { UtmParams } from "./utm"
+
+// Campaign tooling on top of UTM templates (see utm.ts): reusable UTM presets per workspace,
+// stored as workspaces/{workspaceId}/utmPresets/{presetId}, and clicks grouped by campaign.
+
+export interface UtmPreset {
+  id: string
+  name: string
+  params: UtmParams
+  createdBy: string
+  createdAt: any
+}
+
+export interface CampaignSummary {
+  campaign: string
+  links: string[] // short codes
+  clicks: number
+  conversions: number
+}
+
+export const MAX_UTM_PRESETS = 50
+export const UTM_PRESET_NAME_MAX_LENGTH = 60
+
+// Links scanned for the campaign overview
+const CAMPAIGN_LINKS_LIMIT = 200
+
+function utmPresetsCollection(workspaceId: string) {
+  return collection(db, "workspaces", workspaceId, "utmPresets")
+}
+
+export async function getUtmPresets(workspaceId: string): Promise<UtmPreset[]> {
+  const presetsSnap = await getDocs(query(utmPresetsCollection(workspaceId), orderBy("name", "asc")))
+  return presetsSnap.docs.map((presetDoc) => ({ ...(presetDoc.data() as UtmPreset), id: presetDoc.id }))
+}
+
+export async function createUtmPreset(
+  workspaceId: string,
+  preset: Pick<UtmPreset, "name" | "params" | "createdBy">,
+): Promise<UtmPreset> {
+  const presetRef = doc(utmPresetsCollection(workspaceId))
+  const data = { ...preset, createdAt: serverTimestamp() }
+  await setDoc(presetRef, data)
+  return { ...data, id: presetRef.id }
+}
+
+export async function deleteUtmPreset(workspaceId: string, presetId: string): Promise<void> {
+  await deleteDoc(doc(utmPresetsCollection(workspaceId), presetId))
+}
+
+// Clicks and conversions per utm_campaign across the workspace's links, busiest campaign first.
+// Grouped by each link's UTM template; trashed links are left out.
+export async function getWorkspaceCampaigns(workspaceId: string): Promise<CampaignSummary[]> {
+  try {
+    const linksSnap = await getDocs(
+      query(
+        collection(db, "urls"),
+        where("workspaceId", "==", workspaceId),
+        orderBy("utmParams.utm_campaign", "asc"),
+        limit(CAMPAIGN_LINKS_LIMIT),
+      ),
+    )
+    const links = linksSnap.docs
+      .map((urlDoc) => ({ ...(urlDoc.data() as UrlData), shortCode: urlDoc.id }))
+      .filter((link) => !link.deletedAt && link.utmParams?.utm_campaign)
+
+    const analytics = await Promise.all(links.map((link) => getAnalyticsData(link.shortCode)))
+
+    const campaigns = new Map<string, CampaignSummary>()
+    links.forEach((link, index) => {
+      const campaign = link.utmParams!.utm_campaign!
+      const summary = campaigns.get(campaign) || { campaign, links: [], clicks: 0, conversions: 0 }
+      summary.links.push(link.shortCode)
+      summary.clicks += analytics[index]?.totalClicks || 0
+      summary.conversions += analytics[index]?.totalConversions || 0
+      campaigns.set(campaign, summary)
+    })
+
+    return [...campaigns.values()].sort((a, b) => b.clicks - a.clicks)
+  } catch (error) {
+    console.error("Error getting workspace campaigns:", error)
+    return []
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  doc,
+  getDoc,
+  getDocs,
+  collection,
+  onSnapshot,
+  increment,
+  serverTimestamp,
+  type DocumentData,
+  type DocumentReference,
+  type SetOptions,
+} from "firebase/firestore"
+import { db } from "./firebase"
+
+// Distributed click counter: each click increments one of N shard documents
+// under analytics/{shortCode}/shards, so no single document takes every write.
+// The total is the analytics document's totalClicks (clicks recorded before
+// sharding) plus the sum of all shards.
+export const CLICK_COUNTER_SHARDS = 10
+
+export interface ClickCounterShard {
+  count: number
+  lastClickAt?: any
+  workspaceId?: string
+}
+
+export interface ClickCount {
+  totalClicks: number
+  lastClickAt: any | null
+}
+
+// A write batch or a transaction
+interface ShardWriter {
+  set(reference: DocumentReference, data: DocumentData, options: SetOptions): unknown
+}
+
+export function shardsCollection(shortCode: string) {
+  return collection(db, "analytics", shortCode, "shards")
+}
+
+// Add a click increment on a random shard to an existing batch or transaction.
+// The link's workspaceId is kept on the shard for per-workspace top-link queries.
+export function incrementClickCounter(
+  writes: ShardWriter,
+  shortCode: string,
+  workspaceId?: string,
+): void {
+  const shardId = Math.floor(Math.random() * CLICK_COUNTER_SHARDS).toString()
+
+  writes.set(
+    doc(shardsCollection(shortCode), shardId),
+    {
+      count: increment(1),
+      lastClickAt: serverTimestamp(),
+      ...(workspaceId ? { workspaceId } : {}),
+    },
+    { merge: true },
+  )
+}
+
+function sumShards(baseCount: number, shards: ClickCounterShard[]): ClickCount {
+  let totalClicks = baseCount
+  let lastClickAt: any | null = null
+
+  for (const shard of shards) {
+    totalClicks += shard.count || 0
+    if (shard.lastClickAt && (!lastClickAt || shard.lastClickAt.toMillis?.() > lastClickAt.toMillis?.())) {
+      lastClickAt = shard.lastClickAt
+    }
+  }
+
+  return { totalClicks, lastClickAt }
+}
+
+// Read the current total for a short code
+export async function getShardedClickCount(shortCode: string): Promise<ClickCount> {
+  const [analyticsSnap, shardsSnap] = await Promise.all([
+    getDoc(doc(db, "analytics", shortCode)),
+    getDocs(shardsCollection(shortCode)),
+  ])
+
+  const baseCount = analyticsSnap.exists() ? analyticsSnap.data().totalClicks || 0 : 0
+  return sumShards(
+    baseCount,
+    shardsSnap.docs.map((shardDoc) => shardDoc.data() as ClickCounterShard),
+  )
+}
+
+// Real-time total for a short code - fires whenever the base count or any shard changes
+export function subscribeToShardedClickCount(shortCode: string, callback: (count: ClickCount) => void): () => void {
+  let baseCount: number | null = null
+  let shards: ClickCounterShard[] | null = null
+
+  const emit = () => {
+    // Wait until both listeners have delivered their first snapshot
+    if (baseCount === null || shards === null) return
+    callback(sumShards(baseCount, shards))
+  }
+
+  const unsubscribeBase = onSnapshot(
+    doc(db, "analytics", shortCode),
+    { includeMetadataChanges: true },
+    (snapshot) => {
+      baseCount = snapshot.exists() ? snapshot.data().totalClicks || 0 : 0
+      emit()
+    },
+    (error) => {
+      console.error("❌ Click counter base subscription error:", error)
+    },
+  )
+
+  const unsubscribeShards = onSnapshot(
+    shardsCollection(shortCode),
+    { includeMetadataChanges: true },
+    (snapshot) => {
+      shards = snapshot.docs.map((shardDoc) => shardDoc.data() as ClickCounterShard)
+      emit()
+    },
+    (error) => {
+      console.error("❌ Click counter shards subscription error:", error)
+    },
+  )
+
+  return () => {
+    unsubscribeBase()
+    unsubscribeShards()
+  }
+}
@@ -0,0 +1,58 @@
+// Conversion tracking. Links with trackConversions on get a click ID appended to the destination
+// (?sl_cid=<shortCode>.<clickDocId>); the landing page reports goals back to /api/conversions,
+// either with an image pixel or a JSON POST, and each conversion is attributed to that click.
+
+export const CLICK_ID_PARAM = "sl_cid"
+
+export const DEFAULT_CONVERSION_GOAL = "conversion"
+export const MAX_CONVERSION_VALUE = 1_000_000_000
+
+// Letters, digits, "-" and "_", e.g. "signup" or "checkout_complete"
+const GOAL_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]{0,39}$/
+// Firestore auto-generated document ids
+const CLICK_DOC_ID_PATTERN = /^[a-zA-Z0-9]{20}$/
+
+export function formatClickId(shortCode: string, clickDocId: string): string {
+  return `${shortCode}.${clickDocId}`
+}
+
+// Short codes never contain ".", so the click ID splits unambiguously
+export function parseClickId(clickId: unknown): { shortCode: string; clickDocId: string } | null {
+  if (typeof clickId !== "string") return null
+  const [shortCode, clickDocId, ...rest] = clickId.split(".")
+  if (!shortCode || !clickDocId || rest.length > 0 || !CLICK_DOC_ID_PATTERN.test(clickDocId)) {
+    return null
+  }
+  return { shortCode, clickDocId }
+}
+
+// Add the click ID to a destination, keeping its existing query string and fragment
+export function appendClickId(url: string, clickId: string): string {
+  try {
+    const destination = new URL(url)
+    destination.searchParams.set(CLICK_ID_PARAM, clickId)
+    return destination.toString()
+  } catch {
+    return url
+  }
+}
+
+// Returns an error message, or null if the goal name is usable
+export function validateConversionGoal(goal: unknown): string | null {
+  if (typeof goal !== "string" || !GOAL_PATTERN.test(goal)) {
+    return "goal must be 1-40 letters, numbers, hyphens or underscores"
+  }
+  return null
+}
+
+export function validateConversionValue(value: unknown): string | null {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > MAX_CONVERSION_VALUE) {
+    return `value must be a number between 0 and ${MAX_CONVERSION_VALUE}`
+  }
+  return null
+}
+
+// Conversions per click, as a percentage with one decimal
+export function conversionRate(conversions: number, clicks: number): number {
+  return clicks > 0 ? Math.round((conversions / clicks) * 1000) / 10 : 0
+}
@@ -0,0 +1,53 @@
+// Minimal RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes ("")
+
+// Parse CSV text into rows of fields. Blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== "") rows.push(row)
+    row = []
+    field = ""
+  }
+
+  // A byte order mark from spreadsheet exports would end up in the first header
+  const input = text.replace(/^\uFEFF/, "")
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+  if (field !== "" || row.length > 0) endRow()
+
+  return rows
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n"
+}
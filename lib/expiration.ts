@@ -0,0 +1,53 @@
+// Link expiry policies. A link can expire at a date (set directly or as a duration
+// from creation), after a number of clicks, both, or never. Links created without
+// an explicit choice use their workspace's default, then the global default.
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+// Global default in days, from NEXT_PUBLIC_DEFAULT_LINK_EXPIRY_DAYS ("never" or 0 for no expiry)
+export const GLOBAL_DEFAULT_EXPIRY_DAYS: number | null = parseDefaultExpiryDays(
+  process.env.NEXT_PUBLIC_DEFAULT_LINK_EXPIRY_DAYS,
+)
+
+export const EXPIRED_MESSAGE_MAX_LENGTH = 280
+
+export interface ExpiryPreset {
+  label: string
+  seconds: number | null // null = never expires
+}
+
+export const EXPIRY_PRESETS: ExpiryPreset[] = [
+  { label: "1 hour", seconds: 60 * 60 },
+  { label: "1 day", seconds: SECONDS_PER_DAY },
+  { label: "7 days", seconds: 7 * SECONDS_PER_DAY },
+  { label: "30 days", seconds: 30 * SECONDS_PER_DAY },
+  { label: "90 days", seconds: 90 * SECONDS_PER_DAY },
+  { label: "1 year", seconds: 365 * SECONDS_PER_DAY },
+  { label: "Never", seconds: null },
+]
+
+function parseDefaultExpiryDays(value: string | undefined): number | null {
+  if (value === undefined || value === "") return 30
+  if (value === "never") return null
+  const days = Number(value)
+  if (!Number.isFinite(days) || days < 0) return 30
+  return days === 0 ? null : days
+}
+
+// The default for a workspace: its own setting if it has one (null = never), otherwise the global default
+export function getDefaultExpiryDays(workspaceDefault: number | null | undefined): number | null {
+  return workspaceDefault === undefined ? GLOBAL_DEFAULT_EXPIRY_DAYS : workspaceDefault
+}
+
+export function addSeconds(date: Date, seconds: number): Date {
+  return new Date(date.getTime() + seconds * 1000)
+}
+
+export function expiresAtFromDays(days: number | null, from = new Date()): Date | null {
+  return days === null ? null : addSeconds(from, days * SECONDS_PER_DAY)
+}
+
+export function describeExpiryDays(days: number | null): string {
+  if (days === null) return "never expires"
+  return days === 1 ? "1 day" : `${days} days`
+}
@@ -1,5 +1,6 @@
 import { initializeApp, getApps } from "firebase/app"
-import { getFirestore } from "firebase/firestore"
+import { connectFirestoreEmulator, getFirestore } from "firebase/firestore"
+import { getAuth, connectAuthEmulator } from "firebase/auth"
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -11,7 +12,22 @@ const firebaseConfig = {
 }
 
 // Initialize Firebase only if it hasn't been initialized
-const app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0]
+const isFirstInit = getApps().length === 0
+const app = isFirstInit ? initializeApp(firebaseConfig) : getApps()[0]
 export const db = getFirestore(app)
+export const auth = getAuth(app)
+
+// Point Auth at the local emulator, e.g. NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099
+if (isFirstInit && process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST) {
+  connectAuthEmulator(auth, `http://${process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST}`, {
+    disableWarnings: true,
+  })
+}
+
+// And Firestore, e.g. NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST=127.0.0.1:8080
+if (isFirstInit && process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST) {
+  const [host, port] = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST.split(":")
+  connectFirestoreEmulator(db, host, Number(port))
+}
 
 export default app
@@ -0,0 +1,59 @@
+import path from "path"
+import maxmind, { type CityResponse, type Reader } from "maxmind"
+
+// IP-to-location lookups from a local MaxMind-format database (GeoLite2-City or
+// GeoIP2-City). No network calls: the .mmdb file ships with the deployment at
+// data/GeoLite2-City.mmdb, or wherever GEOIP_DATABASE_PATH points. Without the
+// file, lookups return null and clicks are simply recorded without a location.
+
+export interface GeoLocation {
+  country: string | null // ISO 3166-1 alpha-2, e.g. "DE"
+  city: string | null // English name
+}
+
+export const GEOIP_DATABASE_PATH =
+  process.env.GEOIP_DATABASE_PATH || path.join(process.cwd(), "data", "GeoLite2-City.mmdb")
+
+const LOOKUP_CACHE_SIZE = 5000
+
+let readerPromise: Promise<Reader<CityResponse> | null> | null = null
+
+// Opened once per server instance; a missing database is logged once and not retried
+function getReader(): Promise<Reader<CityResponse> | null> {
+  if (!readerPromise) {
+    readerPromise = maxmind
+      .open<CityResponse>(GEOIP_DATABASE_PATH, { cache: { max: LOOKUP_CACHE_SIZE } })
+      .then((reader) => {
+        console.log(`🌍 GeoIP database loaded: ${GEOIP_DATABASE_PATH}`)
+        return reader
+      })
+      .catch((error) => {
+        console.error(`⚠️ GeoIP database unavailable at ${GEOIP_DATABASE_PATH}, clicks won't be geolocated:`, error)
+        return null
+      })
+  }
+  return readerPromise
+}
+
+// Location for an IP, or null for private/unknown addresses or when there's no database
+export async function lookupIp(ip: string): Promise<GeoLocation | null> {
+  if (!ip || !maxmind.validate(ip)) {
+    return null
+  }
+
+  try {
+    const reader = await getReader()
+    const result = reader?.get(ip)
+    if (!result) {
+      return null
+    }
+
+    return {
+      country: result.country?.iso_code || result.registered_country?.iso_code || null,
+      city: result.city?.names?.en || null,
+    }
+  } catch (error) {
+    console.error("⚠️ GeoIP lookup failed:", error)
+    return null
+  }
+}
@@ -0,0 +1,233 @@
+import { parseCsv } from "./csv"
+
+// Reading link exports from other shorteners. Every format is turned into ImportedLink rows, which
+// the import endpoint validates and writes (see importLinks in link-service.ts).
+
+export const IMPORT_SOURCES = ["bitly", "yourls", "csv"] as const
+
+export type ImportSource = (typeof IMPORT_SOURCES)[number]
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  bitly: "Bitly CSV export",
+  yourls: "YOURLS SQL or JSON dump",
+  csv: "Generic CSV (shortCode, url, createdAt, clicks)",
+}
+
+export interface ImportedLink {
+  shortCode?: string // the code on the old service; a new one is picked if missing
+  url: string
+  createdAt?: string // ISO date
+  clicks?: number // all-time clicks on the old service
+}
+
+// Header names each field goes by in the exports we know, lowercased with spaces and "_" removed
+const CSV_COLUMNS = {
+  shortCode: ["shortcode", "code", "keyword", "alias", "backhalf", "bitlink", "link", "shorturl", "shortlink"],
+  url: ["url", "longurl", "originalurl", "destination", "destinationurl", "target"],
+  createdAt: ["createdat", "created", "datecreated", "creationdate", "timestamp", "date"],
+  clicks: ["clicks", "totalclicks", "clickcount", "engagements", "hits"],
+} as const
+
+// YOURLS' yourls_url table, in its default column order
+const YOURLS_COLUMNS = ["keyword", "url", "title", "timestamp", "ip", "clicks"]
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]/g, "")
+}
+
+// "bit.ly/3abcXYZ" or "https://sho.rt/spring-sale" → the last path segment; a bare code is kept as is
+function shortCodeFromLink(value: string): string | undefined {
+  const trimmed = value.trim().replace(/\/+$/, "")
+  if (!trimmed) return undefined
+  return trimmed.includes("/") ? trimmed.slice(trimmed.lastIndexOf("/") + 1) : trimmed
+}
+
+// Exports use many date formats; "2021-03-04 12:34:56" without a zone is taken as UTC.
+// Unreadable dates are passed on unchanged so the row is reported rather than silently redated.
+function parseImportDate(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  if (typeof value === "number") {
+    // Unix timestamps, in seconds or milliseconds
+    return new Date(value < 1e12 ? value * 1000 : value).toISOString()
+  }
+  const text = String(value).trim()
+  const utc = text.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2})?)(?:\s*(?:\+0000|UTC|Z))*$/)
+  const date = new Date(utc ? `${utc[1]}T${utc[2]}Z` : text)
+  return Number.isNaN(date.getTime()) ? text : date.toISOString()
+}
+
+function parseClicks(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  const clicks = Number(String(value).replace(/,/g, ""))
+  return Number.isFinite(clicks) ? clicks : undefined
+}
+
+function toImportedLink(fields: { shortCode?: unknown; url?: unknown; createdAt?: unknown; clicks?: unknown }) {
+  const shortCode = typeof fields.shortCode === "string" ? shortCodeFromLink(fields.shortCode) : undefined
+  const createdAt = parseImportDate(fields.createdAt)
+  const clicks = parseClicks(fields.clicks)
+  return {
+    url: String(fields.url ?? "").trim(),
+    ...(shortCode ? { shortCode } : {}),
+    ...(createdAt ? { createdAt } : {}),
+    ...(clicks !== undefined ? { clicks } : {}),
+  } as ImportedLink
+}
+
+// Bitly and generic CSV exports: columns are found by header name, in any order
+function parseCsvExport(text: string): ImportedLink[] {
+  const [header, ...lines] = parseCsv(text)
+  const headers = (header || []).map(normalizeHeader)
+  const findColumn = (names: readonly string[]) => headers.findIndex((name) => names.includes(name))
+  const columns = {
+    shortCode: findColumn(CSV_COLUMNS.shortCode),
+    url: findColumn(CSV_COLUMNS.url),
+    createdAt: findColumn(CSV_COLUMNS.createdAt),
+    clicks: findColumn(CSV_COLUMNS.clicks),
+  }
+  if (columns.url === -1) {
+    throw new Error("No destination URL column found. Expected a header such as url or long_url")
+  }
+
+  const cell = (line: string[], index: number) => (index === -1 ? undefined : line[index])
+  return lines.map((line) =>
+    toImportedLink({
+      shortCode: cell(line, columns.shortCode),
+      url: cell(line, columns.url),
+      createdAt: cell(line, columns.createdAt),
+      clicks: cell(line, columns.clicks),
+    }),
+  )
+}
+
+// Values of a SQL tuple list: ('abc','https://…',NULL,12),(…)
+// Strings may escape quotes as \' or ''.
+function parseSqlTuples(text: string, start: number): { rows: Array<Array<string | null>>; end: number } {
+  const rows: Array<Array<string | null>> = []
+  let i = start
+  let row: Array<string | null> | null = null
+  let token = ""
+
+  const endValue = () => {
+    const value = token.trim()
+    row!.push(value.toUpperCase() === "NULL" ? null : value)
+    token = ""
+  }
+
+  while (i < text.length) {
+    const char = text[i]
+    if (!row) {
+      if (char === "(") row = []
+      else if (char === ";") break
+      i++
+      continue
+    }
+    if (char === "'") {
+      // Quoted string - read to the closing quote
+      let value = ""
+      i++
+      while (i < text.length) {
+        if (text[i] === "\\") {
+          const escaped = text[i + 1]
+          value += escaped === "n" ? "\n" : escaped === "r" ? "\r" : escaped === "t" ? "\t" : escaped
+          i += 2
+        } else if (text[i] === "'" && text[i + 1] === "'") {
+          value += "'"
+          i += 2
+        } else if (text[i] === "'") {
+          i++
+          break
+        } else {
+          value += text[i++]
+        }
+      }
+      row.push(value)
+      token = ""
+      // Skip to the separator after the string
+      while (i < text.length && text[i] !== "," && text[i] !== ")") i++
+      if (text[i] === ",") i++
+      continue
+    }
+    if (char === ",") {
+      endValue()
+    } else if (char === ")") {
+      if (token.trim()) endValue()
+      rows.push(row)
+      row = null
+    } else {
+      token += char
+    }
+    i++
+  }
+
+  return { rows, end: i }
+}
+
+// YOURLS SQL dump (mysqldump of the yourls_url table, any table prefix)
+function parseYourlsSql(text: string): ImportedLink[] {
+  const links: ImportedLink[] = []
+  const insertPattern = /INSERT\s+INTO\s+`?(\w*url)`?\s*(?:\(([^)]*)\))?\s*VALUES\s*/gi
+
+  let match: RegExpExecArray | null
+  while ((match = insertPattern.exec(text))) {
+    const columns = match[2]
+      ? match[2].split(",").map((column) => column.replace(/[`\s]/g, "").toLowerCase())
+      : YOURLS_COLUMNS
+    const { rows, end } = parseSqlTuples(text, insertPattern.lastIndex)
+    insertPattern.lastIndex = end
+
+    for (const values of rows) {
+      const value = (column: string) => {
+        const index = columns.indexOf(column)
+        return index === -1 ? undefined : values[index]
+      }
+      links.push(
+        toImportedLink({
+          shortCode: value("keyword"),
+          url: value("url"),
+          createdAt: value("timestamp"),
+          clicks: value("clicks"),
+        }),
+      )
+    }
+  }
+
+  if (links.length === 0) {
+    throw new Error("No INSERT INTO …url statements found in the SQL dump")
+  }
+  return links
+}
+
+// YOURLS JSON: rows of the yourls_url table, or the API's stats response ({ links: { link_1: {…} } })
+function parseYourlsJson(data: unknown): ImportedLink[] {
+  const links = (data as { links?: unknown })?.links
+  const rows = Array.isArray(data) ? data : links && typeof links === "object" ? Object.values(links) : null
+  if (!rows) {
+    throw new Error("Expected an array of YOURLS links or an API response with a links object")
+  }
+  return rows.map((row) =>
+    toImportedLink({
+      shortCode: row?.keyword ?? row?.shorturl,
+      url: row?.url,
+      createdAt: row?.timestamp,
+      clicks: row?.clicks,
+    }),
+  )
+}
+
+// Read an export file; throws an Error with a readable message if the file can't be used
+export function parseImportFile(source: ImportSource, text: string): ImportedLink[] {
+  const content = text.replace(/^\uFEFF/, "")
+  if (source !== "yourls") {
+    return parseCsvExport(content)
+  }
+  if (/^\s*[[{]/.test(content)) {
+    try {
+      return parseYourlsJson(JSON.parse(content))
+    } catch (error) {
+      if (error instanceof SyntaxError) throw new Error("The file is not valid JSON")
+      throw error
+    }
+  }
+  return parseYourlsSql(content)
+}
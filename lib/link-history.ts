@@ -0,0 +1,171 @@
+import {
+  doc,
+  getDocs,
+  collection,
+  query,
+  orderBy,
+  limit,
+  serverTimestamp,
+  type Transaction,
+} from "firebase/firestore"
+import { db } from "./firebase"
+
+// Immutable revisions of urls/{shortCode}, stored in urls/{shortCode}/history.
+// Every write to a link document records who made it, the field-level diff and
+// a snapshot of the link's settings afterwards, so any version can be restored.
+
+export type LinkRevisionAction = "create" | "import" | "update" | "restore" | "delete" | "undelete" | "migration"
+
+// Who made a change. "web" is a signed-in user through the app, "api" an API key.
+export interface LinkActor {
+  uid: string
+  email?: string | null
+  via: "web" | "api" | "migration"
+  apiKeyId?: string
+}
+
+export interface LinkFieldChange {
+  from: any
+  to: any
+}
+
+export interface LinkRevision {
+  id: string
+  shortCode: string
+  action: LinkRevisionAction
+  actor: LinkActor
+  changedAt: any
+  changes: Record<string, LinkFieldChange>
+  snapshot: Record<string, any> // link settings after this change
+  restoredFrom?: string // revision id, for "restore" revisions
+}
+
+// Identity, provenance and trash fields: never part of a revision and never touched by a restore
+export const LINK_IDENTITY_FIELDS = [
+  "shortCode",
+  "createdAt",
+  "ownerId",
+  "workspaceId",
+  "importedFrom",
+  "deletedAt",
+  "deletedBy",
+]
+
+// Never part of a revision: members can read the history. The password hash lives in linkSecrets now;
+// revisions written while it was still on the link are only reported as set/unset.
+const SECRET_FIELDS = ["passwordHash"]
+
+export const LINK_HISTORY_LIMIT = 50
+
+export function linkHistoryCollection(shortCode: string) {
+  return collection(db, "urls", shortCode, "history")
+}
+
+// The restorable part of a link document
+export function linkSettings(data: Record<string, any>): Record<string, any> {
+  const settings: Record<string, any> = {}
+  for (const [field, value] of Object.entries(data)) {
+    if (!LINK_IDENTITY_FIELDS.includes(field) && !SECRET_FIELDS.includes(field) && value !== undefined) {
+      settings[field] = value
+    }
+  }
+  return settings
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  if (a?.toMillis && b?.toMillis) {
+    return a.toMillis() === b.toMillis()
+  }
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+// Field-level diff of two link documents (missing fields are reported as null)
+export function diffLinkSettings(
+  before: Record<string, any> | null,
+  after: Record<string, any>,
+): Record<string, LinkFieldChange> {
+  const previous = linkSettings(before || {})
+  const next = linkSettings(after)
+  const changes: Record<string, LinkFieldChange> = {}
+
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (!valuesEqual(previous[field], next[field])) {
+      changes[field] = { from: previous[field] ?? null, to: next[field] ?? null }
+    }
+  }
+  return changes
+}
+
+// Record a revision as part of the transaction that changes the link. extraChanges lists changes the
+// settings diff can't show, such as a new password (the hash itself is never recorded).
+export function writeRevision(
+  transaction: Transaction,
+  shortCode: string,
+  revision: {
+    action: LinkRevisionAction
+    actor: LinkActor
+    before: Record<string, any> | null
+    after: Record<string, any>
+    restoredFrom?: string
+    extraChanges?: Record<string, LinkFieldChange>
+  },
+) {
+  const revisionRef = doc(linkHistoryCollection(shortCode))
+  const actor = Object.fromEntries(Object.entries(revision.actor).filter(([, value]) => value !== undefined))
+
+  transaction.set(revisionRef, {
+    id: revisionRef.id,
+    shortCode,
+    action: revision.action,
+    actor,
+    changedAt: serverTimestamp(),
+    changes: { ...diffLinkSettings(revision.before, revision.after), ...revision.extraChanges },
+    snapshot: linkSettings(revision.after),
+    ...(revision.restoredFrom ? { restoredFrom: revision.restoredFrom } : {}),
+  })
+}
+
+// Newest revisions first
+export async function getLinkHistory(shortCode: string, limitCount = LINK_HISTORY_LIMIT): Promise<LinkRevision[]> {
+  const snapshot = await getDocs(
+    query(linkHistoryCollection(shortCode), orderBy("changedAt", "desc"), limit(limitCount)),
+  )
+  return snapshot.docs.map((revisionDoc) => ({ ...(revisionDoc.data() as LinkRevision), id: revisionDoc.id }))
+}
+
+function serializeValue(value: any): any {
+  if (value?.toDate) {
+    return value.toDate().toISOString()
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeValue)
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, serializeValue(nested)]))
+  }
+  return value
+}
+
+function redactSecrets<T>(fields: Record<string, T>, redact: (value: T) => T): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(fields).map(([field, value]) => [field, SECRET_FIELDS.includes(field) ? redact(value) : value]),
+  )
+}
+
+// JSON-safe revision for API responses (timestamps become ISO strings, secrets become booleans)
+export function serializeRevision(revision: LinkRevision) {
+  return {
+    id: revision.id,
+    action: revision.action,
+    actor: revision.actor,
+    changedAt: serializeValue(revision.changedAt) || null,
+    changes: redactSecrets(serializeValue(revision.changes) as Record<string, LinkFieldChange>, (change) => ({
+      from: !!change.from,
+      to: !!change.to,
+    })),
+    snapshot: redactSecrets(serializeValue(revision.snapshot) as Record<string, any>, (value) => !!value),
+    restoredFrom: revision.restoredFrom || null,
+  }
+}
+
+export type SerializedLinkRevision = ReturnType<typeof serializeRevision>
@@ -0,0 +1,190 @@
+import { describeSchedule, type LinkSchedule } from "./schedules"
+
+// Minimal server-rendered pages for short links that can't be redirected.
+// These are returned straight from the redirect route handler so that
+// crawlers and non-JS clients still get a real status code.
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+export interface LinkPageOptions {
+  status: number
+  title: string
+  message: string
+  details?: string[]
+  countdownTo?: Date // live countdown that reloads the page when it reaches zero
+}
+
+// Ticks every second; the page reloads once the target passes so the visitor is redirected
+const COUNTDOWN_SCRIPT = `(function () {
+  var el = document.getElementById("countdown");
+  var target = Number(el.getAttribute("data-target"));
+  function tick() {
+    var s = Math.max(0, Math.floor((target - Date.now()) / 1000));
+    if (s === 0) { location.reload(); return; }
+    var d = Math.floor(s / 86400), h = Math.floor((s % 86400) / 3600), m = Math.floor((s % 3600) / 60);
+    el.textContent = (d ? d + "d " : "") + h + "h " + m + "m " + (s % 60) + "s";
+    setTimeout(tick, 1000);
+  }
+  tick();
+})();`
+
+export function renderLinkPage({ status, title, message, details = [], countdownTo }: LinkPageOptions): Response {
+  const detailItems = details.map((detail) => `<li>• ${escapeHtml(detail)}</li>`).join("")
+  const countdown = countdownTo
+    ? `<div id="countdown" class="countdown" data-target="${countdownTo.getTime()}"></div>
+    <script>${COUNTDOWN_SCRIPT}</script>`
+    : ""
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<meta name="robots" content="noindex" />
+<title>${escapeHtml(title)} - ShortLink</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center;
+    font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", sans-serif;
+    background: linear-gradient(to bottom right, #eff6ff, #e0e7ff); color: #111827; }
+  .card { max-width: 28rem; width: 100%; margin: 0 1rem; background: #fff; border-radius: 0.5rem;
+    border: 1px solid #e5e7eb; box-shadow: 0 1px 2px rgba(0,0,0,0.05); padding: 1.5rem; text-align: center; }
+  .status { font-size: 0.875rem; font-weight: 600; color: #ef4444; letter-spacing: 0.05em; }
+  h1 { font-size: 1.5rem; margin: 0.5rem 0 1rem; }
+  p { color: #4b5563; }
+  .countdown { font-size: 1.5rem; font-weight: 600; font-variant-numeric: tabular-nums; margin: 1rem 0; }
+  ul { list-style: none; padding: 0; text-align: left; font-size: 0.875rem; color: #6b7280; }
+  a { display: block; margin-top: 1.5rem; padding: 0.5rem 1rem; border-radius: 0.375rem;
+    background: #0f172a; color: #fff; text-decoration: none; font-size: 0.875rem; font-weight: 500; }
+</style>
+</head>
+<body>
+  <div class="card">
+    <div class="status">${status}</div>
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(message)}</p>
+    ${countdown}
+    ${detailItems ? `<ul>${detailItems}</ul>` : ""}
+    <a href="/">Go to Homepage</a>
+  </div>
+</body>
+</html>`
+
+  return new Response(html, {
+    status,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  })
+}
+
+export function renderNotFoundPage(): Response {
+  return renderLinkPage({
+    status: 404,
+    title: "Link Not Found",
+    message: "The short link you're looking for doesn't exist.",
+    details: ["The short code was mistyped", "The link was disabled by its owner"],
+  })
+}
+
+export function renderDeletedPage(): Response {
+  return renderLinkPage({
+    status: 410,
+    title: "Link Deleted",
+    message: "This short link was deleted by its owner and no longer redirects anywhere.",
+  })
+}
+
+// The owner can replace the default text with their own message
+export function renderExpiredPage(message?: string | null): Response {
+  return renderLinkPage({
+    status: 410,
+    title: "Link Expired",
+    message: message || "This short link has expired and no longer redirects anywhere.",
+  })
+}
+
+// Before activation, or outside the link's recurring schedule
+export function renderNotLivePage(options: {
+  activatesAt?: Date
+  countdown?: boolean
+  schedule?: LinkSchedule | null
+}): Response {
+  if (options.activatesAt) {
+    return renderLinkPage({
+      status: 403,
+      title: "Not Live Yet",
+      message: `This short link goes live on ${options.activatesAt.toUTCString()}.`,
+      countdownTo: options.countdown ? options.activatesAt : undefined,
+    })
+  }
+  return renderLinkPage({
+    status: 403,
+    title: "Not Available Right Now",
+    message: "This short link only works at certain times. Please try again later.",
+    details: options.schedule ? [`Available ${describeSchedule(options.schedule)}`] : [],
+  })
+}
+
+// Interstitial for password-protected links. The form posts back to the short URL,
+// which checks the password server-side before redirecting.
+// action defaults to the bare short URL; pass the requested path and query so wildcard and passthrough links keep them
+export function renderPasswordPage({
+  shortCode,
+  action = `/${encodeURIComponent(shortCode)}`,
+  error,
+}: {
+  shortCode: string
+  action?: string
+  error?: string
+}): Response {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<meta name="robots" content="noindex" />
+<title>Password Required - ShortLink</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center;
+    font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", sans-serif;
+    background: linear-gradient(to bottom right, #eff6ff, #e0e7ff); color: #111827; }
+  .card { max-width: 28rem; width: 100%; margin: 0 1rem; background: #fff; border-radius: 0.5rem;
+    border: 1px solid #e5e7eb; box-shadow: 0 1px 2px rgba(0,0,0,0.05); padding: 1.5rem; text-align: center; }
+  h1 { font-size: 1.5rem; margin: 0.5rem 0 1rem; }
+  p { color: #4b5563; }
+  .error { color: #dc2626; font-size: 0.875rem; }
+  input { width: 100%; box-sizing: border-box; padding: 0.5rem 0.75rem; border: 1px solid #d1d5db;
+    border-radius: 0.375rem; font-size: 0.875rem; }
+  button { width: 100%; margin-top: 0.75rem; padding: 0.5rem 1rem; border: 0; border-radius: 0.375rem;
+    background: #0f172a; color: #fff; font-size: 0.875rem; font-weight: 500; cursor: pointer; }
+</style>
+</head>
+<body>
+  <div class="card">
+    <h1>Password Required</h1>
+    <p>The owner of this link protected it with a password.</p>
+    ${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+    <form method="post" action="${escapeHtml(action)}">
+      <input type="password" name="password" placeholder="Password" autocomplete="current-password" autofocus required />
+      <button type="submit">Continue</button>
+    </form>
+  </div>
+</body>
+</html>`
+
+  return new Response(html, {
+    status: error ? 401 : 200,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  })
+}
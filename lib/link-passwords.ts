@@ -0,0 +1,45 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto"
+import { promisify } from "util"
+import { doc, getDoc } from "firebase/firestore"
+import { db } from "./firebase"
+import type { UrlData } from "./analytics-clean"
+
+// Passwords for protected links. Only a salted scrypt hash is stored ("scrypt:<salt>:<hash>", hex encoded),
+// in linkSecrets/{shortCode}: the security rules keep that collection server-only, while the link document
+// (which just says passwordProtected) can be read by workspace members and, for public links, anyone.
+// The API never returns the hash.
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+const SALT_BYTES = 16
+const KEY_LENGTH = 32
+
+export async function hashLinkPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES)
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`
+}
+
+export function linkSecretRef(shortCode: string) {
+  return doc(db, "linkSecrets", shortCode)
+}
+
+// The stored hash for a protected link. Links protected before linkSecrets existed keep it on the link
+// document until the migrate-passwords job moves it.
+export async function getLinkPasswordHash(shortCode: string, urlData: UrlData): Promise<string | null> {
+  const secretSnap = await getDoc(linkSecretRef(shortCode))
+  return (secretSnap.exists() && secretSnap.data().passwordHash) || urlData.passwordHash || null
+}
+
+// Constant-time comparison against a stored hash. Malformed hashes never match.
+export async function verifyLinkPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, saltHex, hashHex] = storedHash.split(":")
+  if (algorithm !== "scrypt" || !saltHex || !hashHex) {
+    console.error("❌ Unrecognized link password hash format")
+    return false
+  }
+
+  const expected = Buffer.from(hashHex, "hex")
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
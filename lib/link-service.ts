@@ -0,0 +1,1129 @@
+import {
+  doc,
+  getDoc,
+  getDocs,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  runTransaction,
+  deleteField,
+  writeBatch,
+  serverTimestamp,
+  Timestamp,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+  type QuerySnapshot,
+  type Transaction,
+} from "firebase/firestore"
+import { db } from "./firebase"
+import { claimShortCode, generateShortCode, validateAlias } from "./short-codes"
+import { DEFAULT_REDIRECT_STATUS, isRedirectStatus, REDIRECT_STATUSES, type RedirectStatus } from "./redirects"
+import { rollupsCollection } from "./rollups"
+import type { UrlData } from "./analytics-clean"
+import {
+  BULK_MAX_LINKS,
+  getPurgeDate,
+  IMPORT_MAX_LINKS,
+  isPasswordProtected,
+  LINK_PASSWORD_MAX_LENGTH,
+  LINK_PASSWORD_MIN_LENGTH,
+  LINK_TRASH_RETENTION_DAYS,
+} from "./links"
+import { addSeconds, EXPIRED_MESSAGE_MAX_LENGTH, expiresAtFromDays, getDefaultExpiryDays } from "./expiration"
+import { getWorkspace, type Workspace } from "./workspaces"
+import { hashLinkPassword, linkSecretRef } from "./link-passwords"
+import { normalizeSchedule, validateSchedule, type LinkSchedule } from "./schedules"
+import { normalizeTargetingRules, validateTargetingRules, type TargetingRule } from "./targeting"
+import { normalizeVariants, validateVariants, type LinkVariant } from "./variants"
+import { hasUtmParams, normalizeUtmParams, validateUtmParams, type UtmParams } from "./utm"
+import { isQueryPassthrough, QUERY_PASSTHROUGH_MODES, type QueryPassthrough } from "./passthrough"
+import { normalizeTags, validateTags } from "./tags"
+import type { ImportSource } from "./importers"
+import {
+  diffLinkSettings,
+  linkHistoryCollection,
+  linkSettings,
+  writeRevision,
+  LINK_IDENTITY_FIELDS,
+  type LinkActor,
+  type LinkRevision,
+  type LinkRevisionAction,
+} from "./link-history"
+
+// Server-side link operations shared by /api/shorten, /api/links and /api/v1.
+// Callers are responsible for checking the caller's workspace role first.
+// Every write to a link document also records a revision (see link-history.ts).
+
+// Validation or conflict error with the HTTP status it should be reported as
+export class LinkError extends Error {
+  constructor(
+    public status: 400 | 404 | 409 | 500,
+    message: string,
+  ) {
+    super(message)
+    this.name = "LinkError"
+  }
+}
+
+export interface CreateLinkInput {
+  url: unknown
+  alias?: unknown
+  redirectType?: unknown
+  isPublic?: unknown
+  expiresAt?: unknown // ISO date, or null to never expire
+  expiresIn?: unknown // seconds from now - use instead of expiresAt
+  maxClicks?: unknown
+  expiredRedirectUrl?: unknown
+  expiredMessage?: unknown
+  password?: unknown // plain text; only its hash is stored
+  activatesAt?: unknown // ISO date the link goes live
+  showCountdown?: unknown
+  schedule?: unknown // LinkSchedule
+  targetingRules?: unknown // TargetingRule[]
+  variants?: unknown // LinkVariant[] for an A/B test
+  trackConversions?: unknown
+  utmParams?: unknown // UtmParams template
+  queryPassthrough?: unknown // "merge" | "override"
+  wildcard?: unknown
+  tags?: unknown // string[]
+  workspaceId: string
+  ownerId: string
+  actor: LinkActor
+}
+
+export interface LinkChanges {
+  originalUrl?: unknown
+  redirectType?: unknown
+  isPublic?: unknown
+  isActive?: unknown
+  expiresAt?: unknown // ISO date string or Date to set a new expiry, null to never expire
+  maxClicks?: unknown // null removes the click limit
+  expiredRedirectUrl?: unknown // null removes the fallback
+  expiredMessage?: unknown
+  password?: unknown // a new password, or null to remove protection
+  activatesAt?: unknown // null makes the link live immediately
+  showCountdown?: unknown
+  schedule?: unknown // null removes the schedule
+  targetingRules?: unknown // replaces all rules; [] removes them
+  variants?: unknown // replaces all variants; [] ends the A/B test
+  trackConversions?: unknown
+  utmParams?: unknown // replaces the template; null or {} removes it
+  queryPassthrough?: unknown // null stops forwarding
+  wildcard?: unknown
+  tags?: unknown // replaces all tags; [] removes them
+}
+
+const MAX_SHORT_CODE_ATTEMPTS = 10
+const MAX_EXPIRES_IN_SECONDS = 10 * 365 * 24 * 60 * 60
+
+export function isValidUrl(string: string): boolean {
+  try {
+    const url = new URL(string)
+    return url.protocol === "http:" || url.protocol === "https:"
+  } catch {
+    return false
+  }
+}
+
+function assertValidUrl(url: unknown): asserts url is string {
+  if (!url || typeof url !== "string") {
+    throw new LinkError(400, "URL is required")
+  }
+  if (!isValidUrl(url)) {
+    throw new LinkError(400, "Invalid URL format")
+  }
+}
+
+function assertRedirectType(redirectType: unknown): asserts redirectType is RedirectStatus {
+  if (!isRedirectStatus(redirectType)) {
+    throw new LinkError(400, `redirectType must be one of ${REDIRECT_STATUSES.join(", ")}`)
+  }
+}
+
+function assertBoolean(value: unknown, field: string): asserts value is boolean {
+  if (typeof value !== "boolean") {
+    throw new LinkError(400, `${field} must be a boolean`)
+  }
+}
+
+// Parse a new expiry date - it has to be in the future, otherwise the link would stop working immediately
+function parseExpiresAt(value: unknown): Date {
+  const date = value instanceof Date ? value : typeof value === "string" ? new Date(value) : null
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new LinkError(400, "expiresAt must be an ISO 8601 date or null")
+  }
+  if (date.getTime() <= Date.now()) {
+    throw new LinkError(400, "expiresAt must be in the future")
+  }
+  return date
+}
+
+function parseActivatesAt(value: unknown): Date | null {
+  if (value === null) return null
+  const date = value instanceof Date ? value : typeof value === "string" ? new Date(value) : null
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new LinkError(400, "activatesAt must be an ISO 8601 date or null")
+  }
+  return date
+}
+
+function parseSchedule(value: unknown): LinkSchedule | null {
+  if (value === null) return null
+  const scheduleError = validateSchedule(value)
+  if (scheduleError) {
+    throw new LinkError(400, scheduleError)
+  }
+  return normalizeSchedule(value as LinkSchedule)
+}
+
+function parseTargetingRules(value: unknown): TargetingRule[] {
+  const rulesError = validateTargetingRules(value)
+  if (rulesError) {
+    throw new LinkError(400, rulesError)
+  }
+  const rules = value as TargetingRule[]
+  rules.forEach((rule) => assertValidUrl(rule.url))
+  return normalizeTargetingRules(rules)
+}
+
+function parseVariants(value: unknown): LinkVariant[] {
+  const variantsError = validateVariants(value)
+  if (variantsError) {
+    throw new LinkError(400, variantsError)
+  }
+  const variants = value as LinkVariant[]
+  variants.forEach((variant) => assertValidUrl(variant.url))
+  return normalizeVariants(variants)
+}
+
+function parseQueryPassthrough(value: unknown): QueryPassthrough | null {
+  if (value === null) return null
+  if (!isQueryPassthrough(value)) {
+    throw new LinkError(400, `queryPassthrough must be one of ${QUERY_PASSTHROUGH_MODES.join(", ")} or null`)
+  }
+  return value
+}
+
+function parseTags(value: unknown): string[] {
+  const tagsError = validateTags(value)
+  if (tagsError) {
+    throw new LinkError(400, tagsError)
+  }
+  return normalizeTags(value as string[])
+}
+
+// Empty templates are stored as null
+function parseUtmParams(value: unknown): UtmParams | null {
+  if (value === null) return null
+  const utmError = validateUtmParams(value)
+  if (utmError) {
+    throw new LinkError(400, utmError)
+  }
+  const params = normalizeUtmParams(value as UtmParams)
+  return hasUtmParams(params) ? params : null
+}
+
+// A link that expires before it goes live would never redirect
+function assertActivationBeforeExpiry(activatesAt: Date | null, expiresAt: Date | null) {
+  if (activatesAt && expiresAt && activatesAt >= expiresAt) {
+    throw new LinkError(400, "activatesAt must be before expiresAt")
+  }
+}
+
+function parseExpiresIn(value: unknown): Date {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > MAX_EXPIRES_IN_SECONDS) {
+    throw new LinkError(400, `expiresIn must be a whole number of seconds between 1 and ${MAX_EXPIRES_IN_SECONDS}`)
+  }
+  return addSeconds(new Date(), value)
+}
+
+function parseMaxClicks(value: unknown): number | null {
+  if (value === null) return null
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new LinkError(400, "maxClicks must be a positive whole number or null")
+  }
+  return value
+}
+
+// Where to send visitors once the link has expired (empty clears it)
+function parseExpiredRedirectUrl(value: unknown): string | null {
+  if (value === null || value === "") return null
+  assertValidUrl(value)
+  return value
+}
+
+function parseExpiredMessage(value: unknown): string | null {
+  if (value === null || value === "") return null
+  if (typeof value !== "string" || value.trim().length > EXPIRED_MESSAGE_MAX_LENGTH) {
+    throw new LinkError(400, `expiredMessage must be text of at most ${EXPIRED_MESSAGE_MAX_LENGTH} characters`)
+  }
+  return value.trim() || null
+}
+
+// Hash a new link password; empty or null means no password
+async function parsePassword(value: unknown): Promise<string | null> {
+  if (value === null || value === "") return null
+  if (
+    typeof value !== "string" ||
+    value.length < LINK_PASSWORD_MIN_LENGTH ||
+    value.length > LINK_PASSWORD_MAX_LENGTH
+  ) {
+    throw new LinkError(
+      400,
+      `password must be between ${LINK_PASSWORD_MIN_LENGTH} and ${LINK_PASSWORD_MAX_LENGTH} characters`,
+    )
+  }
+  return hashLinkPassword(value)
+}
+
+// Explicit expiry wins (expiresAt: null means never), otherwise the workspace or global default,
+// counted from when the link goes live
+async function resolveExpiry(
+  input: CreateLinkInput,
+  activatesAt: Date | null,
+  loadWorkspace: () => Promise<Workspace | null>,
+): Promise<Date | null> {
+  if (input.expiresAt !== undefined && input.expiresIn !== undefined) {
+    throw new LinkError(400, "Use either expiresAt or expiresIn, not both")
+  }
+  if (input.expiresIn !== undefined) {
+    return parseExpiresIn(input.expiresIn)
+  }
+  if (input.expiresAt !== undefined) {
+    return input.expiresAt === null ? null : parseExpiresAt(input.expiresAt)
+  }
+
+  const workspace = await loadWorkspace()
+  return expiresAtFromDays(getDefaultExpiryDays(workspace?.defaultExpiryDays), activatesAt || new Date())
+}
+
+// Validate a new link's input. Returns the alias (if any) and a builder for the documents to store
+// under whichever short code is claimed.
+async function prepareLink(
+  input: CreateLinkInput,
+  loadWorkspace: () => Promise<Workspace | null> = () => getWorkspace(input.workspaceId),
+) {
+  const { url, alias, redirectType = DEFAULT_REDIRECT_STATUS, isPublic = false, workspaceId, ownerId } = input
+
+  assertValidUrl(url)
+
+  if (alias !== undefined && alias !== null && alias !== "") {
+    if (typeof alias !== "string") {
+      throw new LinkError(400, "Alias must be a string")
+    }
+
+    const aliasError = validateAlias(alias)
+    if (aliasError) {
+      throw new LinkError(400, aliasError)
+    }
+  }
+
+  assertRedirectType(redirectType)
+  assertBoolean(isPublic, "isPublic")
+
+  const activatesAt = input.activatesAt === undefined ? null : parseActivatesAt(input.activatesAt)
+  const expiresAt = await resolveExpiry(input, activatesAt, loadWorkspace)
+  assertActivationBeforeExpiry(activatesAt, expiresAt)
+  const schedule = input.schedule === undefined ? null : parseSchedule(input.schedule)
+  const showCountdown = input.showCountdown ?? false
+  const targetingRules = input.targetingRules === undefined ? [] : parseTargetingRules(input.targetingRules)
+  const variants = input.variants === undefined ? [] : parseVariants(input.variants)
+  assertBoolean(showCountdown, "showCountdown")
+  const trackConversions = input.trackConversions ?? false
+  const utmParams = input.utmParams === undefined ? null : parseUtmParams(input.utmParams)
+  assertBoolean(trackConversions, "trackConversions")
+  const queryPassthrough = input.queryPassthrough === undefined ? null : parseQueryPassthrough(input.queryPassthrough)
+  const wildcard = input.wildcard ?? false
+  assertBoolean(wildcard, "wildcard")
+  const tags = input.tags === undefined ? [] : parseTags(input.tags)
+  const maxClicks = input.maxClicks === undefined ? null : parseMaxClicks(input.maxClicks)
+  const expiredRedirectUrl =
+    input.expiredRedirectUrl === undefined ? null : parseExpiredRedirectUrl(input.expiredRedirectUrl)
+  const expiredMessage = input.expiredMessage === undefined ? null : parseExpiredMessage(input.expiredMessage)
+  const passwordHash = input.password === undefined ? null : await parsePassword(input.password)
+
+  const buildDocuments = (shortCode: string) => ({
+    urlData: {
+      originalUrl: url,
+      shortCode,
+      createdAt: serverTimestamp(),
+      isActive: true,
+      expiresAt: expiresAt ? Timestamp.fromDate(expiresAt) : null,
+      // Expiry extras are only stored when set
+      ...(maxClicks !== null ? { maxClicks } : {}),
+      ...(expiredRedirectUrl ? { expiredRedirectUrl } : {}),
+      ...(expiredMessage ? { expiredMessage } : {}),
+      ...(passwordHash ? { passwordProtected: true } : {}),
+      // Scheduling fields are only stored when set
+      ...(activatesAt ? { activatesAt: Timestamp.fromDate(activatesAt) } : {}),
+      ...(showCountdown ? { showCountdown } : {}),
+      ...(schedule ? { schedule } : {}),
+      ...(targetingRules.length > 0 ? { targetingRules } : {}),
+      ...(variants.length > 0 ? { variants } : {}),
+      ...(trackConversions ? { trackConversions } : {}),
+      ...(utmParams ? { utmParams } : {}),
+      ...(queryPassthrough ? { queryPassthrough } : {}),
+      ...(wildcard ? { wildcard } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+      redirectType,
+      ownerId,
+      workspaceId,
+      isPublic,
+    },
+    analyticsData: {
+      shortCode,
+      totalClicks: 0,
+      createdAt: serverTimestamp(),
+    },
+  })
+
+  return { alias: alias ? (alias as string) : null, buildDocuments, passwordHash }
+}
+
+// Validate and create a link, claiming the alias or a random short code
+export async function createLink(input: CreateLinkInput): Promise<UrlData> {
+  const { actor } = input
+  const { alias, buildDocuments, passwordHash } = await prepareLink(input)
+
+  const recordCreation = (shortCode: string, urlData: Record<string, any>) => (transaction: Transaction) => {
+    if (passwordHash) {
+      transaction.set(linkSecretRef(shortCode), { passwordHash })
+    }
+    writeRevision(transaction, shortCode, { action: "create", actor, before: null, after: urlData })
+  }
+
+  if (alias) {
+    // Custom alias - claim it atomically, never fall back to a random code
+    const { urlData, analyticsData } = buildDocuments(alias)
+    if (!(await claimShortCode(alias, urlData, analyticsData, recordCreation(alias, urlData)))) {
+      throw new LinkError(409, "Alias is already taken")
+    }
+    return { ...urlData, createdAt: Timestamp.now() }
+  }
+
+  // Generate a unique short code, retrying on collision
+  for (let attempts = 0; attempts < MAX_SHORT_CODE_ATTEMPTS; attempts++) {
+    const candidate = generateShortCode()
+    const { urlData, analyticsData } = buildDocuments(candidate)
+
+    if (await claimShortCode(candidate, urlData, analyticsData, recordCreation(candidate, urlData))) {
+      return { ...urlData, createdAt: Timestamp.now() }
+    }
+    console.log(`🔁 Code ${candidate} exists, trying again (attempt ${attempts + 1})`)
+  }
+
+  throw new LinkError(500, "Could not generate unique short code")
+}
+
+// Links written per transaction: each link is three writes (url, analytics and the first revision),
+// well under Firestore's 500-write limit
+const BULK_CHUNK_SIZE = 100
+
+type LinkDocuments = { urlData: Record<string, any>; analyticsData: Record<string, any> }
+
+interface PendingLink {
+  row: number
+  shortCode: string | null // the code to claim; null picks a random one
+  buildDocuments: (shortCode: string) => LinkDocuments
+}
+
+type ClaimOutcome =
+  | { row: number; status: "claimed"; shortCode: string; urlData: Record<string, any> }
+  | { row: number; status: "taken"; shortCode: string } // only for requested codes
+  | { row: number; status: "exhausted" } // no free random code found
+
+// Write many links in chunks, each in one transaction that checks its short codes are still free,
+// so a code claimed in the meantime is never overwritten. Random codes that turn out to be taken
+// are retried; requested codes are reported as taken.
+async function claimLinks(
+  pending: PendingLink[],
+  revision: { action: LinkRevisionAction; actor: LinkActor },
+): Promise<ClaimOutcome[]> {
+  const outcomes: ClaimOutcome[] = []
+
+  let remaining = pending
+  for (let attempts = 0; attempts < MAX_SHORT_CODE_ATTEMPTS && remaining.length > 0; attempts++) {
+    const retry: PendingLink[] = []
+
+    for (let start = 0; start < remaining.length; start += BULK_CHUNK_SIZE) {
+      const chunk = remaining.slice(start, start + BULK_CHUNK_SIZE).map((entry) => ({
+        entry,
+        shortCode: entry.shortCode || generateShortCode(),
+      }))
+
+      const { claimed, taken } = await runTransaction(db, async (transaction) => {
+        const snapshots = await Promise.all(chunk.map(({ shortCode }) => transaction.get(doc(db, "urls", shortCode))))
+        // Codes in the same chunk can collide with each other, not just with stored links
+        const chunkCodes = new Set<string>()
+        const claimed: ClaimOutcome[] = []
+        const taken: typeof chunk = []
+
+        chunk.forEach(({ entry, shortCode }, index) => {
+          if (snapshots[index].exists() || chunkCodes.has(shortCode)) {
+            taken.push({ entry, shortCode })
+            return
+          }
+          chunkCodes.add(shortCode)
+          const { urlData, analyticsData } = entry.buildDocuments(shortCode)
+          transaction.set(doc(db, "urls", shortCode), urlData)
+          transaction.set(doc(db, "analytics", shortCode), analyticsData)
+          writeRevision(transaction, shortCode, { ...revision, before: null, after: urlData })
+          claimed.push({ row: entry.row, status: "claimed", shortCode, urlData })
+        })
+
+        return { claimed, taken }
+      })
+
+      outcomes.push(...claimed)
+      for (const { entry, shortCode } of taken) {
+        if (entry.shortCode) {
+          outcomes.push({ row: entry.row, status: "taken", shortCode })
+        } else {
+          retry.push(entry)
+        }
+      }
+    }
+
+    if (retry.length > 0) {
+      console.log(`🔁 ${retry.length} generated codes were taken, trying again (attempt ${attempts + 1})`)
+    }
+    remaining = retry
+  }
+
+  remaining.forEach(({ row }) => outcomes.push({ row, status: "exhausted" }))
+  return outcomes
+}
+
+// A row of a bulk upload. Only the common fields are supported in bulk.
+export interface BulkLinkRow {
+  url: unknown
+  alias?: unknown
+  tags?: unknown
+  expiresAt?: unknown
+}
+
+export type BulkLinkResult =
+  | { row: number; status: "created"; link: UrlData }
+  | { row: number; status: "error"; error: string }
+
+// Create many links at once. Every row is validated on its own and reported separately, so one
+// bad row never blocks the rest.
+export async function createLinks(
+  rows: unknown[], // BulkLinkRow objects, unchecked
+  context: { workspaceId: string; ownerId: string; actor: LinkActor },
+): Promise<BulkLinkResult[]> {
+  if (rows.length > BULK_MAX_LINKS) {
+    throw new LinkError(400, `At most ${BULK_MAX_LINKS} links can be created at once`)
+  }
+
+  const results: BulkLinkResult[] = []
+  const workspace = getWorkspace(context.workspaceId)
+  const loadWorkspace = () => workspace
+  const pending: PendingLink[] = []
+  const seenAliases = new Set<string>()
+
+  for (const [row, value] of rows.entries()) {
+    try {
+      if (!value || typeof value !== "object") {
+        throw new LinkError(400, "Each row must be an object with a url")
+      }
+      const input = value as BulkLinkRow
+      const { alias, buildDocuments } = await prepareLink(
+        { url: input.url, alias: input.alias, tags: input.tags, expiresAt: input.expiresAt, ...context },
+        loadWorkspace,
+      )
+      if (alias && seenAliases.has(alias)) {
+        throw new LinkError(400, "Alias appears more than once in this upload")
+      }
+      if (alias) seenAliases.add(alias)
+      pending.push({ row, shortCode: alias, buildDocuments })
+    } catch (error) {
+      if (!(error instanceof LinkError)) throw error
+      results.push({ row, status: "error", error: error.message })
+    }
+  }
+
+  const outcomes = await claimLinks(pending, { action: "create", actor: context.actor })
+  for (const outcome of outcomes) {
+    if (outcome.status === "claimed") {
+      const link = { ...outcome.urlData, createdAt: Timestamp.now() } as UrlData
+      results.push({ row: outcome.row, status: "created", link })
+    } else {
+      const error = outcome.status === "taken" ? "Alias is already taken" : "Could not generate unique short code"
+      results.push({ row: outcome.row, status: "error", error })
+    }
+  }
+
+  return results.sort((a, b) => a.row - b.row)
+}
+
+// Clicks brought over from another shortener, at most
+const MAX_IMPORTED_CLICKS = 1_000_000_000
+
+// What to do when an imported short code is already used here
+export type ImportCollisionMode = "skip" | "rename"
+
+export const IMPORT_COLLISION_MODES: ImportCollisionMode[] = ["skip", "rename"]
+
+// shortCode is null in a dry run when a new code would be generated
+export type ImportLinkResult =
+  | { row: number; status: "imported"; shortCode: string | null; renamedFrom?: string }
+  | { row: number; status: "collision"; shortCode: string }
+  | { row: number; status: "error"; error: string }
+
+function parseImportedAt(value: unknown): Timestamp | null {
+  if (value === undefined || value === null || value === "") return null
+  const date = typeof value === "string" ? new Date(value) : null
+  if (!date || Number.isNaN(date.getTime()) || date.getTime() > Date.now()) {
+    throw new LinkError(400, "createdAt must be a date in the past")
+  }
+  return Timestamp.fromDate(date)
+}
+
+function parseImportedClicks(value: unknown): number {
+  if (value === undefined || value === null) return 0
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > MAX_IMPORTED_CLICKS) {
+    throw new LinkError(400, `clicks must be a whole number between 0 and ${MAX_IMPORTED_CLICKS}`)
+  }
+  return value
+}
+
+// Import links exported from another shortener (ImportedLink rows, see importers.ts). Original short codes
+// are kept where they are valid and free here, as are creation dates; click totals become the starting
+// count in analytics. Imported links never expire. A dry run validates everything and reports collisions
+// without writing.
+export async function importLinks(
+  rows: unknown[],
+  options: {
+    workspaceId: string
+    ownerId: string
+    actor: LinkActor
+    source: ImportSource
+    onCollision: ImportCollisionMode
+    dryRun: boolean
+  },
+): Promise<ImportLinkResult[]> {
+  if (rows.length > IMPORT_MAX_LINKS) {
+    throw new LinkError(400, `At most ${IMPORT_MAX_LINKS} links can be imported per request`)
+  }
+
+  const { workspaceId, ownerId, actor, source, onCollision } = options
+  const results: ImportLinkResult[] = []
+  const pending: Array<PendingLink & { originalCode: string | null }> = []
+  const seenCodes = new Set<string>()
+
+  for (const [row, value] of rows.entries()) {
+    try {
+      if (!value || typeof value !== "object") {
+        throw new LinkError(400, "Each row must be an object with a url")
+      }
+      const input = value as Record<string, unknown>
+      const createdAt = parseImportedAt(input.createdAt)
+      const clicks = parseImportedClicks(input.clicks)
+      const prepared = await prepareLink({ url: input.url, expiresAt: null, workspaceId, ownerId, actor })
+
+      const buildDocuments = (shortCode: string) => {
+        const { urlData, analyticsData } = prepared.buildDocuments(shortCode)
+        return {
+          urlData: { ...urlData, importedFrom: source, ...(createdAt ? { createdAt } : {}) },
+          analyticsData: { ...analyticsData, totalClicks: clicks, ...(createdAt ? { createdAt } : {}) },
+        }
+      }
+
+      // Codes that aren't valid aliases here (too short, reserved, odd characters) get a new one
+      const originalCode = typeof input.shortCode === "string" && input.shortCode ? input.shortCode : null
+      const keepsCode = originalCode !== null && validateAlias(originalCode) === null
+      if (keepsCode && seenCodes.has(originalCode)) {
+        if (onCollision === "skip") {
+          results.push({ row, status: "collision", shortCode: originalCode })
+          continue
+        }
+        pending.push({ row, shortCode: null, originalCode, buildDocuments })
+        continue
+      }
+      if (keepsCode) seenCodes.add(originalCode)
+      pending.push({ row, shortCode: keepsCode ? originalCode : null, originalCode, buildDocuments })
+    } catch (error) {
+      if (!(error instanceof LinkError)) throw error
+      results.push({ row, status: "error", error: error.message })
+    }
+  }
+
+  const originalCodes = new Map(pending.map((entry) => [entry.row, entry.originalCode]))
+  const renamed = (row: number) => (originalCodes.get(row) ? { renamedFrom: originalCodes.get(row)! } : {})
+
+  if (options.dryRun) {
+    const requested = pending.filter((entry) => entry.shortCode)
+    const existing = await Promise.all(requested.map((entry) => getDoc(doc(db, "urls", entry.shortCode!))))
+    const taken = new Set(requested.filter((_, index) => existing[index].exists()).map((entry) => entry.row))
+
+    for (const entry of pending) {
+      if (entry.shortCode && !taken.has(entry.row)) {
+        results.push({ row: entry.row, status: "imported", shortCode: entry.shortCode })
+      } else if (entry.shortCode && onCollision === "skip") {
+        results.push({ row: entry.row, status: "collision", shortCode: entry.shortCode })
+      } else {
+        results.push({ row: entry.row, status: "imported", shortCode: null, ...renamed(entry.row) })
+      }
+    }
+    return results.sort((a, b) => a.row - b.row)
+  }
+
+  const revision = { action: "import" as const, actor }
+  let outcomes = await claimLinks(pending, revision)
+  if (onCollision === "rename") {
+    const taken = outcomes.filter((outcome) => outcome.status === "taken").map((outcome) => outcome.row)
+    const retry = pending.filter((entry) => taken.includes(entry.row)).map((entry) => ({ ...entry, shortCode: null }))
+    outcomes = [...outcomes.filter((outcome) => outcome.status !== "taken"), ...(await claimLinks(retry, revision))]
+  }
+
+  for (const outcome of outcomes) {
+    if (outcome.status === "claimed") {
+      const keptCode = outcome.shortCode === originalCodes.get(outcome.row)
+      results.push({
+        row: outcome.row,
+        status: "imported",
+        shortCode: outcome.shortCode,
+        ...(keptCode ? {} : renamed(outcome.row)),
+      })
+    } else if (outcome.status === "taken") {
+      results.push({ row: outcome.row, status: "collision", shortCode: outcome.shortCode })
+    } else {
+      results.push({ row: outcome.row, status: "error", error: "Could not generate unique short code" })
+    }
+  }
+
+  console.log(`📥 Imported ${outcomes.filter((outcome) => outcome.status === "claimed").length} links from ${source}`)
+  return results.sort((a, b) => a.row - b.row)
+}
+
+export async function getLink(shortCode: string): Promise<UrlData | null> {
+  const urlSnap = await getDoc(doc(db, "urls", shortCode))
+  return urlSnap.exists() ? (urlSnap.data() as UrlData) : null
+}
+
+// One page of a workspace's links, newest first, leaving out trashed links (so a page can come back
+// short). The cursor is the last short code of the previous page.
+export async function listWorkspaceLinks(
+  workspaceId: string,
+  options: { pageSize: number; cursor?: string },
+): Promise<{ links: UrlData[]; nextCursor: string | null }> {
+  const constraints: QueryConstraint[] = [
+    where("workspaceId", "==", workspaceId),
+    orderBy("createdAt", "desc"),
+    limit(options.pageSize),
+  ]
+
+  if (options.cursor) {
+    const cursorSnap = await getDoc(doc(db, "urls", options.cursor))
+    if (!cursorSnap.exists() || cursorSnap.data().workspaceId !== workspaceId) {
+      throw new LinkError(400, "Invalid cursor")
+    }
+    constraints.push(startAfter(cursorSnap))
+  }
+
+  // Older links have no deletedAt field at all, so trashed links can't be excluded in the query itself
+  const snapshot = await getDocs(query(collection(db, "urls"), ...constraints))
+  const links = snapshot.docs.map((urlDoc) => ({ ...(urlDoc.data() as UrlData), shortCode: urlDoc.id }))
+
+  return {
+    links: links.filter((link) => !link.deletedAt),
+    nextCursor: links.length === options.pageSize ? links[links.length - 1].shortCode : null,
+  }
+}
+
+// Validate and apply changes to a link, returning the updated link
+export async function updateLink(shortCode: string, changes: LinkChanges, actor: LinkActor): Promise<UrlData> {
+  const update: Record<string, any> = {}
+
+  if (changes.originalUrl !== undefined) {
+    assertValidUrl(changes.originalUrl)
+    update.originalUrl = changes.originalUrl
+  }
+  if (changes.redirectType !== undefined) {
+    assertRedirectType(changes.redirectType)
+    update.redirectType = changes.redirectType
+  }
+  if (changes.isPublic !== undefined) {
+    assertBoolean(changes.isPublic, "isPublic")
+    update.isPublic = changes.isPublic
+  }
+  if (changes.isActive !== undefined) {
+    assertBoolean(changes.isActive, "isActive")
+    update.isActive = changes.isActive
+  }
+  if (changes.expiresAt !== undefined) {
+    update.expiresAt = changes.expiresAt === null ? null : Timestamp.fromDate(parseExpiresAt(changes.expiresAt))
+  }
+  if (changes.maxClicks !== undefined) {
+    update.maxClicks = parseMaxClicks(changes.maxClicks)
+  }
+  if (changes.expiredRedirectUrl !== undefined) {
+    update.expiredRedirectUrl = parseExpiredRedirectUrl(changes.expiredRedirectUrl)
+  }
+  if (changes.expiredMessage !== undefined) {
+    update.expiredMessage = parseExpiredMessage(changes.expiredMessage)
+  }
+  // A removed password's hash is kept, so restoring an earlier protected version brings it back
+  let passwordHash: string | null = null
+  if (changes.password !== undefined) {
+    passwordHash = await parsePassword(changes.password)
+    update.passwordProtected = passwordHash !== null
+  }
+  if (changes.activatesAt !== undefined) {
+    const activatesAt = parseActivatesAt(changes.activatesAt)
+    update.activatesAt = activatesAt ? Timestamp.fromDate(activatesAt) : null
+  }
+  if (changes.showCountdown !== undefined) {
+    assertBoolean(changes.showCountdown, "showCountdown")
+    update.showCountdown = changes.showCountdown
+  }
+  if (changes.schedule !== undefined) {
+    update.schedule = parseSchedule(changes.schedule)
+  }
+  if (changes.targetingRules !== undefined) {
+    update.targetingRules = parseTargetingRules(changes.targetingRules)
+  }
+  if (changes.variants !== undefined) {
+    update.variants = parseVariants(changes.variants)
+  }
+  if (changes.trackConversions !== undefined) {
+    assertBoolean(changes.trackConversions, "trackConversions")
+    update.trackConversions = changes.trackConversions
+  }
+  if (changes.utmParams !== undefined) {
+    update.utmParams = parseUtmParams(changes.utmParams)
+  }
+  if (changes.queryPassthrough !== undefined) {
+    update.queryPassthrough = parseQueryPassthrough(changes.queryPassthrough)
+  }
+  if (changes.wildcard !== undefined) {
+    assertBoolean(changes.wildcard, "wildcard")
+    update.wildcard = changes.wildcard
+  }
+  if (changes.tags !== undefined) {
+    update.tags = parseTags(changes.tags)
+  }
+
+  if (Object.keys(update).length === 0) {
+    throw new LinkError(400, "No changes provided")
+  }
+
+  const urlRef = doc(db, "urls", shortCode)
+  const updated = await runTransaction(db, async (transaction) => {
+    const urlSnap = await transaction.get(urlRef)
+    if (!urlSnap.exists()) {
+      throw new LinkError(404, "Short code not found")
+    }
+
+    const before = urlSnap.data()
+    if (before.deletedAt) {
+      throw new LinkError(409, "Restore this link from the trash before editing it")
+    }
+    const after = { ...before, ...update }
+    assertActivationBeforeExpiry(after.activatesAt?.toDate() || null, after.expiresAt?.toDate() || null)
+    transaction.update(urlRef, update)
+    // A new password on a link that already had one leaves passwordProtected as it was
+    const extraChanges =
+      passwordHash && isPasswordProtected(before as UrlData) ? { password: { from: "set", to: "changed" } } : undefined
+    if (passwordHash) {
+      transaction.set(linkSecretRef(shortCode), { passwordHash })
+    }
+    writeRevision(transaction, shortCode, { action: "update", actor, before, after, extraChanges })
+    return after as UrlData
+  })
+
+  console.log(`✏️ Link ${shortCode} updated: ${Object.keys(update).join(", ")}`)
+  return updated
+}
+
+// Put a link's settings back to how they were after the given revision. Fields added since are removed.
+export async function restoreLinkRevision(shortCode: string, revisionId: string, actor: LinkActor): Promise<UrlData> {
+  const urlRef = doc(db, "urls", shortCode)
+  const revisionRef = doc(linkHistoryCollection(shortCode), revisionId)
+  const secretRef = linkSecretRef(shortCode)
+
+  const restored = await runTransaction(db, async (transaction) => {
+    const [urlSnap, revisionSnap, secretSnap] = await Promise.all([
+      transaction.get(urlRef),
+      transaction.get(revisionRef),
+      transaction.get(secretRef),
+    ])
+    if (!urlSnap.exists()) {
+      throw new LinkError(404, "Short code not found")
+    }
+    if (!revisionSnap.exists()) {
+      throw new LinkError(404, "Revision not found")
+    }
+
+    const before = urlSnap.data()
+    if (before.deletedAt) {
+      throw new LinkError(409, "Restore this link from the trash before editing it")
+    }
+    // Revisions written before hashes moved to linkSecrets carry the hash itself
+    const { passwordHash: legacyHash, ...snapshot } = (revisionSnap.data() as LinkRevision).snapshot
+    if (legacyHash) {
+      snapshot.passwordProtected = true
+    }
+    if (snapshot.passwordProtected && !legacyHash && !secretSnap.exists() && !before.passwordHash) {
+      throw new LinkError(409, "This version was password protected, but its password is gone. Set a new one instead.")
+    }
+    const identity = Object.fromEntries(
+      Object.entries(before).filter(([field]) => LINK_IDENTITY_FIELDS.includes(field)),
+    )
+    const after = { ...identity, ...snapshot }
+
+    if (Object.keys(diffLinkSettings(before, after)).length === 0) {
+      throw new LinkError(400, "The link already matches this version")
+    }
+
+    const update: Record<string, any> = { ...snapshot }
+    for (const field of Object.keys(linkSettings(before))) {
+      if (!(field in snapshot)) {
+        update[field] = deleteField()
+      }
+    }
+
+    // Any hash still on the link document moves to linkSecrets as well
+    if ("passwordHash" in before) {
+      update.passwordHash = deleteField()
+    }
+    const movedHash = legacyHash || (!secretSnap.exists() && before.passwordHash)
+    transaction.update(urlRef, update)
+    if (movedHash) {
+      transaction.set(secretRef, { passwordHash: movedHash })
+    }
+    writeRevision(transaction, shortCode, { action: "restore", actor, before, after, restoredFrom: revisionId })
+    return after as UrlData
+  })
+
+  console.log(`⏪ Link ${shortCode} restored to revision ${revisionId}`)
+  return restored
+}
+
+// Move a link to the trash. It stops redirecting (410 Gone) until restored or purged.
+export async function trashLink(shortCode: string, actor: LinkActor): Promise<UrlData> {
+  const urlRef = doc(db, "urls", shortCode)
+
+  const trashed = await runTransaction(db, async (transaction) => {
+    const urlSnap = await transaction.get(urlRef)
+    if (!urlSnap.exists() || urlSnap.data().deletedAt) {
+      throw new LinkError(404, "Short code not found")
+    }
+
+    const before = urlSnap.data()
+    const update = { deletedAt: Timestamp.now(), deletedBy: actor.uid }
+    transaction.update(urlRef, update)
+    writeRevision(transaction, shortCode, { action: "delete", actor, before, after: { ...before, ...update } })
+    return { ...before, ...update } as UrlData
+  })
+
+  console.log(`🗑️ Link ${shortCode} moved to the trash`)
+  return trashed
+}
+
+// Take a link back out of the trash, as long as the retention window hasn't passed
+export async function untrashLink(shortCode: string, actor: LinkActor): Promise<UrlData> {
+  const urlRef = doc(db, "urls", shortCode)
+
+  const restored = await runTransaction(db, async (transaction) => {
+    const urlSnap = await transaction.get(urlRef)
+    if (!urlSnap.exists()) {
+      throw new LinkError(404, "Short code not found")
+    }
+
+    const before = urlSnap.data()
+    if (!before.deletedAt) {
+      throw new LinkError(409, "This link is not in the trash")
+    }
+    if (getPurgeDate(before.deletedAt.toDate()) <= new Date()) {
+      throw new LinkError(409, "This link is past the trash retention window and is being purged")
+    }
+
+    const update = { deletedAt: deleteField(), deletedBy: deleteField() }
+    const after = { ...before }
+    delete after.deletedAt
+    delete after.deletedBy
+
+    transaction.update(urlRef, update)
+    writeRevision(transaction, shortCode, { action: "undelete", actor, before, after })
+    return after as UrlData
+  })
+
+  console.log(`♻️ Link ${shortCode} restored from the trash`)
+  return restored
+}
+
+// A workspace's trashed links, most recently deleted first
+export async function listTrashedLinks(workspaceId: string): Promise<UrlData[]> {
+  const snapshot = await getDocs(
+    query(
+      collection(db, "urls"),
+      where("workspaceId", "==", workspaceId),
+      where("deletedAt", ">", Timestamp.fromMillis(0)),
+      orderBy("deletedAt", "desc"),
+      limit(100),
+    ),
+  )
+  return snapshot.docs.map((urlDoc) => ({ ...(urlDoc.data() as UrlData), shortCode: urlDoc.id }))
+}
+
+// Trashed links read per query while purging, and documents deleted per write batch
+const PURGE_PAGE_SIZE = 25
+const DELETE_BATCH_SIZE = 400 // Firestore batches are limited to 500 writes
+
+// Permanently remove links that have been in the trash longer than the retention window, a page at a time
+// until none are left or timeBudgetMs has passed. done is false when links were left for the next run.
+// Links that fail to purge are logged and skipped, so one bad link can't stall the rest.
+export async function purgeExpiredTrash(timeBudgetMs: number): Promise<{ purged: string[]; done: boolean }> {
+  const startedAt = Date.now()
+  const cutoff = new Date()
+  cutoff.setDate(cutoff.getDate() - LINK_TRASH_RETENTION_DAYS)
+
+  const purged: string[] = []
+  let last: QueryDocumentSnapshot | null = null
+  while (Date.now() - startedAt < timeBudgetMs) {
+    const page: QuerySnapshot = await getDocs(
+      query(
+        collection(db, "urls"),
+        where("deletedAt", "<=", Timestamp.fromDate(cutoff)),
+        orderBy("deletedAt", "asc"),
+        ...(last ? [startAfter(last)] : []),
+        limit(PURGE_PAGE_SIZE),
+      ),
+    )
+
+    for (const urlDoc of page.docs) {
+      if (Date.now() - startedAt >= timeBudgetMs) {
+        return { purged, done: false }
+      }
+      try {
+        await purgeLink(urlDoc.id)
+        purged.push(urlDoc.id)
+      } catch (error) {
+        console.error(`❌ Failed to purge trashed link ${urlDoc.id}:`, error)
+      }
+    }
+
+    if (page.size < PURGE_PAGE_SIZE) {
+      return { purged, done: true }
+    }
+    last = page.docs[page.docs.length - 1]
+  }
+  return { purged, done: false }
+}
+
+// Delete every document in a collection (and the given nested subcollections of each document),
+// DELETE_BATCH_SIZE documents at a time so busy links never load all their clicks at once
+async function deleteCollection(path: string[], nestedSubcollections: string[] = []): Promise<number> {
+  const [root, ...segments] = path
+  let deleted = 0
+
+  while (true) {
+    const page = await getDocs(query(collection(db, root, ...segments), limit(DELETE_BATCH_SIZE)))
+
+    for (const childDoc of page.docs) {
+      for (const subcollection of nestedSubcollections) {
+        deleted += await deleteCollection([...path, childDoc.id, subcollection])
+      }
+    }
+
+    if (page.size > 0) {
+      const batch = writeBatch(db)
+      page.docs.forEach((childDoc) => batch.delete(childDoc.ref))
+      await batch.commit()
+      deleted += page.size
+    }
+    if (page.size < DELETE_BATCH_SIZE) {
+      return deleted
+    }
+  }
+}
+
+// Delete a link's click events, conversions, counter shards and rollups, keeping the analytics document
+// itself. Returns the number of documents deleted.
+export async function deleteLinkAnalytics(shortCode: string): Promise<number> {
+  const hourly = rollupsCollection(shortCode, "hour")
+  const daily = rollupsCollection(shortCode, "day")
+
+  return (
+    (await deleteCollection(["analytics", shortCode, "clicks"])) +
+    (await deleteCollection(["analytics", shortCode, "conversions"])) +
+    (await deleteCollection(["analytics", shortCode, "shards"])) +
+    (await deleteCollection(hourly.path.split("/"), ["visitors"])) +
+    (await deleteCollection(daily.path.split("/"), ["visitors"])) +
+    (await deleteCollection(["analytics", shortCode, "rollupVisitors"]))
+  )
+}
+
+// Permanently remove a link with its password hash, history and analytics
+export async function purgeLink(shortCode: string): Promise<void> {
+  const deleted =
+    (await deleteLinkAnalytics(shortCode)) + (await deleteCollection(["urls", shortCode, "history"]))
+
+  const batch = writeBatch(db)
+  batch.delete(doc(db, "analytics", shortCode))
+  batch.delete(doc(db, "urls", shortCode))
+  batch.delete(linkSecretRef(shortCode))
+  await batch.commit()
+
+  console.log(`🗑️ Purged link ${shortCode} and ${deleted} analytics documents`)
+}
+
+export interface PasswordMigrationResult {
+  links: number // links whose hash moved to linkSecrets
+  revisions: number // revisions the hash was stripped from
+}
+
+// Move password hashes off link documents (which public viewers and members can read) into linkSecrets,
+// and strip them from every revision. Safe to re-run.
+export async function migrateLinkPasswords(actor: LinkActor): Promise<PasswordMigrationResult> {
+  const result: PasswordMigrationResult = { links: 0, revisions: 0 }
+  const urlsSnapshot = await getDocs(collection(db, "urls"))
+
+  for (const urlDoc of urlsSnapshot.docs) {
+    const shortCode = urlDoc.id
+
+    if ("passwordHash" in urlDoc.data()) {
+      await runTransaction(db, async (transaction) => {
+        const urlSnap = await transaction.get(urlDoc.ref)
+        if (!urlSnap.exists() || !("passwordHash" in urlSnap.data())) return
+
+        const { passwordHash, ...before } = urlSnap.data()
+        const update: Record<string, any> = { passwordHash: deleteField() }
+        if (passwordHash) {
+          update.passwordProtected = true
+          transaction.set(linkSecretRef(shortCode), { passwordHash })
+          writeRevision(transaction, shortCode, {
+            action: "migration",
+            actor,
+            before,
+            after: { ...before, passwordProtected: true },
+          })
+        }
+        transaction.update(urlDoc.ref, update)
+      })
+      result.links++
+    }
+
+    const history = await getDocs(linkHistoryCollection(shortCode))
+    const withHashes = history.docs.filter((revisionDoc) => {
+      const { snapshot = {}, changes = {} } = revisionDoc.data()
+      return "passwordHash" in snapshot || "passwordHash" in changes
+    })
+    for (let start = 0; start < withHashes.length; start += DELETE_BATCH_SIZE) {
+      const batch = writeBatch(db)
+      for (const revisionDoc of withHashes.slice(start, start + DELETE_BATCH_SIZE)) {
+        batch.update(revisionDoc.ref, { "snapshot.passwordHash": deleteField(), "changes.passwordHash": deleteField() })
+      }
+      await batch.commit()
+    }
+    result.revisions += withHashes.length
+  }
+
+  console.log(`🔐 Moved ${result.links} password hashes to linkSecrets and cleaned ${result.revisions} revisions`)
+  return result
+}
@@ -0,0 +1,123 @@
+import { collection, query, where, orderBy, limit, onSnapshot, Timestamp } from "firebase/firestore"
+import { db } from "./firebase"
+import { hasRole, type WorkspaceRole } from "./workspaces"
+import type { UrlData } from "./analytics-clean"
+
+export const WORKSPACE_LINKS_LIMIT = 50
+
+// How long a deleted link stays in the trash before the scheduled purge removes it for good
+export const LINK_TRASH_RETENTION_DAYS = 30
+
+// Length limits for link passwords (hashing lives server-side in link-passwords.ts)
+export const LINK_PASSWORD_MIN_LENGTH = 4
+export const LINK_PASSWORD_MAX_LENGTH = 128
+
+// Rows per bulk upload (the upload page and the bulk endpoints)
+export const BULK_MAX_LINKS = 500
+
+// Rows per import request; the import page sends bigger exports in several requests
+export const IMPORT_MAX_LINKS = 500
+
+export function getPurgeDate(deletedAt: Date): Date {
+  const purgeAt = new Date(deletedAt)
+  purgeAt.setDate(purgeAt.getDate() + LINK_TRASH_RETENTION_DAYS)
+  return purgeAt
+}
+
+// Links belong to a workspace and members see them according to their role.
+// Links created before workspaces existed belong to their creator alone.
+// Analytics are also visible to anyone once a link is marked public.
+export function getLinkRole(
+  urlData: Pick<UrlData, "ownerId" | "workspaceId">,
+  uid: string | null | undefined,
+  getWorkspaceRole: (workspaceId: string) => WorkspaceRole | null,
+): WorkspaceRole | null {
+  if (!uid) return null
+  if (urlData.workspaceId) return getWorkspaceRole(urlData.workspaceId)
+  return urlData.ownerId === uid ? "owner" : null
+}
+
+export function canViewAnalytics(urlData: Pick<UrlData, "isPublic">, role: WorkspaceRole | null): boolean {
+  return urlData.isPublic === true || hasRole(role, "viewer")
+}
+
+export function canEditLink(role: WorkspaceRole | null): boolean {
+  return hasRole(role, "editor")
+}
+
+// Links protected before the flag existed only carry the (legacy) hash
+export function isPasswordProtected(urlData: Pick<UrlData, "passwordProtected" | "passwordHash">): boolean {
+  return urlData.passwordProtected ?? !!urlData.passwordHash
+}
+
+// Real-time list of a workspace's links, newest first
+export function subscribeToWorkspaceLinks(
+  workspaceId: string,
+  callback: (links: UrlData[]) => void,
+  limitCount = WORKSPACE_LINKS_LIMIT,
+): () => void {
+  const linksQuery = query(
+    collection(db, "urls"),
+    where("workspaceId", "==", workspaceId),
+    orderBy("createdAt", "desc"),
+    limit(limitCount),
+  )
+
+  return onSnapshot(
+    linksQuery,
+    (snapshot) => {
+      // Trashed links live on the trash page instead
+      const links = snapshot.docs.map((urlDoc) => ({ ...(urlDoc.data() as UrlData), shortCode: urlDoc.id }))
+      callback(links.filter((link) => !link.deletedAt))
+    },
+    (error) => {
+      console.error("❌ Workspace links subscription error:", error)
+      callback([])
+    },
+  )
+}
+
+// Editable fields from a link returned by PATCH /api/links (or a restore), in UrlData form
+export function linkFieldsFromResponse(data: {
+  originalUrl: string
+  isActive: boolean
+  isPublic: boolean
+  redirectType: UrlData["redirectType"]
+  expiresAt: string | null
+  maxClicks: number | null
+  expiredRedirectUrl: string | null
+  expiredMessage: string | null
+  passwordProtected: boolean
+  activatesAt: string | null
+  showCountdown: boolean
+  schedule: UrlData["schedule"]
+  targetingRules: UrlData["targetingRules"]
+  variants: UrlData["variants"]
+  trackConversions: boolean
+  utmParams: UrlData["utmParams"]
+  queryPassthrough: UrlData["queryPassthrough"]
+  wildcard: boolean
+  tags: string[]
+}): Partial<UrlData> {
+  return {
+    originalUrl: data.originalUrl,
+    isActive: data.isActive,
+    isPublic: data.isPublic,
+    redirectType: data.redirectType,
+    expiresAt: data.expiresAt ? Timestamp.fromDate(new Date(data.expiresAt)) : null,
+    maxClicks: data.maxClicks,
+    expiredRedirectUrl: data.expiredRedirectUrl,
+    expiredMessage: data.expiredMessage,
+    passwordProtected: data.passwordProtected,
+    activatesAt: data.activatesAt ? Timestamp.fromDate(new Date(data.activatesAt)) : null,
+    showCountdown: data.showCountdown,
+    schedule: data.schedule,
+    targetingRules: data.targetingRules,
+    variants: data.variants,
+    trackConversions: data.trackConversions,
+    utmParams: data.utmParams,
+    queryPassthrough: data.queryPassthrough,
+    wildcard: data.wildcard,
+    tags: data.tags,
+  }
+}
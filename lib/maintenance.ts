@@ -0,0 +1,24 @@
+import { authFetch } from "./auth"
+
+// Maintenance jobs that rewrite data across every workspace. The security rules only let the server write
+// links and analytics, so the maintenance pages run them through /api/admin/maintenance/{task}, which is
+// limited to project admins (see requireProjectAdmin).
+export const MAINTENANCE_TASKS = [
+  "migrate-clicks",
+  "backfill-rollups",
+  "fix-analytics",
+  "migrate-clean",
+  "migrate-passwords",
+] as const
+
+export type MaintenanceTask = (typeof MAINTENANCE_TASKS)[number]
+
+// Run a job as the signed-in user and return its result. Throws an Error with the API's message.
+export async function runMaintenanceTask<T>(task: MaintenanceTask): Promise<T> {
+  const response = await authFetch(`/api/admin/maintenance/${task}`, { method: "POST" })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || "The job failed")
+  }
+  return data as T
+}
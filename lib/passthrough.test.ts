@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest"
+import { appendPath, forwardQuery, getPathAfterShortCode } from "./passthrough"
+
+describe("forwardQuery", () => {
+  it("forwards parameters the destination doesn't have", () => {
+    expect(forwardQuery("https://example.com/p", new URLSearchParams("ref=news"), "merge")).toBe(
+      "https://example.com/p?ref=news",
+    )
+  })
+
+  it("keeps the destination's value of a shared key when merging", () => {
+    const incoming = new URLSearchParams("tag=a&tag=b&x=2&new=1")
+    expect(forwardQuery("https://example.com/p?tag=orig&x=1", incoming, "merge")).toBe(
+      "https://example.com/p?tag=orig&x=1&new=1",
+    )
+  })
+
+  it("replaces every value of a shared key when overriding", () => {
+    const incoming = new URLSearchParams("tag=a&tag=b&x=2&new=1")
+    expect(forwardQuery("https://example.com/p?tag=orig&tag=other&x=1", incoming, "override")).toBe(
+      "https://example.com/p?tag=a&tag=b&x=2&new=1",
+    )
+  })
+
+  it("forwards repeated visitor keys as a group", () => {
+    expect(forwardQuery("https://example.com/p", new URLSearchParams("tag=a&tag=b"), "merge")).toBe(
+      "https://example.com/p?tag=a&tag=b",
+    )
+  })
+
+  it("treats empty values as values", () => {
+    expect(forwardQuery("https://example.com/p?ref=", new URLSearchParams("ref=news&empty="), "merge")).toBe(
+      "https://example.com/p?ref=&empty=",
+    )
+    expect(forwardQuery("https://example.com/p?ref=site", new URLSearchParams("ref="), "override")).toBe(
+      "https://example.com/p?ref=",
+    )
+  })
+
+  it("keeps the destination's fragment after the query", () => {
+    expect(forwardQuery("https://example.com/p?x=1#section", new URLSearchParams("y=2"), "merge")).toBe(
+      "https://example.com/p?x=1&y=2#section",
+    )
+  })
+
+  it("re-encodes reserved characters in forwarded values", () => {
+    const incoming = new URLSearchParams({ q: "a&b=c #d", name: "café" })
+    const forwarded = new URL(forwardQuery("https://example.com/p", incoming, "merge"))
+    expect(forwarded.searchParams.get("q")).toBe("a&b=c #d")
+    expect(forwarded.searchParams.get("name")).toBe("café")
+    expect(forwarded.hash).toBe("")
+  })
+
+  it("returns the destination unchanged without parameters or with an invalid URL", () => {
+    expect(forwardQuery("https://example.com/p?x=1", new URLSearchParams(), "override")).toBe(
+      "https://example.com/p?x=1",
+    )
+    expect(forwardQuery("not a url", new URLSearchParams("x=1"), "merge")).toBe("not a url")
+  })
+})
+
+describe("appendPath", () => {
+  it("appends segments below the destination's path", () => {
+    expect(appendPath("https://example.com/docs/", ["getting-started", "install"])).toBe(
+      "https://example.com/docs/getting-started/install",
+    )
+  })
+
+  it("keeps the destination's query and fragment", () => {
+    expect(appendPath("https://example.com/base?x=1#frag", ["a", "b"])).toBe("https://example.com/base/a/b?x=1#frag")
+  })
+
+  it("drops empty, '.' and '..' segments", () => {
+    expect(appendPath("https://example.com/base", ["", "..", ".", "..", "etc"])).toBe("https://example.com/base/etc")
+    expect(appendPath("https://example.com/base", ["..", ".."])).toBe("https://example.com/base")
+  })
+
+  it("encodes each segment, so slashes and '?' stay inside it", () => {
+    expect(appendPath("https://example.com/base", ["a/b", "c?d=1", "e f", "ü"])).toBe(
+      "https://example.com/base/a%2Fb/c%3Fd%3D1/e%20f/%C3%BC",
+    )
+  })
+})
+
+describe("getPathAfterShortCode", () => {
+  it("ignores double slashes", () => {
+    expect(getPathAfterShortCode("/abc123//docs///a")).toEqual(["docs", "a"])
+  })
+
+  it("decodes segments, including an encoded '..' that appendPath then drops", () => {
+    const segments = getPathAfterShortCode("/abc123/%2e%2e/%2E%2E/etc")
+    expect(segments).toEqual(["..", "..", "etc"])
+    expect(appendPath("https://example.com/base", segments)).toBe("https://example.com/base/etc")
+  })
+
+  it("keeps an encoded slash inside its segment", () => {
+    expect(getPathAfterShortCode("/abc123/a%2Fb/a%20b")).toEqual(["a/b", "a b"])
+  })
+
+  it("leaves malformed escapes as they are", () => {
+    expect(getPathAfterShortCode("/abc123/%E0%A4")).toEqual(["%E0%A4"])
+  })
+
+  it("returns nothing for the short code alone", () => {
+    expect(getPathAfterShortCode("/abc123")).toEqual([])
+  })
+})
@@ -0,0 +1,68 @@
+// Passing the visitor's request through to the destination. Links can forward the query string
+// they were opened with (/abc123?ref=newsletter), and wildcard links append whatever path follows
+// the short code (/docs/getting-started/install → https://example.com/docs/getting-started/install).
+
+export const QUERY_PASSTHROUGH_MODES = ["merge", "override"] as const
+
+// merge: the destination's own parameters win; override: the visitor's parameters win
+export type QueryPassthrough = (typeof QUERY_PASSTHROUGH_MODES)[number]
+
+export const QUERY_PASSTHROUGH_LABELS: Record<QueryPassthrough, string> = {
+  merge: "Forward new parameters",
+  override: "Forward and override",
+}
+
+export function isQueryPassthrough(value: unknown): value is QueryPassthrough {
+  return QUERY_PASSTHROUGH_MODES.includes(value as QueryPassthrough)
+}
+
+// Append path segments to the destination's path, keeping its query string and fragment.
+// Segments are re-encoded one by one; empty, "." and ".." segments are dropped so the
+// result can never climb out of the destination's path.
+export function appendPath(url: string, segments: string[]): string {
+  const safeSegments = segments.filter((segment) => segment && segment !== "." && segment !== "..")
+  if (safeSegments.length === 0) return url
+  try {
+    const destination = new URL(url)
+    const basePath = destination.pathname.replace(/\/+$/, "")
+    destination.pathname = `${basePath}/${safeSegments.map(encodeURIComponent).join("/")}`
+    return destination.toString()
+  } catch {
+    return url
+  }
+}
+
+// Copy the visitor's query parameters onto the destination. Repeated parameters (?tag=a&tag=b)
+// are forwarded as a group.
+export function forwardQuery(url: string, incoming: URLSearchParams, mode: QueryPassthrough): string {
+  const names = [...new Set(incoming.keys())]
+  if (names.length === 0) return url
+  try {
+    const destination = new URL(url)
+    for (const name of names) {
+      if (destination.searchParams.has(name)) {
+        if (mode === "merge") continue
+        destination.searchParams.delete(name)
+      }
+      incoming.getAll(name).forEach((value) => destination.searchParams.append(name, value))
+    }
+    return destination.toString()
+  } catch {
+    return url
+  }
+}
+
+// The decoded path segments after the short code, e.g. "/abc123/docs/a%20b" → ["docs", "a b"]
+export function getPathAfterShortCode(pathname: string): string[] {
+  return pathname
+    .split("/")
+    .slice(2)
+    .filter(Boolean)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment)
+      } catch {
+        return segment
+      }
+    })
+}
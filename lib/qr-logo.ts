@@ -0,0 +1,101 @@
+import { lookup, type LookupAddress } from "dns"
+import { get, type RequestOptions } from "https"
+import { BlockList, isIP } from "net"
+
+// Server-side download of the logo drawn in a QR code (see qr.ts). The URL comes from whoever requests
+// the image, so the request may only reach public addresses: every address the host name resolves to is
+// checked, and the connection goes to the checked address, so a DNS answer that changes between the
+// check and the connection can't point it at the internal network. Redirects aren't followed.
+
+const LOGO_MAX_BYTES = 512 * 1024
+const LOGO_TIMEOUT_MS = 5000
+const LOGO_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp", "image/svg+xml"]
+
+// Loopback, private, link-local, shared (CGNAT), multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["::ffff:0:0", 96], // IPv4-mapped
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6")
+}
+
+function isPublicAddress(address: string): boolean {
+  const version = isIP(address)
+  return version !== 0 && !BLOCKED_ADDRESSES.check(address, version === 4 ? "ipv4" : "ipv6")
+}
+
+// Resolve like dns.lookup, but fail unless every address is public
+const publicOnlyLookup: RequestOptions["lookup"] = (hostname, options, callback) => {
+  lookup(hostname, { all: true, family: options.family }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, "", 0)
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(new Error(`${hostname} does not resolve to a public address`), "", 0)
+    }
+    // Node asks for every address when it tries IPv4 and IPv6 in turn (autoSelectFamily)
+    if ((options as { all?: boolean }).all) {
+      return (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses)
+    }
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+// Download a logo as a data URI for embedding. Throws an Error with a readable message.
+export function fetchQrLogo(url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const options: RequestOptions = { lookup: publicOnlyLookup, signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) }
+    const request = get(url, options, (response) => {
+      const status = response.statusCode || 0
+      if (status < 200 || status >= 300) {
+        response.resume()
+        return reject(new Error(`The logo could not be downloaded (HTTP ${status})`))
+      }
+      const type = (response.headers["content-type"] || "").split(";")[0].trim().toLowerCase()
+      if (!LOGO_TYPES.includes(type)) {
+        response.destroy()
+        return reject(new Error("The logo must be a PNG, JPEG, GIF, WebP or SVG image"))
+      }
+
+      // Refuse oversized logos up front when the size is announced, and stop reading once the cap is hit
+      // when it isn't
+      const tooLarge = new Error(`The logo must be smaller than ${LOGO_MAX_BYTES / 1024} KB`)
+      if (Number(response.headers["content-length"]) > LOGO_MAX_BYTES) {
+        response.destroy()
+        return reject(tooLarge)
+      }
+      const chunks: Buffer[] = []
+      let received = 0
+      response.on("data", (chunk: Buffer) => {
+        received += chunk.length
+        if (received > LOGO_MAX_BYTES) {
+          response.destroy()
+          return reject(tooLarge)
+        }
+        chunks.push(chunk)
+      })
+      response.on("end", () => resolve(`data:${type};base64,${Buffer.concat(chunks).toString("base64")}`))
+      response.on("error", () => reject(new Error("The logo could not be downloaded")))
+    })
+    request.on("error", () => reject(new Error("The logo could not be downloaded")))
+  })
+}
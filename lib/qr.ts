@@ -0,0 +1,202 @@
+import QRCode from "qrcode"
+
+// QR codes for short links, served by /api/qr/[shortCode] as SVG or PNG. The code encodes the short
+// URL tagged with ?qr=1 so a scan can be told apart from a typed or clicked link; the redirect strips
+// the tag again before the query string is forwarded to the destination.
+
+export const QR_FORMATS = ["svg", "png"] as const
+export const QR_ERROR_LEVELS = ["L", "M", "Q", "H"] as const
+
+export type QrFormat = (typeof QR_FORMATS)[number]
+export type QrErrorLevel = (typeof QR_ERROR_LEVELS)[number]
+
+export const QR_ERROR_LEVEL_LABELS: Record<QrErrorLevel, string> = {
+  L: "Low (7%)",
+  M: "Medium (15%)",
+  Q: "Quartile (25%)",
+  H: "High (30%)",
+}
+
+export interface QrOptions {
+  format: QrFormat
+  size: number // width and height in pixels
+  margin: number // quiet zone, in modules
+  level: QrErrorLevel
+  foreground: string // #rrggbb
+  background: string // #rrggbb
+  logo?: string // https URL of an image drawn in the center
+}
+
+export const QR_DEFAULTS: Omit<QrOptions, "logo"> = {
+  format: "svg",
+  size: 512,
+  margin: 4,
+  level: "M",
+  foreground: "#000000",
+  background: "#ffffff",
+}
+
+export const QR_MIN_SIZE = 64
+export const QR_MAX_SIZE = 2048
+export const QR_MAX_MARGIN = 16
+
+export const QR_SCAN_PARAM = "qr"
+
+// Share of the code's width covered by the logo; fine for error correction Q and H
+const LOGO_SCALE = 0.22
+
+// "#abc", "abc", "#aabbcc" or "aabbcc" → "#aabbcc"
+function parseColor(value: string): string | null {
+  const hex = value.trim().replace(/^#/, "").toLowerCase()
+  if (/^[0-9a-f]{3}$/.test(hex)) {
+    return `#${hex
+      .split("")
+      .map((digit) => digit + digit)
+      .join("")}`
+  }
+  return /^[0-9a-f]{6}$/.test(hex) ? `#${hex}` : null
+}
+
+function parseInteger(value: string | null, min: number, max: number): number | null | undefined {
+  if (value === null || value === "") return undefined
+  const number = Number(value)
+  return Number.isInteger(number) && number >= min && number <= max ? number : null
+}
+
+// Read QR options from query parameters (format, size, margin, level, fg, bg, logo); missing ones use
+// QR_DEFAULTS. Returns a message for the first invalid parameter.
+export function parseQrOptions(params: URLSearchParams): QrOptions | string {
+  const format = params.get("format") || QR_DEFAULTS.format
+  if (!QR_FORMATS.includes(format as QrFormat)) {
+    return `format must be one of: ${QR_FORMATS.join(", ")}`
+  }
+
+  const size = parseInteger(params.get("size"), QR_MIN_SIZE, QR_MAX_SIZE)
+  if (size === null) {
+    return `size must be a whole number of pixels between ${QR_MIN_SIZE} and ${QR_MAX_SIZE}`
+  }
+  const margin = parseInteger(params.get("margin"), 0, QR_MAX_MARGIN)
+  if (margin === null) {
+    return `margin must be a whole number of modules between 0 and ${QR_MAX_MARGIN}`
+  }
+
+  const logo = params.get("logo") || undefined
+  if (logo && !isAllowedLogoUrl(logo)) {
+    return "logo must be a public https URL"
+  }
+
+  // A logo hides part of the code, so it needs the higher error correction levels
+  const level = (params.get("level") || (logo ? "H" : QR_DEFAULTS.level)).toUpperCase()
+  if (!QR_ERROR_LEVELS.includes(level as QrErrorLevel)) {
+    return `level must be one of: ${QR_ERROR_LEVELS.join(", ")}`
+  }
+  if (logo && (level === "L" || level === "M")) {
+    return "Use error correction level Q or H with a logo"
+  }
+
+  const foreground = params.get("fg") ? parseColor(params.get("fg")!) : QR_DEFAULTS.foreground
+  const background = params.get("bg") ? parseColor(params.get("bg")!) : QR_DEFAULTS.background
+  if (!foreground || !background) {
+    return "fg and bg must be hex colors such as 000000 or #1a2b3c"
+  }
+
+  return {
+    format: format as QrFormat,
+    size: size ?? QR_DEFAULTS.size,
+    margin: margin ?? QR_DEFAULTS.margin,
+    level: level as QrErrorLevel,
+    foreground,
+    background,
+    ...(logo ? { logo } : {}),
+  }
+}
+
+// Query string for an /api/qr URL; options equal to the defaults are left out
+export function getQrImageUrl(shortCode: string, options: Partial<QrOptions> = {}, download = false): string {
+  const params = new URLSearchParams()
+  if (options.format && options.format !== QR_DEFAULTS.format) params.set("format", options.format)
+  if (options.size && options.size !== QR_DEFAULTS.size) params.set("size", String(options.size))
+  if (options.margin !== undefined && options.margin !== QR_DEFAULTS.margin) {
+    params.set("margin", String(options.margin))
+  }
+  if (options.level) params.set("level", options.level)
+  if (options.foreground && options.foreground !== QR_DEFAULTS.foreground) {
+    params.set("fg", options.foreground.replace(/^#/, ""))
+  }
+  if (options.background && options.background !== QR_DEFAULTS.background) {
+    params.set("bg", options.background.replace(/^#/, ""))
+  }
+  if (options.logo) params.set("logo", options.logo)
+  if (download) params.set("download", "1")
+
+  const query = params.toString()
+  return `/api/qr/${encodeURIComponent(shortCode)}${query ? `?${query}` : ""}`
+}
+
+// The URL a QR code encodes
+export function getQrScanUrl(shortUrl: string): string {
+  return `${shortUrl}?${QR_SCAN_PARAM}=1`
+}
+
+// Whether the visitor came from a QR code, and their query string without the tag
+export function takeQrScanParam(query: URLSearchParams): { qrScan: boolean; query: URLSearchParams } {
+  if (query.get(QR_SCAN_PARAM) !== "1") {
+    return { qrScan: false, query }
+  }
+  const rest = new URLSearchParams(query)
+  rest.delete(QR_SCAN_PARAM)
+  return { qrScan: true, query: rest }
+}
+
+// Logos are fetched by the server, so only https URLs on host names are accepted. fetchQrLogo (qr-logo.ts)
+// also checks the addresses the name resolves to.
+function isAllowedLogoUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    const host = url.hostname.toLowerCase()
+    const isIpAddress = /^[\d.]+$/.test(host) || host.includes(":") || host.startsWith("[")
+    return url.protocol === "https:" && host.includes(".") && !isIpAddress && !host.endsWith(".localhost")
+  } catch {
+    return false
+  }
+}
+
+// Draw the code as an SVG, one path for all dark modules. logoDataUri is drawn in the center on a
+// background-colored square.
+export function renderQrSvg(text: string, options: QrOptions, logoDataUri?: string): string {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: options.level })
+  const { margin } = options
+  const total = modules.size + margin * 2
+
+  // Runs of dark modules in a row become one rectangle
+  let path = ""
+  for (let row = 0; row < modules.size; row++) {
+    let runStart = -1
+    for (let col = 0; col <= modules.size; col++) {
+      const dark = col < modules.size && modules.get(row, col)
+      if (dark && runStart === -1) runStart = col
+      if (!dark && runStart !== -1) {
+        path += `M${runStart + margin} ${row + margin}h${col - runStart}v1h-${col - runStart}z`
+        runStart = -1
+      }
+    }
+  }
+
+  let logo = ""
+  if (logoDataUri) {
+    const logoSize = modules.size * LOGO_SCALE
+    const offset = (total - logoSize) / 2
+    logo =
+      `<rect x="${offset - 1}" y="${offset - 1}" width="${logoSize + 2}" height="${logoSize + 2}" ` +
+      `fill="${options.background}"/>` +
+      `<image x="${offset}" y="${offset}" width="${logoSize}" height="${logoSize}" href="${logoDataUri}" ` +
+      `preserveAspectRatio="xMidYMid meet"/>`
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${options.size}" height="${options.size}" ` +
+    `viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">` +
+    `<rect width="${total}" height="${total}" fill="${options.background}"/>` +
+    `<path d="${path}" fill="${options.foreground}"/>${logo}</svg>`
+  )
+}
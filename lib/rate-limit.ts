@@ -0,0 +1,286 @@
+import { Redis } from "@upstash/redis"
+import { NextResponse, type NextRequest } from "next/server"
+
+// Sliding-window rate limiting for link creation, redirects and the v1 API.
+// Uses Redis (Upstash) when KV_REST_API_URL/KV_REST_API_TOKEN are set so limits
+// hold across server instances, and an in-memory store otherwise (local/dev).
+
+export interface RateLimitPolicy {
+  name: string
+  limit: number // requests allowed per window
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  success: boolean
+  limit: number
+  remaining: number
+  reset: number // epoch ms when the oldest request in the window expires
+}
+
+export interface RateLimitStore {
+  hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult>
+  // The current state of a key, without recording a request
+  peek(key: string, limit: number, windowMs: number): Promise<RateLimitResult>
+}
+
+export const RATE_LIMITS = {
+  // Link creation - per IP, and per user or API key
+  shorten: { name: "shorten", limit: 20, windowMs: 60_000 },
+  // Bulk link creation - per user or API key; each request can create hundreds of links
+  bulkCreate: { name: "bulk-create", limit: 10, windowMs: 60 * 60_000 },
+  // Imports from other shorteners - per user; large exports arrive in many requests, dry runs included
+  linkImport: { name: "link-import", limit: 100, windowMs: 60 * 60_000 },
+  // Redirects - per IP; generous enough for shared NATs, low enough to stop click inflation
+  redirect: { name: "redirect", limit: 120, windowMs: 60_000 },
+  // Every authenticated /api/v1 request - per API key
+  api: { name: "api", limit: 300, windowMs: 60_000 },
+  // Wrong passwords on a protected link - per IP and link, a lockout against guessing
+  password: { name: "password", limit: 5, windowMs: 15 * 60_000 },
+  // Conversion pixels and posts - per IP; a landing page reports a handful of goals per visit at most
+  conversion: { name: "conversion", limit: 60, windowMs: 60_000 },
+  // QR code images - per IP; rendering PNGs and fetching logos isn't free
+  qr: { name: "qr", limit: 60, windowMs: 60_000 },
+} satisfies Record<string, RateLimitPolicy>
+
+// Thrown by enforceRateLimit; routes turn it into a 429 with rateLimitHeaders()
+export class RateLimitError extends Error {
+  constructor(public result: RateLimitResult) {
+    super("Too many requests")
+    this.name = "RateLimitError"
+  }
+}
+
+const MEMORY_STORE_MAX_KEYS = 10_000
+
+// Keeps a timestamp log per key. Fine for a single process; entries are pruned as they age out.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, number[]>()
+
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now()
+    if (this.windows.size > MEMORY_STORE_MAX_KEYS) {
+      this.sweep(now - windowMs)
+    }
+
+    const timestamps = (this.windows.get(key) || []).filter((timestamp) => timestamp > now - windowMs)
+
+    const success = timestamps.length < limit
+    if (success) {
+      timestamps.push(now)
+    }
+
+    if (timestamps.length > 0) {
+      this.windows.set(key, timestamps)
+    } else {
+      this.windows.delete(key)
+    }
+
+    return {
+      success,
+      limit,
+      remaining: Math.max(0, limit - timestamps.length),
+      reset: (timestamps[0] ?? now) + windowMs,
+    }
+  }
+
+  async peek(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now()
+    const timestamps = (this.windows.get(key) || []).filter((timestamp) => timestamp > now - windowMs)
+    return {
+      success: timestamps.length < limit,
+      limit,
+      remaining: Math.max(0, limit - timestamps.length),
+      reset: (timestamps[0] ?? now) + windowMs,
+    }
+  }
+
+  // Drop keys that have seen no requests since the cutoff
+  private sweep(cutoff: number) {
+    for (const [key, timestamps] of this.windows) {
+      if (timestamps[timestamps.length - 1] <= cutoff) {
+        this.windows.delete(key)
+      }
+    }
+  }
+}
+
+// Sorted set of request timestamps per key, trimmed and checked atomically in one script
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local member = ARGV[4]
+
+redis.call("ZREMRANGEBYSCORE", key, 0, now - window)
+local count = redis.call("ZCARD", key)
+local allowed = 0
+if count < limit then
+  redis.call("ZADD", key, now, member)
+  count = count + 1
+  allowed = 1
+end
+redis.call("PEXPIRE", key, window)
+
+local oldest = redis.call("ZRANGE", key, 0, 0, "WITHSCORES")
+local oldestScore = now
+if oldest[2] then
+  oldestScore = tonumber(oldest[2])
+end
+return { allowed, count, oldestScore }
+`
+
+const PEEK_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+
+redis.call("ZREMRANGEBYSCORE", key, 0, now - window)
+local count = redis.call("ZCARD", key)
+local oldest = redis.call("ZRANGE", key, 0, 0, "WITHSCORES")
+local oldestScore = now
+if oldest[2] then
+  oldestScore = tonumber(oldest[2])
+end
+return { count, oldestScore }
+`
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private redis: Redis) {}
+
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now()
+    const member = `${now}-${Math.random().toString(36).slice(2, 10)}`
+    const [allowed, count, oldest] = await this.redis.eval<string[], [number, number, number]>(
+      SLIDING_WINDOW_SCRIPT,
+      [`ratelimit:${key}`],
+      [String(now), String(windowMs), String(limit), member],
+    )
+
+    return {
+      success: allowed === 1,
+      limit,
+      remaining: Math.max(0, limit - count),
+      reset: Number(oldest) + windowMs,
+    }
+  }
+
+  async peek(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const [count, oldest] = await this.redis.eval<string[], [number, number]>(
+      PEEK_SCRIPT,
+      [`ratelimit:${key}`],
+      [String(Date.now()), String(windowMs)],
+    )
+
+    return {
+      success: count < limit,
+      limit,
+      remaining: Math.max(0, limit - count),
+      reset: Number(oldest) + windowMs,
+    }
+  }
+}
+
+let store: RateLimitStore | null = null
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    if (process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN) {
+      store = new RedisRateLimitStore(
+        new Redis({ url: process.env.KV_REST_API_URL, token: process.env.KV_REST_API_TOKEN }),
+      )
+      console.log("🚦 Rate limiting with Redis")
+    } else {
+      store = new MemoryRateLimitStore()
+      console.log("🚦 Rate limiting in memory (KV_REST_API_URL not set)")
+    }
+  }
+  return store
+}
+
+// Swap the store, e.g. for a different backend
+export function setRateLimitStore(rateLimitStore: RateLimitStore) {
+  store = rateLimitStore
+}
+
+export function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers.get("x-forwarded-for") || ""
+  return forwardedFor.split(",")[0]?.trim() || request.headers.get("x-real-ip") || "unknown"
+}
+
+// Count a request against every identifier (e.g. "ip:1.2.3.4", "user:abc") and return the most
+// restrictive result. A store outage fails open - better to serve traffic than to block everyone.
+export async function checkRateLimit(policy: RateLimitPolicy, identifiers: string[]): Promise<RateLimitResult> {
+  return applyRateLimit(policy, identifiers, "hit")
+}
+
+// Whether the identifiers are within the limit, without counting this request. For limits that only
+// count some outcomes, e.g. wrong passwords: peek first, then checkRateLimit when the outcome counts.
+export async function peekRateLimit(policy: RateLimitPolicy, identifiers: string[]): Promise<RateLimitResult> {
+  return applyRateLimit(policy, identifiers, "peek")
+}
+
+async function applyRateLimit(
+  policy: RateLimitPolicy,
+  identifiers: string[],
+  method: "hit" | "peek",
+): Promise<RateLimitResult> {
+  let strictest: RateLimitResult = {
+    success: true,
+    limit: policy.limit,
+    remaining: policy.limit,
+    reset: Date.now() + policy.windowMs,
+  }
+
+  try {
+    const results = await Promise.all(
+      identifiers.map((identifier) =>
+        getRateLimitStore()[method](`${policy.name}:${identifier}`, policy.limit, policy.windowMs),
+      ),
+    )
+
+    for (const result of results) {
+      if (!result.success && strictest.success) {
+        strictest = result
+      } else if (result.success === strictest.success && result.remaining < strictest.remaining) {
+        strictest = result
+      }
+    }
+  } catch (error) {
+    console.error("⚠️ Rate limit check failed, allowing request:", error)
+  }
+
+  if (!strictest.success) {
+    console.log(`🚫 Rate limit exceeded (${policy.name}): ${identifiers.join(", ")}`)
+  }
+  return strictest
+}
+
+// Like checkRateLimit, but throws RateLimitError when the limit is exceeded
+export async function enforceRateLimit(policy: RateLimitPolicy, identifiers: string[]): Promise<RateLimitResult> {
+  const result = await checkRateLimit(policy, identifiers)
+  if (!result.success) {
+    throw new RateLimitError(result)
+  }
+  return result
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(result.reset / 1000)),
+  }
+  if (!result.success) {
+    headers["Retry-After"] = String(Math.max(1, Math.ceil((result.reset - Date.now()) / 1000)))
+  }
+  return headers
+}
+
+export function rateLimitResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    { error: "Too many requests. Please slow down and try again later." },
+    { status: 429, headers: rateLimitHeaders(result) },
+  )
+}
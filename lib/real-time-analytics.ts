@@ -1,20 +1,21 @@
-import { doc, onSnapshot, collection, query, where, orderBy, limit } from "firebase/firestore"
-import { db } from "./firebase"
+import {
+  subscribeToAnalytics,
+  subscribeToClickEvents,
+  subscribeToRecentClicks,
+  subscribeToTopUrls,
+  type ClickEvent,
+} from "./analytics-clean"
 
 export interface RealTimeAnalyticsData {
   shortCode: string
   totalClicks: number
   createdAt: any
   lastClickAt?: any
-  clickEvents: Array<{
-    id: string
-    timestamp: any
-    userAgent?: string
-    referer?: string
-    ip?: string
-    clickSource: "direct" | "analytics_page" | "test"
-    sessionId?: string
-  }>
+  passwordUnlocks?: number
+  passwordFailures?: number
+  totalConversions?: number
+  conversionValue?: number
+  goals?: Record<string, number>
 }
 
 export interface RealTimeUrlData {
@@ -40,86 +41,27 @@ export class RealTimeAnalyticsManager {
   subscribeToAnalytics(shortCode: string, callback: (data: RealTimeAnalyticsData | null) => void): () => void {
     console.log(`📡 Setting up real-time analytics subscription for: ${shortCode}`)
 
-    const analyticsRef = doc(db, "analytics", shortCode)
-    const urlRef = doc(db, "urls", shortCode)
-
-    let analyticsData: RealTimeAnalyticsData | null = null
-    let urlData: RealTimeUrlData | null = null
-
-    // Subscribe to analytics document
-    const unsubscribeAnalytics = onSnapshot(
-      analyticsRef,
-      {
-        includeMetadataChanges: true, // Critical for real-time updates
-      },
-      (doc) => {
-        if (doc.exists()) {
-          analyticsData = doc.data() as RealTimeAnalyticsData
-
-          console.log("📊 Real-time analytics update:", {
-            shortCode,
-            totalClicks: analyticsData.totalClicks,
-            clickEventsCount: analyticsData.clickEvents?.length || 0,
-            fromCache: doc.metadata.fromCache,
-            hasPendingWrites: doc.metadata.hasPendingWrites,
-            source: doc.metadata.fromCache ? "cache" : "server",
-            timestamp: new Date().toISOString(),
-          })
+    // Analytics document merged with the sharded click counter
+    const unsubscribeAnalytics = subscribeToAnalytics(shortCode, (analyticsData) => {
+      if (analyticsData) {
+        console.log("📊 Real-time analytics update:", {
+          shortCode,
+          totalClicks: analyticsData.totalClicks,
+          timestamp: new Date().toISOString(),
+        })
 
-          this.updateConnectionStatus("connected")
-          callback(analyticsData)
-        } else {
-          console.log(`❌ No analytics document found for: ${shortCode}`)
-          callback(null)
-        }
-      },
-      (error) => {
-        console.error("❌ Analytics subscription error:", error)
-        this.updateConnectionStatus("disconnected")
+        this.updateConnectionStatus("connected")
+        callback(analyticsData)
+      } else {
+        console.log(`❌ No analytics document found for: ${shortCode}`)
         callback(null)
-      },
-    )
-
-    // Subscribe to URL document for click count sync
-    const unsubscribeUrl = onSnapshot(
-      urlRef,
-      {
-        includeMetadataChanges: true,
-      },
-      (doc) => {
-        if (doc.exists()) {
-          urlData = doc.data() as RealTimeUrlData
-
-          console.log("🔗 Real-time URL update:", {
-            shortCode,
-            clicks: urlData.clicks,
-            fromCache: doc.metadata.fromCache,
-            hasPendingWrites: doc.metadata.hasPendingWrites,
-          })
-
-          // If URL clicks changed, trigger analytics callback with updated data
-          if (analyticsData && urlData.clicks !== analyticsData.totalClicks) {
-            console.log(`🔄 Click count sync: Analytics=${analyticsData.totalClicks}, URL=${urlData.clicks}`)
-
-            // Update analytics data with URL click count for consistency
-            const syncedData = {
-              ...analyticsData,
-              totalClicks: urlData.clicks,
-            }
-            callback(syncedData)
-          }
-        }
-      },
-      (error) => {
-        console.error("❌ URL subscription error:", error)
-      },
-    )
+      }
+    })
 
     // Combined cleanup function
     const cleanup = () => {
       console.log(`🧹 Cleaning up real-time subscriptions for: ${shortCode}`)
       unsubscribeAnalytics()
-      unsubscribeUrl()
       this.listeners.delete(shortCode)
     }
 
@@ -127,98 +69,51 @@ export class RealTimeAnalyticsManager {
     return cleanup
   }
 
-  // Subscribe to real-time dashboard data (all URLs)
+  // Subscribe to the latest click events for a specific short code
+  subscribeToClickEvents(shortCode: string, callback: (events: ClickEvent[]) => void, limitCount?: number): () => void {
+    console.log(`📡 Setting up real-time click events subscription for: ${shortCode}`)
+
+    return subscribeToClickEvents(
+      shortCode,
+      (events) => {
+        this.updateConnectionStatus("connected")
+        callback(events)
+      },
+      limitCount,
+    )
+  }
+
+  // Subscribe to real-time dashboard data for one workspace's links
   subscribeToDashboard(
+    workspaceId: string,
     callback: (data: {
       recentClicks: Array<any>
       topUrls: Array<{ shortCode: string; clicks: number; originalUrl: string }>
     }) => void,
   ): () => void {
-    console.log("📊 Setting up real-time dashboard subscription")
-
-    // Subscribe to recent analytics updates
-    const analyticsQuery = query(
-      collection(db, "analytics"),
-      where("totalClicks", ">", 0),
-      orderBy("lastClickAt", "desc"),
-      limit(50),
-    )
+    console.log(`📊 Setting up real-time dashboard subscription for workspace: ${workspaceId}`)
 
-    const unsubscribeAnalytics = onSnapshot(
-      analyticsQuery,
-      {
-        includeMetadataChanges: true,
-      },
-      (snapshot) => {
-        const recentClicks: Array<any> = []
-
-        snapshot.forEach((doc) => {
-          const data = doc.data() as RealTimeAnalyticsData
-          if (data.clickEvents && data.clickEvents.length > 0) {
-            const recentUrlClicks = data.clickEvents.slice(-5).map((click) => ({
-              ...click,
-              shortCode: data.shortCode,
-            }))
-            recentClicks.push(...recentUrlClicks)
-          }
-        })
-
-        // Sort by timestamp
-        recentClicks.sort((a, b) => {
-          const aTime = a.timestamp?.seconds || 0
-          const bTime = b.timestamp?.seconds || 0
-          return bTime - aTime
-        })
-
-        console.log("📈 Dashboard analytics update:", {
-          recentClicksCount: recentClicks.length,
-          timestamp: new Date().toISOString(),
-        })
-
-        callback({ recentClicks: recentClicks.slice(0, 20), topUrls: [] })
-      },
-      (error) => {
-        console.error("❌ Dashboard analytics subscription error:", error)
-      },
-    )
-
-    // Subscribe to top URLs
-    const urlsQuery = query(
-      collection(db, "urls"),
-      where("isActive", "==", true),
-      where("clicks", ">", 0),
-      orderBy("clicks", "desc"),
-      limit(10),
-    )
+    // Subscribe to the most recent click documents across the workspace's links
+    const unsubscribeAnalytics = subscribeToRecentClicks(workspaceId, (recentClicks) => {
+      console.log("📈 Dashboard analytics update:", {
+        recentClicksCount: recentClicks.length,
+        timestamp: new Date().toISOString(),
+      })
 
-    const unsubscribeUrls = onSnapshot(
-      urlsQuery,
-      {
-        includeMetadataChanges: true,
-      },
-      (snapshot) => {
-        const topUrls = snapshot.docs.map((doc) => {
-          const data = doc.data() as RealTimeUrlData
-          return {
-            shortCode: data.shortCode,
-            clicks: data.clicks,
-            originalUrl: data.originalUrl,
-          }
-        })
+      callback({ recentClicks, topUrls: [] })
+    }, 20)
 
-        console.log("🏆 Top URLs update:", {
-          topUrlsCount: topUrls.length,
-          timestamp: new Date().toISOString(),
-        })
+    // Subscribe to top URLs (click totals are summed from the counter shards)
+    const unsubscribeUrls = subscribeToTopUrls(workspaceId, (topUrls) => {
+      console.log("🏆 Top URLs update:", {
+        topUrlsCount: topUrls.length,
+        timestamp: new Date().toISOString(),
+      })
 
-        // Get current recent clicks and combine with top URLs
-        // This is a simplified approach - in production you might want to optimize this
-        callback({ recentClicks: [], topUrls })
-      },
-      (error) => {
-        console.error("❌ Top URLs subscription error:", error)
-      },
-    )
+      // Get current recent clicks and combine with top URLs
+      // This is a simplified approach - in production you might want to optimize this
+      callback({ recentClicks: [], topUrls })
+    }, 10)
 
     const cleanup = () => {
       console.log("🧹 Cleaning up dashboard subscriptions")
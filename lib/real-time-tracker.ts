@@ -1,5 +1,6 @@
-import { doc, updateDoc, increment, arrayUnion, serverTimestamp, onSnapshot } from "firebase/firestore"
+import { doc, serverTimestamp, onSnapshot, writeBatch } from "firebase/firestore"
 import { db } from "./firebase"
+import { clicksCollection } from "./analytics-clean"
 
 export interface RealTimeClickEvent {
   id: string
@@ -56,32 +57,20 @@ export class RealTimeClickTracker {
     }
   }
 
+  // Click counts are only written by the server's redirect: the security rules keep links and counter
+  // shards server-only, so the browser records the event and nothing else
   private async sendToFirestore(clickEvent: RealTimeClickEvent): Promise<void> {
-    const urlRef = doc(db, "urls", this.shortCode)
     const analyticsRef = doc(db, "analytics", this.shortCode)
+    const clickRef = doc(clicksCollection(this.shortCode), clickEvent.id)
+    // Firestore rejects undefined fields (e.g. coordinates for programmatic clicks)
+    const clickDoc = Object.fromEntries(
+      Object.entries({ ...clickEvent, shortCode: this.shortCode }).filter(([, value]) => value !== undefined),
+    )
 
-    // Only increment URL clicks for direct clicks, not analytics page interactions
-    if (clickEvent.clickSource === "direct") {
-      // Use Promise.all for concurrent updates
-      await Promise.all([
-        updateDoc(urlRef, {
-          clicks: increment(1),
-          lastClickAt: serverTimestamp(),
-        }),
-        updateDoc(analyticsRef, {
-          totalClicks: increment(1),
-          lastClickAt: serverTimestamp(),
-          clickEvents: arrayUnion(clickEvent),
-          lastSessionId: this.sessionId,
-        }),
-      ])
-    } else {
-      // For analytics page interactions, only log the event without incrementing clicks
-      await updateDoc(analyticsRef, {
-        clickEvents: arrayUnion(clickEvent),
-        lastSessionId: this.sessionId,
-      })
-    }
+    const batch = writeBatch(db)
+    batch.set(clickRef, clickDoc)
+    batch.set(analyticsRef, { lastSessionId: this.sessionId }, { merge: true })
+    await batch.commit()
   }
 
   private async getClientIP(): Promise<string> {
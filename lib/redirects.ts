@@ -0,0 +1,190 @@
+import type { NextRequest, NextResponse } from "next/server"
+import { doc, getDoc } from "firebase/firestore"
+import { db } from "./firebase"
+import type { UrlData } from "./analytics"
+import { getShardedClickCount } from "./click-counter"
+import { newClickDocId } from "./analytics-clean"
+import { appendClickId, formatClickId } from "./conversions"
+import { applyUtmParams, getUtmParams } from "./utm"
+import { appendPath, forwardQuery } from "./passthrough"
+import { isWithinSchedule } from "./schedules"
+import { matchTargetingRule } from "./targeting"
+import { getVisitorPlatform } from "./user-agent"
+import { pickVariant, variantCookieName, VARIANT_COOKIE_MAX_AGE } from "./variants"
+
+export type RedirectStatus = 301 | 302 | 307 | 308
+
+export const REDIRECT_STATUSES: RedirectStatus[] = [301, 302, 307, 308]
+
+// 302 keeps browsers from caching the redirect, so every visit is counted
+export const DEFAULT_REDIRECT_STATUS: RedirectStatus = 302
+
+export function isRedirectStatus(value: unknown): value is RedirectStatus {
+  return REDIRECT_STATUSES.includes(value as RedirectStatus)
+}
+
+export type ResolvedShortCode =
+  | {
+      status: "found"
+      urlData: UrlData
+      redirectUrl: string
+      redirectStatus: RedirectStatus
+      ruleId: string | null
+      variantId: string | null
+      campaign: string | null // utm_campaign of the redirect URL
+    }
+  | { status: "not_found" }
+  | { status: "inactive"; urlData: UrlData }
+  | { status: "deleted"; urlData: UrlData }
+  | { status: "expired"; urlData: UrlData; reason: "date" | "click_limit" }
+  | { status: "not_live"; urlData: UrlData; reason: "before_activation" | "outside_schedule" }
+  | { status: "invalid"; urlData: UrlData }
+
+// Ensure the URL has a protocol
+function withProtocol(url: string): string {
+  return url.startsWith("http://") || url.startsWith("https://") ? url : "https://" + url
+}
+
+// Look up a short code and decide where (and how) it should redirect.
+// Pass the visitor's User-Agent and country (see lookupIp) to apply the link's targeting rules,
+// and the variant they were given before (see getStickyVariantId) to keep A/B tests sticky.
+// The path after the short code and the query string are passed on if the link asks for it (see passthrough.ts).
+export async function resolveShortCode(
+  shortCode: string,
+  visitor: {
+    userAgent?: string
+    country?: string | null
+    variantId?: string | null
+    path?: string[]
+    query?: URLSearchParams
+  } = {},
+): Promise<ResolvedShortCode> {
+  const urlSnap = await getDoc(doc(db, "urls", shortCode))
+
+  if (!urlSnap.exists()) {
+    console.log(`❌ Short code not found in urls collection: ${shortCode}`)
+    return { status: "not_found" }
+  }
+
+  const urlData = urlSnap.data() as UrlData
+
+  // Only wildcard links answer below their short code
+  if (visitor.path?.length && !urlData.wildcard) {
+    console.log(`❌ Path after a non-wildcard short code: ${shortCode}/${visitor.path.join("/")}`)
+    return { status: "not_found" }
+  }
+
+  // Trashed links answer 410 Gone until they are restored or purged
+  if (urlData.deletedAt) {
+    console.log(`🗑️ URL is in the trash: ${shortCode}`)
+    return { status: "deleted", urlData }
+  }
+
+  if (!urlData.isActive) {
+    console.log(`❌ URL is inactive: ${shortCode}`)
+    return { status: "inactive", urlData }
+  }
+
+  if (urlData.expiresAt && urlData.expiresAt.toDate() < new Date()) {
+    console.log(`❌ URL expired: ${shortCode}`)
+    return { status: "expired", urlData, reason: "date" }
+  }
+
+  // Click-limited links: the counter is eventually consistent, so a burst of
+  // simultaneous clicks can overshoot the limit slightly
+  if (urlData.maxClicks) {
+    const { totalClicks } = await getShardedClickCount(shortCode)
+    if (totalClicks >= urlData.maxClicks) {
+      console.log(`❌ URL reached its click limit (${urlData.maxClicks}): ${shortCode}`)
+      return { status: "expired", urlData, reason: "click_limit" }
+    }
+  }
+
+  if (urlData.activatesAt && urlData.activatesAt.toDate() > new Date()) {
+    console.log(`⏳ URL not live until ${urlData.activatesAt.toDate().toISOString()}: ${shortCode}`)
+    return { status: "not_live", urlData, reason: "before_activation" }
+  }
+
+  if (urlData.schedule && !isWithinSchedule(urlData.schedule)) {
+    console.log(`⏳ URL outside its schedule: ${shortCode}`)
+    return { status: "not_live", urlData, reason: "outside_schedule" }
+  }
+
+  if (!urlData.originalUrl) {
+    console.error("❌ No originalUrl found in data:", urlData)
+    return { status: "invalid", urlData }
+  }
+
+  const rule = matchTargetingRule(urlData.targetingRules, {
+    ...getVisitorPlatform(visitor.userAgent || ""),
+    country: visitor.country || null,
+  })
+  if (rule) {
+    console.log(`🎯 Targeting rule ${rule.id} matched: ${shortCode} → ${rule.url}`)
+  }
+
+  // Visitors a targeting rule sends elsewhere aren't part of the A/B test
+  const variant = rule ? null : pickVariant(urlData.variants, visitor.variantId)
+  if (variant) {
+    console.log(`🧪 Variant ${variant.id} chosen: ${shortCode} → ${variant.url}`)
+  }
+
+  // Passed-through query parameters count as already on the destination, so they win over the UTM template
+  let redirectUrl = withProtocol(rule?.url || variant?.url || urlData.originalUrl)
+  if (urlData.wildcard && visitor.path) {
+    redirectUrl = appendPath(redirectUrl, visitor.path)
+  }
+  if (urlData.queryPassthrough && visitor.query) {
+    redirectUrl = forwardQuery(redirectUrl, visitor.query, urlData.queryPassthrough)
+  }
+  redirectUrl = applyUtmParams(redirectUrl, urlData.utmParams)
+  const redirectStatus = isRedirectStatus(urlData.redirectType) ? urlData.redirectType : DEFAULT_REDIRECT_STATUS
+
+  return {
+    status: "found",
+    urlData,
+    redirectUrl,
+    redirectStatus,
+    ruleId: rule?.id || null,
+    variantId: variant?.id || null,
+    campaign: getUtmParams(redirectUrl).utm_campaign || null,
+  }
+}
+
+// Links that track conversions carry the id of the click about to be recorded to the destination,
+// so the landing page can report conversions for it. Pass clickDocId on as the click's id.
+export function withClickTracking(
+  shortCode: string,
+  resolved: Extract<ResolvedShortCode, { status: "found" }>,
+): { redirectUrl: string; clickDocId: string | undefined } {
+  if (!resolved.urlData.trackConversions) {
+    return { redirectUrl: resolved.redirectUrl, clickDocId: undefined }
+  }
+  const clickDocId = newClickDocId(shortCode)
+  return { redirectUrl: appendClickId(resolved.redirectUrl, formatClickId(shortCode, clickDocId)), clickDocId }
+}
+
+// The A/B variant this visitor was given on an earlier visit, if any
+export function getStickyVariantId(request: NextRequest, shortCode: string): string | null {
+  return request.cookies.get(variantCookieName(shortCode))?.value || null
+}
+
+// Remember the visitor's variant so they keep getting the same destination
+export function setStickyVariantCookie(response: NextResponse, shortCode: string, variantId: string) {
+  response.cookies.set(variantCookieName(shortCode), variantId, {
+    path: `/${shortCode}`,
+    maxAge: VARIANT_COOKIE_MAX_AGE,
+    httpOnly: true,
+    sameSite: "lax",
+  })
+}
+
+// Extract the request details we store with each click
+export function getClickContext(request: NextRequest): { userAgent: string; referer: string; ip: string } {
+  const userAgent = request.headers.get("user-agent") || ""
+  const referer = request.headers.get("referer") || ""
+  const forwardedFor = request.headers.get("x-forwarded-for") || ""
+  const ip = forwardedFor.split(",")[0]?.trim() || ""
+
+  return { userAgent, referer, ip }
+}
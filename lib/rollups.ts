@@ -0,0 +1,432 @@
+import {
+  doc,
+  getDoc,
+  collection,
+  query,
+  where,
+  orderBy,
+  getDocs,
+  onSnapshot,
+  increment,
+  serverTimestamp,
+  writeBatch,
+  Timestamp,
+  type DocumentSnapshot,
+  type QueryDocumentSnapshot,
+  type Transaction,
+  type WriteBatch,
+} from "firebase/firestore"
+import { db } from "./firebase"
+import { getDeviceType } from "./user-agent"
+import { DEFAULT_TARGETING_KEY } from "./targeting"
+import type { ClickEvent } from "./analytics-clean"
+
+// Pre-aggregated click counts per link and UTC hour or day, spread over ROLLUP_SHARDS documents per
+// period so a busy link doesn't write every click to the same document:
+//   analytics/{shortCode}/hourlyRollups/2026-10-19T13_4
+//   analytics/{shortCode}/dailyRollups/2026-10-19_7
+// Rollups written before sharding have the bare period id. Readers combine a period's documents, so
+// charts over long ranges read these instead of the raw click events. Unique visitors are counted with
+// one marker per period and visitor in analytics/{shortCode}/rollupVisitors.
+export type RollupGranularity = "hour" | "day"
+
+export interface ClickRollup {
+  id?: string
+  periodStart: any
+  clicks: number
+  uniqueVisitors: number
+  referrers: Record<string, number>
+  countries: Record<string, number>
+  devices: Record<string, number>
+  rules?: Record<string, number> // targeting rule id (or "default") per click
+  variants?: Record<string, number> // A/B variant id per click, only on split-tested links
+  campaigns?: Record<string, number> // utm_campaign per click, only for destinations that have one
+  qrScans?: number // clicks that came from scanning the link's QR code
+  updatedAt?: any
+}
+
+export interface RollupClick {
+  timestamp: Date
+  referer?: string
+  userAgent?: string
+  ip?: string
+  country?: string
+  ruleId?: string
+  variantId?: string
+  campaign?: string
+  qrScan?: boolean
+}
+
+export interface RollupSummary {
+  clicks: number
+  uniqueVisitors: number
+  referrers: Record<string, number>
+  countries: Record<string, number>
+  devices: Record<string, number>
+  rules: Record<string, number>
+  variants: Record<string, number>
+  campaigns: Record<string, number>
+  qrScans: number
+}
+
+export type RollupRange = "24h" | "7d" | "30d" | "90d" | "365d"
+
+export const ROLLUP_RANGES: Record<RollupRange, { label: string; granularity: RollupGranularity; periods: number }> = {
+  "24h": { label: "24 hours", granularity: "hour", periods: 24 },
+  "7d": { label: "7 days", granularity: "day", periods: 7 },
+  "30d": { label: "30 days", granularity: "day", periods: 30 },
+  "90d": { label: "90 days", granularity: "day", periods: 90 },
+  "365d": { label: "365 days", granularity: "day", periods: 365 },
+}
+
+// Start of the oldest period in a range ending now
+export function getRangeStart(range: RollupRange, now = new Date()): Date {
+  const { granularity, periods } = ROLLUP_RANGES[range]
+  const start = getPeriodStart(now, granularity)
+  if (granularity === "hour") {
+    start.setUTCHours(start.getUTCHours() - (periods - 1))
+  } else {
+    start.setUTCDate(start.getUTCDate() - (periods - 1))
+  }
+  return start
+}
+
+const ROLLUP_COLLECTIONS: Record<RollupGranularity, string> = {
+  hour: "hourlyRollups",
+  day: "dailyRollups",
+}
+
+const GRANULARITIES: RollupGranularity[] = ["hour", "day"]
+
+export const ROLLUP_SHARDS = 10
+
+export function rollupsCollection(shortCode: string, granularity: RollupGranularity) {
+  return collection(db, "analytics", shortCode, ROLLUP_COLLECTIONS[granularity])
+}
+
+// UTC start of the hour/day containing the date
+export function getPeriodStart(date: Date, granularity: RollupGranularity): Date {
+  const start = new Date(date)
+  start.setUTCMinutes(0, 0, 0)
+  if (granularity === "day") {
+    start.setUTCHours(0)
+  }
+  return start
+}
+
+export function getPeriodId(date: Date, granularity: RollupGranularity): string {
+  const iso = getPeriodStart(date, granularity).toISOString()
+  return granularity === "day" ? iso.substring(0, 10) : iso.substring(0, 13)
+}
+
+function rollupShardRef(shortCode: string, granularity: RollupGranularity, periodId: string, shard: number) {
+  return doc(rollupsCollection(shortCode, granularity), `${periodId}_${shard}`)
+}
+
+export function rollupVisitorsCollection(shortCode: string) {
+  return collection(db, "analytics", shortCode, "rollupVisitors")
+}
+
+function rollupVisitorRef(shortCode: string, granularity: RollupGranularity, periodId: string, visitorId: string) {
+  return doc(rollupVisitorsCollection(shortCode), `${granularity}_${periodId}_${visitorId}`)
+}
+
+export function getReferrerKey(referer?: string): string {
+  if (!referer) return "direct"
+  try {
+    return new URL(referer).hostname || "direct"
+  } catch {
+    return "unknown"
+  }
+}
+
+// Stable, non-reversible visitor id so raw IPs never end up in rollup documents
+export async function getVisitorId(ip = "", userAgent = ""): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${ip}|${userAgent}`))
+  return Array.from(new Uint8Array(digest))
+    .slice(0, 16)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+// Add hourly and daily rollup increments for one click to a transaction, on a random shard of each
+// period. The visitor markers are read here, so call it before the transaction writes anything else
+// (Firestore wants every read first); a visitor counts as unique the first time their marker is written.
+export async function addClickToRollups(
+  transaction: Transaction,
+  shortCode: string,
+  click: RollupClick,
+): Promise<void> {
+  const visitorId = await getVisitorId(click.ip, click.userAgent)
+  const referrer = getReferrerKey(click.referer)
+  const country = click.country || "unknown"
+  const device = getDeviceType(click.userAgent || "")
+  const rule = click.ruleId || DEFAULT_TARGETING_KEY
+  const shard = Math.floor(Math.random() * ROLLUP_SHARDS)
+
+  const periods = GRANULARITIES.map((granularity) => {
+    const periodId = getPeriodId(click.timestamp, granularity)
+    return { granularity, periodId, visitorRef: rollupVisitorRef(shortCode, granularity, periodId, visitorId) }
+  })
+  const visitorSnaps = await Promise.all(periods.map(({ visitorRef }) => transaction.get(visitorRef)))
+
+  periods.forEach(({ granularity, periodId, visitorRef }, index) => {
+    const isNewVisitor = !visitorSnaps[index].exists()
+    if (isNewVisitor) {
+      transaction.set(visitorRef, { firstSeenAt: serverTimestamp() })
+    }
+
+    transaction.set(
+      rollupShardRef(shortCode, granularity, periodId, shard),
+      {
+        periodStart: Timestamp.fromDate(getPeriodStart(click.timestamp, granularity)),
+        clicks: increment(1),
+        uniqueVisitors: increment(isNewVisitor ? 1 : 0),
+        referrers: { [referrer]: increment(1) },
+        countries: { [country]: increment(1) },
+        devices: { [device]: increment(1) },
+        rules: { [rule]: increment(1) },
+        ...(click.variantId ? { variants: { [click.variantId]: increment(1) } } : {}),
+        ...(click.campaign ? { campaigns: { [click.campaign]: increment(1) } } : {}),
+        ...(click.qrScan ? { qrScans: increment(1) } : {}),
+        updatedAt: serverTimestamp(),
+      },
+      { merge: true },
+    )
+  })
+}
+
+// One rollup per period, with its shards added up. The id is the period id.
+function combineShards(rollupDocs: QueryDocumentSnapshot[]): ClickRollup[] {
+  const periods = new Map<string, ClickRollup[]>()
+  for (const rollupDoc of rollupDocs) {
+    const periodId = rollupDoc.id.split("_")[0]
+    periods.set(periodId, [...(periods.get(periodId) || []), rollupDoc.data() as ClickRollup])
+  }
+
+  return Array.from(periods, ([periodId, shards]) => ({
+    ...summarizeRollups(shards),
+    id: periodId,
+    periodStart: shards[0].periodStart,
+  }))
+}
+
+// Rollups for a link from a start date onwards, oldest first
+export async function getRollups(
+  shortCode: string,
+  granularity: RollupGranularity,
+  from: Date,
+): Promise<ClickRollup[]> {
+  try {
+    const rollupsQuery = query(
+      rollupsCollection(shortCode, granularity),
+      where("periodStart", ">=", Timestamp.fromDate(getPeriodStart(from, granularity))),
+      orderBy("periodStart", "asc"),
+    )
+    const snapshot = await getDocs(rollupsQuery)
+    return combineShards(snapshot.docs)
+  } catch (error) {
+    console.error("Error getting rollups:", error)
+    return []
+  }
+}
+
+// Real-time rollups for a link from a start date onwards, oldest first
+export function subscribeToRollups(
+  shortCode: string,
+  granularity: RollupGranularity,
+  from: Date,
+  callback: (rollups: ClickRollup[]) => void,
+): () => void {
+  const rollupsQuery = query(
+    rollupsCollection(shortCode, granularity),
+    where("periodStart", ">=", Timestamp.fromDate(getPeriodStart(from, granularity))),
+    orderBy("periodStart", "asc"),
+  )
+
+  return onSnapshot(
+    rollupsQuery,
+    (snapshot) => {
+      callback(combineShards(snapshot.docs))
+    },
+    (error) => {
+      console.error("❌ Rollups subscription error:", error)
+      callback([])
+    },
+  )
+}
+
+function mergeCounts(target: Record<string, number>, source: Record<string, number> = {}) {
+  for (const [key, count] of Object.entries(source)) {
+    target[key] = (target[key] || 0) + count
+  }
+}
+
+// Combine a range of rollups. uniqueVisitors is the sum of per-period uniques.
+export function summarizeRollups(rollups: ClickRollup[]): RollupSummary {
+  const summary: RollupSummary = {
+    clicks: 0,
+    uniqueVisitors: 0,
+    referrers: {},
+    countries: {},
+    devices: {},
+    rules: {},
+    variants: {},
+    campaigns: {},
+    qrScans: 0,
+  }
+
+  for (const rollup of rollups) {
+    summary.clicks += rollup.clicks || 0
+    summary.uniqueVisitors += rollup.uniqueVisitors || 0
+    mergeCounts(summary.referrers, rollup.referrers)
+    mergeCounts(summary.countries, rollup.countries)
+    mergeCounts(summary.devices, rollup.devices)
+    mergeCounts(summary.rules, rollup.rules)
+    mergeCounts(summary.variants, rollup.variants)
+    mergeCounts(summary.campaigns, rollup.campaigns)
+    summary.qrScans += rollup.qrScans || 0
+  }
+
+  return summary
+}
+
+interface PendingRollup extends RollupSummary {
+  granularity: RollupGranularity
+  periodId: string
+  periodStart: Date
+  visitorIds: Set<string>
+}
+
+// Rebuild the rollups of every link (or only the given short codes) from the stored click events and any
+// legacy clickEvents array. Existing rollup documents for the affected periods are replaced.
+export async function backfillRollups(shortCodes?: string[]): Promise<{ links: number; clicks: number }> {
+  try {
+    console.log(`🧮 Starting rollup backfill${shortCodes ? ` for ${shortCodes.length} links` : ""}...`)
+
+    const analyticsDocs: DocumentSnapshot[] = shortCodes
+      ? await Promise.all(shortCodes.map((shortCode) => getDoc(doc(db, "analytics", shortCode))))
+      : (await getDocs(collection(db, "analytics"))).docs
+    let links = 0
+    let clicks = 0
+
+    for (const analyticsDoc of analyticsDocs) {
+      const shortCode = analyticsDoc.id
+      const clicksSnapshot = await getDocs(collection(db, "analytics", shortCode, "clicks"))
+
+      const events: ClickEvent[] = [
+        ...((analyticsDoc.data()?.clickEvents as ClickEvent[] | undefined) || []),
+        ...clicksSnapshot.docs.map((clickDoc) => clickDoc.data() as ClickEvent),
+      ].filter((event) => (!event.clickSource || event.clickSource === "direct") && event.timestamp?.toDate)
+
+      if (events.length === 0) {
+        continue
+      }
+
+      const pending = new Map<string, PendingRollup>()
+
+      for (const event of events) {
+        const timestamp: Date = event.timestamp.toDate()
+        const visitorId = await getVisitorId(event.ip, event.userAgent)
+
+        for (const granularity of GRANULARITIES) {
+          const periodId = getPeriodId(timestamp, granularity)
+          const key = `${granularity}/${periodId}`
+
+          let rollup = pending.get(key)
+          if (!rollup) {
+            rollup = {
+              granularity,
+              periodId,
+              periodStart: getPeriodStart(timestamp, granularity),
+              clicks: 0,
+              uniqueVisitors: 0,
+              referrers: {},
+              countries: {},
+              devices: {},
+              rules: {},
+              variants: {},
+              campaigns: {},
+              qrScans: 0,
+              visitorIds: new Set(),
+            }
+            pending.set(key, rollup)
+          }
+
+          rollup.clicks++
+          rollup.visitorIds.add(visitorId)
+          mergeCounts(rollup.referrers, { [getReferrerKey(event.referer)]: 1 })
+          mergeCounts(rollup.countries, { [event.country || "unknown"]: 1 })
+          mergeCounts(rollup.devices, { [getDeviceType(event.userAgent || "")]: 1 })
+          mergeCounts(rollup.rules, { [event.targetingRuleId || DEFAULT_TARGETING_KEY]: 1 })
+          if (event.variantId) {
+            mergeCounts(rollup.variants, { [event.variantId]: 1 })
+          }
+          if (event.utmCampaign) {
+            mergeCounts(rollup.campaigns, { [event.utmCampaign]: 1 })
+          }
+          if (event.qrScan) {
+            rollup.qrScans++
+          }
+        }
+      }
+
+      // Firestore batches are limited to 500 writes
+      let batch = writeBatch(db)
+      let operations = 0
+      const queueWrite = async (write: (batch: WriteBatch) => void) => {
+        write(batch)
+        if (++operations >= 400) {
+          await batch.commit()
+          batch = writeBatch(db)
+          operations = 0
+        }
+      }
+
+      for (const rollup of pending.values()) {
+        const { granularity, periodId } = rollup
+
+        // The whole period goes on shard 0; the other shards and a pre-sharding document would count twice
+        await queueWrite((batch) => batch.delete(doc(rollupsCollection(shortCode, granularity), periodId)))
+        for (let shard = 1; shard < ROLLUP_SHARDS; shard++) {
+          await queueWrite((batch) => batch.delete(rollupShardRef(shortCode, granularity, periodId, shard)))
+        }
+        await queueWrite((batch) =>
+          batch.set(rollupShardRef(shortCode, granularity, periodId, 0), {
+            periodStart: Timestamp.fromDate(rollup.periodStart),
+            clicks: rollup.clicks,
+            uniqueVisitors: rollup.visitorIds.size,
+            referrers: rollup.referrers,
+            countries: rollup.countries,
+            devices: rollup.devices,
+            rules: rollup.rules,
+            variants: rollup.variants,
+            campaigns: rollup.campaigns,
+            qrScans: rollup.qrScans,
+            updatedAt: serverTimestamp(),
+          }),
+        )
+
+        // Visitor markers keep live clicks from double-counting backfilled visitors
+        for (const visitorId of rollup.visitorIds) {
+          const visitorRef = rollupVisitorRef(shortCode, granularity, periodId, visitorId)
+          await queueWrite((batch) => batch.set(visitorRef, { firstSeenAt: serverTimestamp() }))
+        }
+      }
+
+      if (operations > 0) {
+        await batch.commit()
+      }
+
+      links++
+      clicks += events.length
+      console.log(`🧮 Backfilled ${pending.size} rollups from ${events.length} clicks for: ${shortCode}`)
+    }
+
+    console.log(`✅ Rollup backfill complete: ${clicks} clicks across ${links} links`)
+    return { links, clicks }
+  } catch (error) {
+    console.error("❌ Rollup backfill error:", error)
+    throw error
+  }
+}
@@ -0,0 +1,156 @@
+// Recurring availability windows for links, e.g. "weekdays 09:00-17:00 in Europe/Berlin".
+// A link with a schedule only redirects while the current time in its time zone falls
+// inside one of its windows. Used by the redirect path and by the edit forms.
+
+export interface ScheduleWindow {
+  days: number[] // 0 = Sunday ... 6 = Saturday
+  start: string // "HH:mm", local to the schedule's time zone
+  end: string // "HH:mm"; an end at or before the start runs past midnight into the next day
+}
+
+export interface LinkSchedule {
+  timeZone: string // IANA name, e.g. "America/New_York"
+  windows: ScheduleWindow[]
+}
+
+export const MAX_SCHEDULE_WINDOWS = 7
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+// Offered in the schedule editor, alongside the browser's own zone. The API accepts any IANA zone.
+export const COMMON_TIME_ZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Europe/Istanbul",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Shanghai",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+]
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Returns an error message, or null if the schedule is usable
+export function validateSchedule(schedule: unknown): string | null {
+  if (!schedule || typeof schedule !== "object") {
+    return "schedule must be an object with timeZone and windows"
+  }
+
+  const { timeZone, windows } = schedule as Partial<LinkSchedule>
+  if (typeof timeZone !== "string" || !isValidTimeZone(timeZone)) {
+    return "schedule.timeZone must be an IANA time zone, e.g. Europe/Berlin"
+  }
+  if (!Array.isArray(windows) || windows.length === 0 || windows.length > MAX_SCHEDULE_WINDOWS) {
+    return `schedule.windows must contain between 1 and ${MAX_SCHEDULE_WINDOWS} windows`
+  }
+
+  for (const window of windows) {
+    if (
+      !Array.isArray(window?.days) ||
+      window.days.length === 0 ||
+      !window.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+    ) {
+      return "Each schedule window needs days between 0 (Sunday) and 6 (Saturday)"
+    }
+    if (typeof window.start !== "string" || !TIME_PATTERN.test(window.start)) {
+      return "Schedule window start must be a time like 09:00"
+    }
+    if (typeof window.end !== "string" || !TIME_PATTERN.test(window.end)) {
+      return "Schedule window end must be a time like 17:00"
+    }
+  }
+  return null
+}
+
+// Only the fields we store, with days sorted and de-duplicated
+export function normalizeSchedule(schedule: LinkSchedule): LinkSchedule {
+  return {
+    timeZone: schedule.timeZone,
+    windows: schedule.windows.map(({ days, start, end }) => ({
+      days: [...new Set(days)].sort((a, b) => a - b),
+      start,
+      end,
+    })),
+  }
+}
+
+// Day of week and minutes since midnight for a moment, in the given time zone
+function localTime(date: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date)
+
+  const part = (type: string) => parts.find((entry) => entry.type === type)?.value || ""
+  return {
+    day: WEEKDAY_LABELS.indexOf(part("weekday")),
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  }
+}
+
+export function isWithinSchedule(schedule: LinkSchedule, date = new Date()): boolean {
+  const { day, minutes } = localTime(date, schedule.timeZone)
+  const previousDay = (day + 6) % 7
+
+  return schedule.windows.some((window) => {
+    const start = toMinutes(window.start)
+    const end = toMinutes(window.end)
+
+    if (end > start) {
+      return window.days.includes(day) && minutes >= start && minutes < end
+    }
+    // Overnight window: the evening part belongs to the listed day, the early-morning part to the day after
+    return (window.days.includes(day) && minutes >= start) || (window.days.includes(previousDay) && minutes < end)
+  })
+}
+
+// Collapse runs of consecutive days, e.g. [1,2,3,4,5] -> "Mon-Fri"
+function describeDays(days: number[]): string {
+  if (days.length === 7) return "Every day"
+
+  const ranges: string[] = []
+  let rangeStart = days[0]
+  for (let index = 1; index <= days.length; index++) {
+    if (days[index] !== days[index - 1] + 1) {
+      const rangeEnd = days[index - 1]
+      const label = WEEKDAY_LABELS[rangeStart]
+      ranges.push(rangeStart === rangeEnd ? label : `${label}-${WEEKDAY_LABELS[rangeEnd]}`)
+      rangeStart = days[index]
+    }
+  }
+  return ranges.join(", ")
+}
+
+// e.g. "Mon-Fri 09:00-17:00 (Europe/Berlin)"
+export function describeSchedule(schedule: LinkSchedule): string {
+  const windows = schedule.windows.map((window) => `${describeDays(window.days)} ${window.start}-${window.end}`)
+  return `${windows.join("; ")} (${schedule.timeZone})`
+}
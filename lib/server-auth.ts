@@ -0,0 +1,187 @@
+import { timingSafeEqual } from "crypto"
+import type { NextRequest } from "next/server"
+import { cert, getApps, initializeApp, type App } from "firebase-admin/app"
+import { getAuth } from "firebase-admin/auth"
+import { signInWithCustomToken } from "firebase/auth"
+import { doc, getDoc } from "firebase/firestore"
+import { auth, db } from "./firebase"
+import { getMemberRole, hasRole, type WorkspaceRole } from "./workspaces"
+import { isPasswordProtected } from "./links"
+import type { UrlData } from "./analytics-clean"
+
+export interface RequestUser {
+  uid: string
+  email?: string
+  emailVerified: boolean // the sign-in provider confirmed the user controls email
+  displayName?: string
+}
+
+// Thrown by the require* helpers; API routes turn it into a JSON error response
+export class AccessError extends Error {
+  constructor(
+    public status: 401 | 403 | 404,
+    message: string,
+  ) {
+    super(message)
+    this.name = "AccessError"
+  }
+}
+
+// Admin SDK is only used server-side, to verify the ID tokens sent by authFetch
+// and to mint the server's own session token. Credentials come from
+// FIREBASE_SERVICE_ACCOUNT_KEY (service account JSON) or the runtime's default
+// credentials. With FIREBASE_AUTH_EMULATOR_HOST set, the Auth emulator is used instead.
+function getAdminApp(): App {
+  const existing = getApps()[0]
+  if (existing) return existing
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
+  return initializeApp({
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    ...(serviceAccount ? { credential: cert(JSON.parse(serviceAccount)) } : {}),
+  })
+}
+
+export function getAdminAuth() {
+  return getAuth(getAdminApp())
+}
+
+const SERVER_UID = "shortlink-server"
+let serverSession: Promise<void> | null = null
+
+// Sign the server's Firestore client in with a { server: true } claim, which the
+// security rules require for every write. Call before touching Firestore in a route.
+export function ensureServerSession(): Promise<void> {
+  if (!serverSession) {
+    serverSession = getAdminAuth()
+      .createCustomToken(SERVER_UID, { server: true })
+      .then((token) => signInWithCustomToken(auth, token))
+      .then(() => console.log("🔐 Server Firestore session established"))
+      .catch((error) => {
+        serverSession = null
+        throw error
+      })
+  }
+  return serverSession
+}
+
+// Resolve the signed-in user from the Authorization: Bearer <idToken> header
+export async function getRequestUser(request: NextRequest): Promise<RequestUser | null> {
+  const header = request.headers.get("authorization") || ""
+  const match = header.match(/^Bearer (.+)$/i)
+  if (!match) {
+    return null
+  }
+
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(match[1])
+    return {
+      uid: decoded.uid,
+      email: decoded.email,
+      emailVerified: decoded.email_verified === true,
+      displayName: decoded.name,
+    }
+  } catch (error) {
+    console.error("❌ Invalid ID token:", error)
+    return null
+  }
+}
+
+export async function requireUser(request: NextRequest): Promise<RequestUser> {
+  const user = await getRequestUser(request)
+  if (!user) {
+    throw new AccessError(401, "Sign in to continue")
+  }
+  return user
+}
+
+// Maintenance jobs rewrite data across every workspace, so they are limited to project admins: people
+// signed in with a verified address listed in ADMIN_EMAILS (comma-separated)
+export async function requireProjectAdmin(request: NextRequest): Promise<RequestUser> {
+  const user = await requireUser(request)
+  const admins = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean)
+  if (!user.email || !user.emailVerified || !admins.includes(user.email.toLowerCase())) {
+    throw new AccessError(403, "This action is limited to project admins")
+  }
+
+  await ensureServerSession()
+  return user
+}
+
+// Constant-time check of "Authorization: Bearer <secret>"
+function hasBearerSecret(request: NextRequest, secret: string): boolean {
+  const actual = Buffer.from(request.headers.get("authorization") || "")
+  const expected = Buffer.from(`Bearer ${secret}`)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// Backups cover every workspace, so they aren't tied to a workspace role: the backup command sends
+// "Authorization: Bearer <BACKUP_SECRET>", and project admins (see requireProjectAdmin) can use the
+// admin page.
+export async function requireBackupAccess(request: NextRequest): Promise<void> {
+  const secret = process.env.BACKUP_SECRET
+  if (secret && hasBearerSecret(request, secret)) {
+    await ensureServerSession()
+    return
+  }
+
+  await requireProjectAdmin(request)
+}
+
+// The signed-in user, who must hold at least minimumRole in the workspace
+export async function requireWorkspaceRole(
+  request: NextRequest,
+  workspaceId: string,
+  minimumRole: WorkspaceRole,
+): Promise<{ user: RequestUser; role: WorkspaceRole }> {
+  const user = await requireUser(request)
+  await ensureServerSession()
+
+  const role = await getMemberRole(workspaceId, user.uid)
+  if (!role) {
+    throw new AccessError(404, "Workspace not found")
+  }
+  if (!hasRole(role, minimumRole)) {
+    throw new AccessError(403, `This action requires the ${minimumRole} role`)
+  }
+
+  return { user, role }
+}
+
+// Load a link and check the caller's role in the workspace that owns it.
+// Links from before workspaces existed are only accessible to their creator.
+// Public links satisfy a "viewer" requirement without signing in, unless they are password protected.
+export async function requireLinkAccess(
+  request: NextRequest,
+  shortCode: string,
+  minimumRole: WorkspaceRole,
+): Promise<{ user: RequestUser | null; role: WorkspaceRole | null; urlData: UrlData }> {
+  const user = await getRequestUser(request)
+  await ensureServerSession()
+
+  const urlSnap = await getDoc(doc(db, "urls", shortCode))
+  if (!urlSnap.exists()) {
+    throw new AccessError(404, "Short code not found")
+  }
+
+  const urlData = urlSnap.data() as UrlData
+  let role: WorkspaceRole | null = null
+  if (user && urlData.workspaceId) {
+    role = await getMemberRole(urlData.workspaceId, user.uid)
+  } else if (user && urlData.ownerId === user.uid) {
+    role = "owner"
+  }
+
+  const isPublic = urlData.isPublic === true && !isPasswordProtected(urlData)
+  if (hasRole(role, minimumRole) || (minimumRole === "viewer" && isPublic)) {
+    return { user, role, urlData }
+  }
+
+  if (!user) {
+    throw new AccessError(401, "Sign in to continue")
+  }
+  throw new AccessError(role ? 403 : 404, role ? `This action requires the ${minimumRole} role` : "Short code not found")
+}
@@ -0,0 +1,104 @@
+import { doc, getDoc, runTransaction, type Transaction } from "firebase/firestore"
+import { db } from "./firebase"
+
+export const ALIAS_MIN_LENGTH = 3
+export const ALIAS_MAX_LENGTH = 50
+
+// Letters, digits, "-" and "_", starting and ending with a letter or digit
+const ALIAS_PATTERN = /^[a-zA-Z0-9](?:[a-zA-Z0-9_-]*[a-zA-Z0-9])?$/
+
+// Top-level paths the app already serves - an alias here would never be reachable.
+// "bulk" would clash with /api/links/bulk instead.
+const RESERVED_ALIASES = [
+  "api",
+  "dashboard",
+  "analytics",
+  "admin",
+  "links",
+  "invite",
+  "login",
+  "logout",
+  "signin",
+  "signup",
+  "settings",
+  "static",
+  "public",
+  "not-found",
+  "fix-analytics",
+  "migrate-clean",
+  "bulk",
+]
+
+const RESERVED_PREFIXES = ["test", "debug", "migrate", "backfill", "_next"]
+
+export function generateShortCode(length = 6): string {
+  const chars = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789"
+  let result = ""
+  for (let i = 0; i < length; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length))
+  }
+  return result
+}
+
+// Validate a custom alias - returns an error message, or null if the alias is acceptable
+export function validateAlias(alias: string): string | null {
+  if (alias.length < ALIAS_MIN_LENGTH || alias.length > ALIAS_MAX_LENGTH) {
+    return `Alias must be between ${ALIAS_MIN_LENGTH} and ${ALIAS_MAX_LENGTH} characters`
+  }
+
+  if (!ALIAS_PATTERN.test(alias)) {
+    return "Alias may only contain letters, numbers, hyphens and underscores, and must start and end with a letter or number"
+  }
+
+  const normalized = alias.toLowerCase()
+  const isReserved =
+    RESERVED_ALIASES.includes(normalized) ||
+    RESERVED_PREFIXES.some((prefix) => normalized === prefix || normalized.startsWith(`${prefix}-`))
+
+  if (isReserved) {
+    return `"${alias}" is reserved`
+  }
+
+  return null
+}
+
+// Check whether an alias is valid and not already used by another link
+export async function checkAliasAvailability(alias: string): Promise<{ available: boolean; reason?: string }> {
+  const validationError = validateAlias(alias)
+  if (validationError) {
+    return { available: false, reason: validationError }
+  }
+
+  const urlSnap = await getDoc(doc(db, "urls", alias))
+  if (urlSnap.exists()) {
+    return { available: false, reason: "Alias is already taken" }
+  }
+
+  return { available: true }
+}
+
+// Atomically create the url and analytics documents for a short code.
+// Returns false (and writes nothing) if the code is already taken, so two
+// concurrent requests for the same code can never both succeed.
+// onClaimed can add further writes (e.g. the first history revision) to the same transaction.
+export async function claimShortCode(
+  shortCode: string,
+  urlData: Record<string, any>,
+  analyticsData: Record<string, any>,
+  onClaimed?: (transaction: Transaction) => void,
+): Promise<boolean> {
+  const urlRef = doc(db, "urls", shortCode)
+  const analyticsRef = doc(db, "analytics", shortCode)
+
+  return runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(urlRef)
+    if (existing.exists()) {
+      return false
+    }
+
+    transaction.set(urlRef, urlData)
+    transaction.set(analyticsRef, analyticsData)
+    onClaimed?.(transaction)
+    return true
+  })
+}
@@ -0,0 +1,34 @@
+// Link tags: short lowercase labels for grouping links, e.g. "catalog" or "spring-2026"
+
+export const MAX_LINK_TAGS = 10
+export const TAG_MAX_LENGTH = 30
+
+// Letters, digits, spaces, "-" and "_", starting with a letter or digit
+const TAG_PATTERN = /^[a-z0-9][a-z0-9 _-]*$/
+
+// Returns an error message, or null if the tags are usable
+export function validateTags(tags: unknown): string | null {
+  if (!Array.isArray(tags)) {
+    return "tags must be an array of strings"
+  }
+  const normalized = tags.map((tag) => (typeof tag === "string" ? tag.trim().toLowerCase() : tag))
+  for (const tag of normalized) {
+    if (typeof tag !== "string" || tag.length > TAG_MAX_LENGTH || (tag && !TAG_PATTERN.test(tag))) {
+      return `Tags must be at most ${TAG_MAX_LENGTH} letters, numbers, spaces, hyphens or underscores`
+    }
+  }
+  if (new Set(normalized.filter(Boolean)).size > MAX_LINK_TAGS) {
+    return `A link can have at most ${MAX_LINK_TAGS} tags`
+  }
+  return null
+}
+
+// Trimmed, lowercased and de-duplicated, empty tags dropped
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))]
+}
+
+// Tags typed as text, separated by commas or semicolons
+export function parseTagList(text: string): string[] {
+  return normalizeTags(text.split(/[,;]/))
+}
@@ -0,0 +1,174 @@
+import {
+  BROWSERS,
+  DEVICE_TYPES,
+  OPERATING_SYSTEMS,
+  type Browser,
+  type DeviceType,
+  type OperatingSystem,
+  type VisitorPlatform,
+} from "./user-agent"
+
+// Per-link targeting: rules that send some visitors to a different destination,
+// e.g. iOS to the App Store, Android to Google Play, or visitors from DE to the German
+// landing page. Rules are checked in order and the first match wins; visitors no rule
+// matches (including those whose country is unknown) go to the link's originalUrl.
+
+// Within one condition any listed value matches; across conditions all must match
+export interface TargetingConditions {
+  devices?: DeviceType[]
+  os?: OperatingSystem[]
+  browsers?: Browser[]
+  countries?: string[] // ISO 3166-1 alpha-2 codes, resolved from the visitor's IP (see geoip.ts)
+}
+
+export interface TargetingVisitor extends VisitorPlatform {
+  country: string | null
+}
+
+export interface TargetingRule {
+  id: string // stable across edits so analytics stay attributed to the rule
+  label?: string
+  url: string
+  conditions: TargetingConditions
+}
+
+export const MAX_TARGETING_RULES = 10
+export const TARGETING_LABEL_MAX_LENGTH = 60
+
+// Analytics key for clicks that no rule matched
+export const DEFAULT_TARGETING_KEY = "default"
+
+export const DEVICE_LABELS: Record<DeviceType, string> = {
+  mobile: "Mobile",
+  tablet: "Tablet",
+  desktop: "Desktop",
+  bot: "Bots",
+}
+
+export const OS_LABELS: Record<OperatingSystem, string> = {
+  ios: "iOS",
+  android: "Android",
+  windows: "Windows",
+  macos: "macOS",
+  linux: "Linux",
+  other: "Other",
+}
+
+export const BROWSER_LABELS: Record<Browser, string> = {
+  chrome: "Chrome",
+  safari: "Safari",
+  firefox: "Firefox",
+  edge: "Edge",
+  samsung: "Samsung Internet",
+  opera: "Opera",
+  other: "Other",
+}
+
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/
+
+// Conditions with a fixed set of values; countries are validated separately
+const CONDITION_VALUES: Record<Exclude<keyof TargetingConditions, "countries">, readonly string[]> = {
+  devices: DEVICE_TYPES,
+  os: OPERATING_SYSTEMS,
+  browsers: BROWSERS,
+}
+
+function enumConditionKeys() {
+  return Object.keys(CONDITION_VALUES) as (keyof typeof CONDITION_VALUES)[]
+}
+
+function conditionKeys(): (keyof TargetingConditions)[] {
+  return [...enumConditionKeys(), "countries"]
+}
+
+export function generateTargetingRuleId(): string {
+  return Math.random().toString(36).substring(2, 10)
+}
+
+// Structural checks only; the caller validates each rule's URL. Returns an error message or null.
+export function validateTargetingRules(rules: unknown): string | null {
+  if (!Array.isArray(rules)) {
+    return "targetingRules must be an array"
+  }
+  if (rules.length > MAX_TARGETING_RULES) {
+    return `A link can have at most ${MAX_TARGETING_RULES} targeting rules`
+  }
+
+  for (const rule of rules) {
+    if (!rule || typeof rule !== "object" || typeof rule.url !== "string") {
+      return "Each targeting rule needs a url"
+    }
+    const { label } = rule
+    if (label !== undefined && (typeof label !== "string" || label.length > TARGETING_LABEL_MAX_LENGTH)) {
+      return `Targeting rule labels must be text of at most ${TARGETING_LABEL_MAX_LENGTH} characters`
+    }
+
+    const conditions = rule.conditions || {}
+    let conditionCount = 0
+    for (const key of enumConditionKeys()) {
+      const values = conditions[key]
+      if (values === undefined) continue
+      if (!Array.isArray(values) || !values.every((value) => CONDITION_VALUES[key].includes(value))) {
+        return `Targeting rule ${key} must be a list of: ${CONDITION_VALUES[key].join(", ")}`
+      }
+      conditionCount += values.length
+    }
+    if (conditions.countries !== undefined) {
+      const { countries } = conditions
+      if (!Array.isArray(countries) || !countries.every((code) => COUNTRY_CODE_PATTERN.test(code))) {
+        return "Targeting rule countries must be a list of two-letter country codes, e.g. DE"
+      }
+      conditionCount += countries.length
+    }
+    if (conditionCount === 0) {
+      return "Each targeting rule needs at least one condition"
+    }
+  }
+  return null
+}
+
+// Only the fields we store: ids for new rules, empty conditions dropped
+export function normalizeTargetingRules(rules: TargetingRule[]): TargetingRule[] {
+  return rules.map((rule) => {
+    const conditions = Object.fromEntries(
+      conditionKeys()
+        .filter((key) => (rule.conditions[key] || []).length > 0)
+        .map((key) => [key, [...new Set<string>(rule.conditions[key])]]),
+    ) as TargetingConditions
+
+    return {
+      id: rule.id || generateTargetingRuleId(),
+      ...(rule.label?.trim() ? { label: rule.label.trim() } : {}),
+      url: rule.url,
+      conditions,
+    }
+  })
+}
+
+export function matchTargetingRule(
+  rules: TargetingRule[] | null | undefined,
+  visitor: TargetingVisitor,
+): TargetingRule | null {
+  return (
+    (rules || []).find(
+      ({ conditions }) =>
+        (!conditions.devices?.length || conditions.devices.includes(visitor.device)) &&
+        (!conditions.os?.length || conditions.os.includes(visitor.os)) &&
+        (!conditions.browsers?.length || conditions.browsers.includes(visitor.browser)) &&
+        (!conditions.countries?.length || (!!visitor.country && conditions.countries.includes(visitor.country))),
+    ) || null
+  )
+}
+
+// e.g. "DE, AT · iOS, Android · Mobile"
+export function describeTargetingRule(rule: TargetingRule): string {
+  if (rule.label) return rule.label
+
+  const parts = [
+    rule.conditions.countries?.join(", "),
+    rule.conditions.os?.map((os) => OS_LABELS[os]).join(", "),
+    rule.conditions.devices?.map((device) => DEVICE_LABELS[device]).join(", "),
+    rule.conditions.browsers?.map((browser) => BROWSER_LABELS[browser]).join(", "),
+  ]
+  return parts.filter(Boolean).join(" · ")
+}
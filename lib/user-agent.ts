@@ -0,0 +1,66 @@
+export const DEVICE_TYPES = ["mobile", "tablet", "desktop", "bot"] as const
+export type DeviceType = (typeof DEVICE_TYPES)[number]
+
+export const OPERATING_SYSTEMS = ["ios", "android", "windows", "macos", "linux", "other"] as const
+export type OperatingSystem = (typeof OPERATING_SYSTEMS)[number]
+
+export const BROWSERS = ["chrome", "safari", "firefox", "edge", "samsung", "opera", "other"] as const
+export type Browser = (typeof BROWSERS)[number]
+
+export interface VisitorPlatform {
+  device: DeviceType
+  os: OperatingSystem
+  browser: Browser
+}
+
+// Rough device classification from a User-Agent header
+export function getDeviceType(userAgent: string): DeviceType {
+  const ua = userAgent.toLowerCase()
+
+  if (!ua || /bot|crawler|spider|crawling|slurp|facebookexternalhit|preview|curl|wget/.test(ua)) {
+    return "bot"
+  }
+
+  if (/ipad|tablet|(android(?!.*mobile))|kindle|silk/.test(ua)) {
+    return "tablet"
+  }
+
+  if (/mobi|iphone|ipod|android|windows phone/.test(ua)) {
+    return "mobile"
+  }
+
+  return "desktop"
+}
+
+// iPads asking for the desktop site report themselves as macOS, so they count as macOS here
+export function getOperatingSystem(userAgent: string): OperatingSystem {
+  const ua = userAgent.toLowerCase()
+
+  if (/iphone|ipad|ipod/.test(ua)) return "ios"
+  if (/android/.test(ua)) return "android"
+  if (/windows/.test(ua)) return "windows"
+  if (/macintosh|mac os x/.test(ua)) return "macos"
+  if (/linux|x11|cros/.test(ua)) return "linux"
+  return "other"
+}
+
+// Order matters: Edge, Opera and Samsung Internet also claim to be Chrome, and Chrome claims to be Safari
+export function getBrowser(userAgent: string): Browser {
+  const ua = userAgent.toLowerCase()
+
+  if (/edg(e|a|ios)?\//.test(ua)) return "edge"
+  if (/opr\/|opera/.test(ua)) return "opera"
+  if (/samsungbrowser/.test(ua)) return "samsung"
+  if (/firefox|fxios/.test(ua)) return "firefox"
+  if (/chrome|crios|chromium/.test(ua)) return "chrome"
+  if (/safari/.test(ua)) return "safari"
+  return "other"
+}
+
+export function getVisitorPlatform(userAgent: string): VisitorPlatform {
+  return {
+    device: getDeviceType(userAgent),
+    os: getOperatingSystem(userAgent),
+    browser: getBrowser(userAgent),
+  }
+}
@@ -0,0 +1,88 @@
+// UTM parameters. A link can carry a UTM template that is merged into whichever destination
+// it redirects to (original URL, targeting rule or A/B variant), so the long URLs themselves
+// stay clean. Parameters already present on the destination are left alone.
+
+export const UTM_FIELDS = ["utm_source", "utm_medium", "utm_campaign", "utm_term", "utm_content"] as const
+
+export type UtmField = (typeof UTM_FIELDS)[number]
+
+export type UtmParams = Partial<Record<UtmField, string>>
+
+export const UTM_FIELD_LABELS: Record<UtmField, string> = {
+  utm_source: "Source",
+  utm_medium: "Medium",
+  utm_campaign: "Campaign",
+  utm_term: "Term",
+  utm_content: "Content",
+}
+
+export const UTM_FIELD_PLACEHOLDERS: Record<UtmField, string> = {
+  utm_source: "newsletter, google",
+  utm_medium: "email, cpc",
+  utm_campaign: "spring-sale",
+  utm_term: "running shoes",
+  utm_content: "header-banner",
+}
+
+export const UTM_VALUE_MAX_LENGTH = 100
+
+// Returns an error message, or null if the parameters are usable
+export function validateUtmParams(params: unknown): string | null {
+  if (!params || typeof params !== "object" || Array.isArray(params)) {
+    return 'utmParams must be an object, e.g. { utm_source: "newsletter" }'
+  }
+  for (const [field, value] of Object.entries(params)) {
+    if (!UTM_FIELDS.includes(field as UtmField)) {
+      return `Unknown UTM parameter "${field}". Use ${UTM_FIELDS.join(", ")}`
+    }
+    if (typeof value !== "string" || value.trim().length > UTM_VALUE_MAX_LENGTH) {
+      return `${field} must be text of at most ${UTM_VALUE_MAX_LENGTH} characters`
+    }
+  }
+  return null
+}
+
+// Trimmed values, empty ones dropped, in the usual field order
+export function normalizeUtmParams(params: UtmParams): UtmParams {
+  return Object.fromEntries(
+    UTM_FIELDS.filter((field) => params[field]?.trim()).map((field) => [field, params[field]!.trim()]),
+  ) as UtmParams
+}
+
+export function hasUtmParams(params: UtmParams | null | undefined): params is UtmParams {
+  return !!params && UTM_FIELDS.some((field) => params[field])
+}
+
+// Add the template's parameters that the destination doesn't already set
+export function applyUtmParams(url: string, params: UtmParams | null | undefined): string {
+  if (!hasUtmParams(params)) return url
+  try {
+    const destination = new URL(url)
+    for (const field of UTM_FIELDS) {
+      const value = params[field]
+      if (value && !destination.searchParams.has(field)) {
+        destination.searchParams.set(field, value)
+      }
+    }
+    return destination.toString()
+  } catch {
+    return url
+  }
+}
+
+// UTM parameters already on a URL
+export function getUtmParams(url: string): UtmParams {
+  try {
+    const { searchParams } = new URL(url)
+    return normalizeUtmParams(Object.fromEntries(UTM_FIELDS.map((field) => [field, searchParams.get(field) || ""])))
+  } catch {
+    return {}
+  }
+}
+
+// e.g. "newsletter / email / spring-sale"
+export function describeUtmParams(params: UtmParams): string {
+  return [params.utm_source, params.utm_medium, params.utm_campaign, params.utm_term, params.utm_content]
+    .filter(Boolean)
+    .join(" / ")
+}
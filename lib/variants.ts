@@ -0,0 +1,98 @@
+// A/B split testing: a link can rotate between several destinations by weight, e.g. 50/50
+// or 70/20/10. Each visitor is assigned a variant once and keeps it through a cookie, and the
+// variant is recorded on every click so the analytics page can compare them. Targeting rules
+// (see targeting.ts) are checked first; visitors they send elsewhere aren't part of the test.
+
+export interface LinkVariant {
+  id: string // stable across edits so analytics stay attributed to the variant
+  label?: string
+  url: string
+  weight: number // relative share of visitors, 1-100
+}
+
+export const MIN_LINK_VARIANTS = 2
+export const MAX_LINK_VARIANTS = 5
+export const MAX_VARIANT_WEIGHT = 100
+export const VARIANT_LABEL_MAX_LENGTH = 60
+
+// How long a visitor keeps the variant they were assigned
+export const VARIANT_COOKIE_MAX_AGE = 30 * 24 * 60 * 60 // seconds
+
+export function variantCookieName(shortCode: string): string {
+  return `sl_variant_${shortCode}`
+}
+
+export function generateVariantId(): string {
+  return Math.random().toString(36).substring(2, 10)
+}
+
+// Structural checks only; the caller validates each variant's URL. Returns an error message or null.
+export function validateVariants(variants: unknown): string | null {
+  if (!Array.isArray(variants)) {
+    return "variants must be an array"
+  }
+  // An empty list turns the test off
+  if (variants.length === 0) {
+    return null
+  }
+  if (variants.length < MIN_LINK_VARIANTS || variants.length > MAX_LINK_VARIANTS) {
+    return `An A/B test needs between ${MIN_LINK_VARIANTS} and ${MAX_LINK_VARIANTS} variants`
+  }
+
+  for (const variant of variants) {
+    if (!variant || typeof variant !== "object" || typeof variant.url !== "string") {
+      return "Each variant needs a url"
+    }
+    const { label, weight } = variant
+    if (label !== undefined && (typeof label !== "string" || label.length > VARIANT_LABEL_MAX_LENGTH)) {
+      return `Variant labels must be text of at most ${VARIANT_LABEL_MAX_LENGTH} characters`
+    }
+    if (!Number.isInteger(weight) || weight < 1 || weight > MAX_VARIANT_WEIGHT) {
+      return `Variant weights must be whole numbers between 1 and ${MAX_VARIANT_WEIGHT}`
+    }
+  }
+  return null
+}
+
+// Only the fields we store, with ids for new variants
+export function normalizeVariants(variants: LinkVariant[]): LinkVariant[] {
+  return variants.map((variant) => ({
+    id: variant.id || generateVariantId(),
+    ...(variant.label?.trim() ? { label: variant.label.trim() } : {}),
+    url: variant.url,
+    weight: variant.weight,
+  }))
+}
+
+// The visitor's previous variant if it still exists, otherwise a weighted random pick
+export function pickVariant(
+  variants: LinkVariant[] | null | undefined,
+  stickyId?: string | null,
+  random = Math.random(),
+): LinkVariant | null {
+  if (!variants?.length) return null
+
+  const sticky = stickyId ? variants.find((variant) => variant.id === stickyId) : undefined
+  if (sticky) return sticky
+
+  const totalWeight = variants.reduce((total, variant) => total + variant.weight, 0)
+  let remaining = random * totalWeight
+  for (const variant of variants) {
+    remaining -= variant.weight
+    if (remaining < 0) return variant
+  }
+  return variants[variants.length - 1]
+}
+
+// Share of new visitors a variant gets, in percent
+export function variantShare(variant: LinkVariant, variants: LinkVariant[]): number {
+  const totalWeight = variants.reduce((total, entry) => total + entry.weight, 0)
+  return totalWeight > 0 ? Math.round((variant.weight / totalWeight) * 100) : 0
+}
+
+// e.g. "Variant B" for an unlabelled second variant
+export function describeVariant(variant: LinkVariant, variants: LinkVariant[]): string {
+  if (variant.label) return variant.label
+  const index = variants.findIndex((entry) => entry.id === variant.id)
+  return `Variant ${String.fromCharCode(65 + Math.max(index, 0))}`
+}
@@ -0,0 +1,294 @@
+import {
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  collection,
+  collectionGroup,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  serverTimestamp,
+  writeBatch,
+} from "firebase/firestore"
+import { db } from "./firebase"
+
+// A workspace owns links. Members are stored as workspaces/{workspaceId}/members/{uid}
+// and pending invitations as invitations/{token}. Every user gets a personal
+// workspace whose id is their uid.
+export type WorkspaceRole = "owner" | "admin" | "editor" | "viewer"
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ["owner", "admin", "editor", "viewer"]
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+  owner: 4,
+}
+
+export const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: "Full control, including managing owners",
+  admin: "Manage members and all links",
+  editor: "Create and edit links",
+  viewer: "View links and analytics",
+}
+
+export interface Workspace {
+  id: string
+  name: string
+  createdAt: any
+  createdBy: string
+  personal?: boolean
+  defaultExpiryDays?: number | null // default expiry for new links: null = never, missing = global default
+}
+
+export interface WorkspaceMember {
+  uid: string
+  workspaceId: string
+  email?: string
+  displayName?: string
+  role: WorkspaceRole
+  joinedAt: any
+}
+
+export interface WorkspaceInvitation {
+  token: string
+  workspaceId: string
+  workspaceName: string
+  email: string
+  role: WorkspaceRole
+  invitedBy: string
+  createdAt: any
+}
+
+export interface WorkspaceWithRole extends Workspace {
+  role: WorkspaceRole
+}
+
+export interface MemberProfile {
+  uid: string
+  email?: string
+  displayName?: string
+}
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return WORKSPACE_ROLES.includes(value as WorkspaceRole)
+}
+
+// True if the role is at least as powerful as the minimum
+export function hasRole(role: WorkspaceRole | null | undefined, minimum: WorkspaceRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum]
+}
+
+// Whether a member with actorRole may give or take away targetRole.
+// Admins manage editors and viewers; only owners manage admins and owners.
+export function canManageRole(actorRole: WorkspaceRole | null | undefined, targetRole: WorkspaceRole): boolean {
+  if (actorRole === "owner") return true
+  return actorRole === "admin" && ROLE_RANK[targetRole] < ROLE_RANK.admin
+}
+
+function membersCollection(workspaceId: string) {
+  return collection(db, "workspaces", workspaceId, "members")
+}
+
+export function generateInvitationToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+export async function getWorkspace(workspaceId: string): Promise<Workspace | null> {
+  const workspaceSnap = await getDoc(doc(db, "workspaces", workspaceId))
+  return workspaceSnap.exists() ? ({ ...(workspaceSnap.data() as Workspace), id: workspaceSnap.id }) : null
+}
+
+export async function getMemberRole(workspaceId: string, uid: string): Promise<WorkspaceRole | null> {
+  const memberSnap = await getDoc(doc(membersCollection(workspaceId), uid))
+  return memberSnap.exists() ? (memberSnap.data() as WorkspaceMember).role : null
+}
+
+// Every workspace the user belongs to, with their role in each
+export async function getUserWorkspaces(uid: string): Promise<WorkspaceWithRole[]> {
+  const membershipsSnap = await getDocs(query(collectionGroup(db, "members"), where("uid", "==", uid)))
+
+  const workspaces = await Promise.all(
+    membershipsSnap.docs.map(async (memberDoc) => {
+      const member = memberDoc.data() as WorkspaceMember
+      const workspace = await getWorkspace(member.workspaceId)
+      return workspace ? { ...workspace, role: member.role } : null
+    }),
+  )
+
+  return workspaces
+    .filter((workspace): workspace is WorkspaceWithRole => workspace !== null)
+    .sort((a, b) => (a.personal === b.personal ? a.name.localeCompare(b.name) : a.personal ? -1 : 1))
+}
+
+export async function getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const membersSnap = await getDocs(query(membersCollection(workspaceId), orderBy("joinedAt", "asc")))
+  return membersSnap.docs.map((memberDoc) => memberDoc.data() as WorkspaceMember)
+}
+
+export async function getWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+  const invitationsSnap = await getDocs(
+    query(collection(db, "invitations"), where("workspaceId", "==", workspaceId), orderBy("createdAt", "desc")),
+  )
+  return invitationsSnap.docs.map((invitationDoc) => invitationDoc.data() as WorkspaceInvitation)
+}
+
+export async function getInvitation(token: string): Promise<WorkspaceInvitation | null> {
+  const invitationSnap = await getDoc(doc(db, "invitations", token))
+  return invitationSnap.exists() ? (invitationSnap.data() as WorkspaceInvitation) : null
+}
+
+// Create a workspace with the creator as its owner
+export async function createWorkspace(
+  name: string,
+  creator: MemberProfile,
+  options: { workspaceId?: string; personal?: boolean } = {},
+): Promise<Workspace> {
+  const workspaceRef = options.workspaceId
+    ? doc(db, "workspaces", options.workspaceId)
+    : doc(collection(db, "workspaces"))
+
+  const workspace = {
+    name,
+    createdAt: serverTimestamp(),
+    createdBy: creator.uid,
+    personal: options.personal === true,
+  }
+
+  const batch = writeBatch(db)
+  batch.set(workspaceRef, workspace)
+  batch.set(doc(membersCollection(workspaceRef.id), creator.uid), {
+    uid: creator.uid,
+    workspaceId: workspaceRef.id,
+    email: creator.email || null,
+    displayName: creator.displayName || null,
+    role: "owner",
+    joinedAt: serverTimestamp(),
+  })
+  await batch.commit()
+
+  console.log(`✅ Workspace created: ${workspaceRef.id} (${name})`)
+  return { ...workspace, id: workspaceRef.id }
+}
+
+// Make sure the user has a personal workspace, moving any links they created
+// before workspaces existed into it
+export async function ensurePersonalWorkspace(user: MemberProfile): Promise<void> {
+  if (await getWorkspace(user.uid)) {
+    return
+  }
+
+  await createWorkspace("Personal", user, { workspaceId: user.uid, personal: true })
+
+  const ownedLinksSnap = await getDocs(query(collection(db, "urls"), where("ownerId", "==", user.uid)))
+  const unassigned = ownedLinksSnap.docs.filter((urlDoc) => !urlDoc.data().workspaceId)
+
+  for (let i = 0; i < unassigned.length; i += 400) {
+    const batch = writeBatch(db)
+    unassigned.slice(i, i + 400).forEach((urlDoc) => batch.update(urlDoc.ref, { workspaceId: user.uid }))
+    await batch.commit()
+  }
+
+  if (unassigned.length > 0) {
+    console.log(`📦 Moved ${unassigned.length} links into personal workspace for: ${user.uid}`)
+  }
+}
+
+export async function updateWorkspaceSettings(
+  workspaceId: string,
+  settings: Pick<Workspace, "defaultExpiryDays">,
+): Promise<void> {
+  await updateDoc(doc(db, "workspaces", workspaceId), settings)
+}
+
+export async function updateMemberRole(workspaceId: string, uid: string, role: WorkspaceRole): Promise<void> {
+  const memberRef = doc(membersCollection(workspaceId), uid)
+  const memberSnap = await getDoc(memberRef)
+  if (!memberSnap.exists()) {
+    throw new Error("Member not found")
+  }
+
+  if ((memberSnap.data() as WorkspaceMember).role === "owner" && role !== "owner") {
+    await assertAnotherOwner(workspaceId, uid)
+  }
+
+  await updateDoc(memberRef, { role })
+}
+
+export async function removeMember(workspaceId: string, uid: string): Promise<void> {
+  const memberRef = doc(membersCollection(workspaceId), uid)
+  const memberSnap = await getDoc(memberRef)
+  if (!memberSnap.exists()) {
+    return
+  }
+
+  if ((memberSnap.data() as WorkspaceMember).role === "owner") {
+    await assertAnotherOwner(workspaceId, uid)
+  }
+
+  await deleteDoc(memberRef)
+}
+
+// A workspace must always keep at least one owner
+async function assertAnotherOwner(workspaceId: string, uid: string): Promise<void> {
+  const ownersSnap = await getDocs(query(membersCollection(workspaceId), where("role", "==", "owner")))
+  if (!ownersSnap.docs.some((ownerDoc) => ownerDoc.id !== uid)) {
+    throw new Error("A workspace must have at least one owner")
+  }
+}
+
+export async function createInvitation(
+  workspace: Workspace,
+  email: string,
+  role: WorkspaceRole,
+  invitedBy: string,
+): Promise<WorkspaceInvitation> {
+  const token = generateInvitationToken()
+  const invitation = {
+    token,
+    workspaceId: workspace.id,
+    workspaceName: workspace.name,
+    email: email.trim().toLowerCase(),
+    role,
+    invitedBy,
+    createdAt: serverTimestamp(),
+  }
+
+  await setDoc(doc(db, "invitations", token), invitation)
+
+  return invitation
+}
+
+export async function revokeInvitation(token: string): Promise<void> {
+  await deleteDoc(doc(db, "invitations", token))
+}
+
+// Join the invited workspace. Existing members keep the higher of their current and invited role.
+export async function acceptInvitation(invitation: WorkspaceInvitation, user: MemberProfile): Promise<void> {
+  await runTransaction(db, async (transaction) => {
+    const memberRef = doc(membersCollection(invitation.workspaceId), user.uid)
+    const memberSnap = await transaction.get(memberRef)
+    const currentRole = memberSnap.exists() ? (memberSnap.data() as WorkspaceMember).role : null
+
+    if (!hasRole(currentRole, invitation.role)) {
+      transaction.set(memberRef, {
+        uid: user.uid,
+        workspaceId: invitation.workspaceId,
+        email: user.email || null,
+        displayName: user.displayName || null,
+        role: invitation.role,
+        joinedAt: memberSnap.exists() ? memberSnap.data().joinedAt : serverTimestamp(),
+      })
+    }
+
+    transaction.delete(doc(db, "invitations", invitation.token))
+  })
+}
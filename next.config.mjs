@@ -9,6 +9,12 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // Ship the offline GeoIP database (see lib/geoip.ts) with the redirect functions
+  outputFileTracingIncludes: {
+    "/[shortCode]": ["./data/*.mmdb"],
+    "/[shortCode]/[...path]": ["./data/*.mmdb"],
+    "/api/redirect/[shortCode]": ["./data/*.mmdb"],
+  },
 }
 
 export default nextConfig
\ No newline at end of file
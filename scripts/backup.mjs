@@ -0,0 +1,78 @@
+// Back up and restore links and analytics through the app's /api/admin/backup endpoint.
+//
+//   node scripts/backup.mjs export [file]
+//   node scripts/backup.mjs restore <file> [--mode merge|overwrite] [--dry-run]
+//
+// BACKUP_URL is the app to talk to (default http://localhost:3000) and BACKUP_SECRET must match the
+// app's. To work against the Firestore emulator, start the app with NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST
+// and FIREBASE_AUTH_EMULATOR_HOST set (see firebase.json for the ports).
+import { createReadStream, createWriteStream } from "node:fs"
+import { Readable } from "node:stream"
+import { pipeline } from "node:stream/promises"
+
+const baseUrl = (process.env.BACKUP_URL || "http://localhost:3000").replace(/\/+$/, "")
+const secret = process.env.BACKUP_SECRET
+const [command, ...args] = process.argv.slice(2)
+
+function fail(message) {
+  console.error(`❌ ${message}`)
+  process.exit(1)
+}
+
+function option(name) {
+  const index = args.indexOf(name)
+  return index === -1 ? undefined : args[index + 1]
+}
+
+async function exportBackup() {
+  const file = args[0] || `shortlink-backup-${new Date().toISOString().slice(0, 10)}.ndjson`
+  const response = await fetch(`${baseUrl}/api/admin/backup`, { headers: { Authorization: `Bearer ${secret}` } })
+  if (!response.ok) {
+    fail(`Export failed: ${(await response.json().catch(() => ({}))).error || response.statusText}`)
+  }
+  await pipeline(Readable.fromWeb(response.body), createWriteStream(file))
+  console.log(`💾 Backup written to ${file}`)
+}
+
+async function restoreBackup() {
+  const file = args.find((arg, index) => !arg.startsWith("--") && args[index - 1] !== "--mode")
+  if (!file) {
+    fail("Usage: node scripts/backup.mjs restore <file> [--mode merge|overwrite] [--dry-run]")
+  }
+  const params = new URLSearchParams({ mode: option("--mode") || "merge", dryRun: String(args.includes("--dry-run")) })
+
+  const response = await fetch(`${baseUrl}/api/admin/backup?${params}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}`, "Content-Type": "application/x-ndjson" },
+    body: Readable.toWeb(createReadStream(file)),
+    duplex: "half",
+  })
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    fail(`Restore failed: ${result.error || response.statusText}`)
+  }
+
+  const action = result.dryRun ? "🔍 Dry run" : "♻️ Restore"
+  console.log(`${action} of the backup from ${result.exportedAt} (${result.mode})`)
+  console.log(`   ${result.written} ${result.dryRun ? "to write" : "written"}, ${result.skipped} already present`)
+  for (const [collection, count] of Object.entries(result.counts)) {
+    console.log(`   ${collection}: ${count}`)
+  }
+  if (!result.complete) {
+    console.warn("⚠️ The archive looks truncated: its footer is missing or doesn't match the documents read")
+  }
+  if (!result.dryRun && result.rollupsRebuilt > 0) {
+    console.log(`   Rebuilt click rollups for ${result.rollupsRebuilt} links from the restored click events`)
+  }
+}
+
+if (!secret) {
+  fail("Set BACKUP_SECRET to the value configured in the app")
+}
+if (command === "export") {
+  await exportBackup()
+} else if (command === "restore") {
+  await restoreBackup()
+} else {
+  fail("Usage: node scripts/backup.mjs export [file] | restore <file> [--mode merge|overwrite] [--dry-run]")
+}